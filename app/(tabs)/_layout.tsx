@@ -1,7 +1,10 @@
 import { Tabs } from 'expo-router';
 import { Home, Calendar, User } from 'lucide-react-native';
+import { useUnreadMessages } from '@/contexts/UnreadMessagesContext';
 
 export default function TabLayout() {
+  const { totalUnread } = useUnreadMessages();
+
   return (
     <Tabs
       screenOptions={{
@@ -34,6 +37,7 @@ export default function TabLayout() {
         options={{
           title: 'Bookings',
           tabBarIcon: ({ size, color }) => <Calendar size={size} color={color} />,
+          tabBarBadge: totalUnread > 0 ? totalUnread : undefined,
         }}
       />
       <Tabs.Screen
@@ -1,49 +1,164 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, RefreshControl } from 'react-native';
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+  Switch,
+} from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { useAuth } from '@/contexts/AuthContext';
+import { useUnreadMessages } from '@/contexts/UnreadMessagesContext';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+import { useLocationSharing } from '@/hooks/useLocationSharing';
 import { supabase } from '@/lib/supabase';
-import { Calendar, MapPin, Clock, CheckCircle, XCircle } from 'lucide-react-native';
+import {
+  BOOKING_STATUS_LABELS,
+  BookingStatus,
+  getAvailableTransitions,
+  transitionBooking,
+} from '@/lib/bookingStatus';
+import { isCancellable } from '@/lib/cancellationPolicy';
+import { PAYMENT_STATUS_LABELS, Payment, PaymentStatus } from '@/lib/payments';
+import { isInspectionService } from '@/lib/inspections';
+import { setOnline } from '@/lib/availability';
+import {
+  DISPATCH_STATUS_LABELS,
+  DispatchOffer,
+  DispatchStatus,
+  OfferedBooking,
+  claimDispatch,
+  declineDispatch,
+  fetchOpenOffers,
+} from '@/lib/dispatch';
+import { formatDistance, formatTravelTime } from '@/lib/location';
+import {
+  JobLocation,
+  estimateArrival,
+  fetchJobLocations,
+  isTrackedBooking,
+} from '@/lib/tracking';
+import {
+  Calendar,
+  MapPin,
+  Clock,
+  CheckCircle,
+  XCircle,
+  Star,
+  Navigation,
+  CreditCard,
+  MessageCircle,
+  Camera,
+  ClipboardCheck,
+  Siren,
+} from 'lucide-react-native';
 
 interface Booking {
   id: string;
-  status: string;
+  status: BookingStatus;
+  mechanic_id: string | null;
+  dispatch_status: DispatchStatus | null;
+  vehicle_id: string | null;
   vehicle_make: string;
   vehicle_model: string;
   vehicle_year: number;
   location_address: string;
+  location_latitude: number;
+  location_longitude: number;
   scheduled_time: string;
   total_price: number;
   created_at: string;
+  en_route_at: string | null;
+  cancellation_fee: number;
+  cancellation_reason: string | null;
+  cancelled_by: string | null;
   service: {
     name: string;
     estimated_duration: number;
+    category: string;
   };
   mechanic: {
     business_name: string;
     rating: number;
   } | null;
+  customer: {
+    full_name: string;
+    phone: string | null;
+  } | null;
+  review: {
+    rating: number;
+  } | null;
+  payment: Pick<Payment, 'booking_id' | 'status'> | null;
 }
 
+const BOOKING_SELECT = `
+  *,
+  service:services(name, estimated_duration, category),
+  mechanic:mechanics(business_name, rating),
+  customer:profiles(full_name, phone),
+  review:reviews(rating),
+  payment:payments(booking_id, status)
+`;
+
+const JOB_SECTIONS: { status: BookingStatus; title: string }[] = [
+  { status: 'pending', title: 'New Requests' },
+  { status: 'accepted', title: 'Upcoming Jobs' },
+  { status: 'in_progress', title: 'In Progress' },
+  { status: 'completed', title: 'Completed' },
+  { status: 'cancelled', title: 'Cancelled' },
+];
+
+const JOB_ACTION_LABELS: { [status: string]: string } = {
+  accepted: 'Accept',
+  in_progress: 'Start Job',
+  completed: 'Complete Job',
+  cancelled: 'Decline',
+};
+
 export default function BookingsScreen() {
-  const { profile } = useAuth();
+  const { profile, mechanic, refreshMechanic } = useAuth();
+  const { unreadCounts } = useUnreadMessages();
+  const router = useRouter();
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const [offers, setOffers] = useState<OfferedBooking[]>([]);
+  const [jobLocations, setJobLocations] = useState<{ [bookingId: string]: JobLocation }>({});
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [togglingOnline, setTogglingOnline] = useState(false);
 
-  useEffect(() => {
-    loadBookings();
-  }, []);
+  const isMechanic = profile?.user_type === 'mechanic';
+  const realtimeFilter = isMechanic
+    ? mechanic && `mechanic_id=eq.${mechanic.id}`
+    : profile && `customer_id=eq.${profile.id}`;
+
+  useFocusEffect(
+    useCallback(() => {
+      loadBookings();
+      loadOffers();
+      loadJobLocations();
+    }, [profile?.id, mechanic?.id])
+  );
 
   const loadBookings = async () => {
-    const { data, error } = await supabase
-      .from('bookings')
-      .select(`
-        *,
-        service:services(name, estimated_duration),
-        mechanic:mechanics(business_name, rating)
-      `)
-      .eq('customer_id', profile?.id)
-      .order('created_at', { ascending: false });
+    if (isMechanic && !mechanic) {
+      setBookings([]);
+      setLoading(false);
+      setRefreshing(false);
+      return;
+    }
+
+    const query = supabase.from('bookings').select(BOOKING_SELECT);
+
+    const { data, error } = await (isMechanic
+      ? query.eq('mechanic_id', mechanic?.id)
+      : query.eq('customer_id', profile?.id)
+    ).order('created_at', { ascending: false });
 
     if (data) {
       setBookings(data as any);
@@ -52,9 +167,213 @@ export default function BookingsScreen() {
     setRefreshing(false);
   };
 
+  const loadOffers = async () => {
+    setOffers(isMechanic && mechanic ? await fetchOpenOffers(mechanic.id) : []);
+  };
+
+  const loadJobLocations = async () => {
+    if (isMechanic || !profile) return;
+
+    const locations = await fetchJobLocations(profile.id);
+    setJobLocations(Object.fromEntries(locations.map((item) => [item.booking_id, item])));
+  };
+
+  const handleBookingChange = async (payload: RealtimePostgresChangesPayload<Booking>) => {
+    if (payload.eventType === 'DELETE') {
+      setBookings((current) => current.filter((item) => item.id !== payload.old.id));
+      return;
+    }
+
+    if (payload.eventType === 'UPDATE') {
+      const changes = payload.new;
+      const previous = bookings.find((item) => item.id === changes.id);
+
+      // A dispatched booking just got its mechanic, whose details need a fetch.
+      if (!previous || previous.mechanic_id === changes.mechanic_id) {
+        setBookings((current) =>
+          current.map((item) => (item.id === changes.id ? { ...item, ...changes } : item))
+        );
+        return;
+      }
+    }
+
+    const { data } = await supabase
+      .from('bookings')
+      .select(BOOKING_SELECT)
+      .eq('id', payload.new.id)
+      .maybeSingle();
+
+    if (data) {
+      setBookings((current) => [
+        data as any,
+        ...current.filter((item) => item.id !== payload.new.id),
+      ]);
+    }
+  };
+
+  useRealtimeChanges<Booking>('bookings', realtimeFilter || null, handleBookingChange);
+
+  const handlePaymentChange = (payload: RealtimePostgresChangesPayload<Payment>) => {
+    if (payload.eventType === 'DELETE') return;
+
+    const payment = payload.new;
+    setBookings((current) =>
+      current.map((item) =>
+        item.id === payment.booking_id
+          ? { ...item, payment: { booking_id: payment.booking_id, status: payment.status } }
+          : item
+      )
+    );
+  };
+
+  useRealtimeChanges<Payment>('payments', realtimeFilter || null, handlePaymentChange);
+
+  // New offers arrive as inserts; taken or cancelled jobs close theirs with an update.
+  useRealtimeChanges<DispatchOffer>(
+    'dispatch_offers',
+    isMechanic && mechanic ? `mechanic_id=eq.${mechanic.id}` : null,
+    loadOffers
+  );
+
+  const handleJobLocationChange = (payload: RealtimePostgresChangesPayload<JobLocation>) => {
+    if (payload.eventType === 'DELETE') {
+      const bookingId = payload.old.booking_id;
+      if (!bookingId) return;
+
+      setJobLocations((current) => {
+        const next = { ...current };
+        delete next[bookingId];
+        return next;
+      });
+      return;
+    }
+
+    setJobLocations((current) => ({ ...current, [payload.new.booking_id]: payload.new }));
+  };
+
+  useRealtimeChanges<JobLocation>(
+    'booking_tracking',
+    !isMechanic && profile ? `customer_id=eq.${profile.id}` : null,
+    handleJobLocationChange
+  );
+
+  // Mechanics share their position while driving to or working on a job.
+  const { error: sharingError } = useLocationSharing(
+    isMechanic && bookings.some(isTrackedBooking)
+  );
+
+  const updateStatus = async (booking: Booking, status: BookingStatus, reason?: string) => {
+    setUpdatingId(booking.id);
+
+    const { error, paymentError } = await transitionBooking(booking.id, status, reason);
+
+    setUpdatingId(null);
+
+    if (error) {
+      Alert.alert('Update Failed', error.message);
+      return;
+    }
+
+    if (paymentError) {
+      Alert.alert('Payment Issue', paymentError);
+    }
+
+    setBookings((current) =>
+      current.map((item) => (item.id === booking.id ? { ...item, status } : item))
+    );
+  };
+
+  const markEnRoute = async (booking: Booking) => {
+    setUpdatingId(booking.id);
+
+    // The database records its own time; the value sent only marks the change.
+    const { data, error } = await supabase
+      .from('bookings')
+      .update({ en_route_at: new Date().toISOString() })
+      .eq('id', booking.id)
+      .select('en_route_at')
+      .single();
+
+    setUpdatingId(null);
+
+    if (error) {
+      Alert.alert('Update Failed', error.message);
+      return;
+    }
+
+    setBookings((current) =>
+      current.map((item) =>
+        item.id === booking.id ? { ...item, en_route_at: data.en_route_at } : item
+      )
+    );
+  };
+
+  const handleToggleOnline = async (online: boolean) => {
+    if (!mechanic) return;
+
+    setTogglingOnline(true);
+    const { error } = await setOnline(mechanic.id, online);
+    await refreshMechanic();
+    setTogglingOnline(false);
+
+    if (error) {
+      Alert.alert('Update Failed', error);
+    }
+  };
+
+  const handleClaimOffer = async (offer: OfferedBooking) => {
+    setUpdatingId(offer.booking_id);
+    const { error, paymentError } = await claimDispatch(offer.booking_id);
+    setUpdatingId(null);
+
+    if (error) {
+      Alert.alert('Job Unavailable', error);
+    } else if (paymentError) {
+      Alert.alert('Payment Issue', paymentError);
+    }
+
+    loadOffers();
+    loadBookings();
+  };
+
+  const handleDeclineOffer = async (offer: OfferedBooking) => {
+    setUpdatingId(offer.booking_id);
+    const { error } = await declineDispatch(offer.booking_id);
+    setUpdatingId(null);
+
+    if (error) {
+      Alert.alert('Update Failed', error);
+    }
+
+    setOffers((current) => current.filter((item) => item.booking_id !== offer.booking_id));
+  };
+
+  const handleJobAction = (booking: Booking, status: BookingStatus) => {
+    if (status !== 'cancelled') {
+      updateStatus(booking, status);
+      return;
+    }
+
+    Alert.alert(
+      'Decline Job',
+      'Are you sure you want to decline this job? The customer will need to book again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Decline',
+          style: 'destructive',
+          onPress: () => updateStatus(booking, status, 'Declined by mechanic'),
+        },
+      ],
+      { cancelable: true }
+    );
+  };
+
   const onRefresh = () => {
     setRefreshing(true);
     loadBookings();
+    loadOffers();
+    loadJobLocations();
   };
 
   const getStatusColor = (status: string) => {
@@ -88,6 +407,24 @@ export default function BookingsScreen() {
     return <Clock size={20} color={getStatusColor(status)} />;
   };
 
+  const getPaymentColor = (status: PaymentStatus) => {
+    const colors: { [key: string]: string } = {
+      authorized: '#3b82f6',
+      captured: '#10b981',
+      failed: '#ef4444',
+    };
+    return colors[status] || '#6b7280';
+  };
+
+  const getPaymentBgColor = (status: PaymentStatus) => {
+    const colors: { [key: string]: string } = {
+      authorized: '#dbeafe',
+      captured: '#d1fae5',
+      failed: '#fee2e2',
+    };
+    return colors[status] || '#f3f4f6';
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -99,6 +436,314 @@ export default function BookingsScreen() {
     });
   };
 
+  const renderArrival = (booking: Booking, location: JobLocation) => {
+    const { distance, minutes } = estimateArrival(location, {
+      latitude: Number(booking.location_latitude),
+      longitude: Number(booking.location_longitude),
+    });
+
+    return (
+      <>
+        <Text style={styles.trackingText}>
+          {booking.status === 'accepted'
+            ? `${formatDistance(distance)} away • arriving in about ${formatTravelTime(minutes)}`
+            : `Your mechanic is ${formatDistance(distance)} from your vehicle`}
+        </Text>
+        <Text style={styles.trackingUpdated}>
+          Updated{' '}
+          {new Date(location.recorded_at).toLocaleTimeString('en-US', {
+            hour: 'numeric',
+            minute: '2-digit',
+          })}
+        </Text>
+      </>
+    );
+  };
+
+  const renderBooking = (booking: Booking) => (
+    <View key={booking.id} style={styles.bookingCard}>
+      <View style={styles.bookingHeader}>
+        <Text style={styles.serviceName}>{booking.service.name}</Text>
+        <View style={styles.badges}>
+          <View
+            style={[
+              styles.statusBadge,
+              { backgroundColor: getStatusBgColor(booking.status) },
+            ]}
+          >
+            {getStatusIcon(booking.status)}
+            <Text
+              style={[
+                styles.statusText,
+                { color: getStatusColor(booking.status) },
+              ]}
+            >
+              {BOOKING_STATUS_LABELS[booking.status] ?? booking.status}
+            </Text>
+          </View>
+          {booking.payment && (
+            <View
+              style={[
+                styles.statusBadge,
+                { backgroundColor: getPaymentBgColor(booking.payment.status) },
+              ]}
+            >
+              <CreditCard size={14} color={getPaymentColor(booking.payment.status)} />
+              <Text
+                style={[styles.statusText, { color: getPaymentColor(booking.payment.status) }]}
+              >
+                {PAYMENT_STATUS_LABELS[booking.payment.status]}
+              </Text>
+            </View>
+          )}
+        </View>
+      </View>
+
+      <View style={styles.bookingDetails}>
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>Vehicle:</Text>
+          <Text style={styles.detailValue}>
+            {booking.vehicle_year} {booking.vehicle_make} {booking.vehicle_model}
+          </Text>
+          {!isMechanic && booking.vehicle_id && (
+            <TouchableOpacity
+              onPress={() => router.push(`/garage/history?vehicleId=${booking.vehicle_id}`)}
+            >
+              <Text style={styles.historyLink}>History</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isMechanic && booking.customer && (
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Customer:</Text>
+            <Text style={styles.detailValue}>
+              {booking.customer.full_name}
+              {booking.customer.phone ? ` • ${booking.customer.phone}` : ''}
+            </Text>
+          </View>
+        )}
+
+        {!isMechanic && booking.mechanic && (
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Mechanic:</Text>
+            <Text style={styles.detailValue}>{booking.mechanic.business_name}</Text>
+          </View>
+        )}
+
+        <View style={styles.detailRow}>
+          <MapPin size={16} color="#6b7280" />
+          <Text style={styles.detailValue}>{booking.location_address}</Text>
+        </View>
+
+        <View style={styles.detailRow}>
+          <Clock size={16} color="#6b7280" />
+          <Text style={styles.detailValue}>{formatDate(booking.scheduled_time)}</Text>
+        </View>
+
+        {!isMechanic &&
+          booking.status === 'pending' &&
+          !booking.mechanic_id &&
+          booking.dispatch_status && (
+            <TouchableOpacity
+              style={styles.detailRow}
+              onPress={() => router.push(`/booking/dispatch?bookingId=${booking.id}`)}
+            >
+              <Siren size={16} color="#dc2626" />
+              <Text style={styles.dispatchText}>
+                {DISPATCH_STATUS_LABELS[booking.dispatch_status]}
+              </Text>
+              <Text style={styles.historyLink}>Status</Text>
+            </TouchableOpacity>
+          )}
+
+        {booking.status === 'accepted' && booking.en_route_at && (
+          <View style={styles.detailRow}>
+            <Navigation size={16} color="#2563eb" />
+            <Text style={styles.enRouteText}>
+              {isMechanic ? 'You are on the way' : 'Your mechanic is on the way'}
+            </Text>
+          </View>
+        )}
+
+        {!isMechanic && isTrackedBooking(booking) && jobLocations[booking.id] && (
+          <View style={styles.trackingInfo}>
+            {renderArrival(booking, jobLocations[booking.id])}
+          </View>
+        )}
+
+        {booking.status === 'cancelled' && (
+          <View style={styles.cancellationInfo}>
+            {booking.cancellation_reason ? (
+              <Text style={styles.cancellationText}>Reason: {booking.cancellation_reason}</Text>
+            ) : null}
+            {booking.cancellation_fee > 0 && (
+              <Text style={styles.cancellationText}>
+                Cancellation fee: ${booking.cancellation_fee.toFixed(2)}
+              </Text>
+            )}
+          </View>
+        )}
+      </View>
+
+      <View style={styles.bookingFooter}>
+        <Text style={styles.price}>${booking.total_price.toFixed(2)}</Text>
+        <View style={styles.footerActions}>
+          {booking.mechanic_id && (
+            <TouchableOpacity
+              style={styles.chatButton}
+              onPress={() => router.push(`/booking/chat?bookingId=${booking.id}`)}
+            >
+              <MessageCircle size={18} color="#2563eb" />
+              {unreadCounts[booking.id] ? (
+                <View style={styles.unreadBadge}>
+                  <Text style={styles.unreadBadgeText}>{unreadCounts[booking.id]}</Text>
+                </View>
+              ) : null}
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.chatButton}
+            onPress={() => router.push(`/booking/photos?bookingId=${booking.id}`)}
+          >
+            <Camera size={18} color="#2563eb" />
+          </TouchableOpacity>
+          {isInspectionService(booking.service.category) &&
+            (booking.status === 'in_progress' || booking.status === 'completed') && (
+              <TouchableOpacity
+                style={styles.chatButton}
+                onPress={() => router.push(`/booking/inspection?bookingId=${booking.id}`)}
+              >
+                <ClipboardCheck size={18} color="#2563eb" />
+              </TouchableOpacity>
+            )}
+          {booking.status === 'completed' && (
+            <TouchableOpacity
+              style={styles.reviewButton}
+              onPress={() => router.push(`/booking/invoice?bookingId=${booking.id}`)}
+            >
+              <Text style={styles.reviewButtonText}>Invoice</Text>
+            </TouchableOpacity>
+          )}
+          {booking.status === 'completed' && booking.review ? (
+            <View style={styles.reviewed}>
+              <Star size={16} color="#f59e0b" fill="#f59e0b" />
+              <Text style={styles.reviewedText}>{booking.review.rating} / 5</Text>
+            </View>
+          ) : !isMechanic && booking.status === 'completed' ? (
+            <TouchableOpacity
+              style={styles.reviewButton}
+              onPress={() => router.push(`/booking/review?bookingId=${booking.id}`)}
+            >
+              <Text style={styles.reviewButtonText}>Leave Review</Text>
+            </TouchableOpacity>
+          ) : !isMechanic && isCancellable(booking.status) ? (
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => router.push(`/booking/cancel?bookingId=${booking.id}`)}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      </View>
+
+      {isMechanic && getAvailableTransitions(booking.status, 'mechanic').length > 0 && (
+        <View style={styles.jobActions}>
+          {updatingId === booking.id ? (
+            <ActivityIndicator color="#2563eb" />
+          ) : (
+            <>
+              {booking.status === 'accepted' && !booking.en_route_at && (
+                <TouchableOpacity
+                  style={[styles.jobActionButton, styles.jobActionButtonSecondary]}
+                  onPress={() => markEnRoute(booking)}
+                >
+                  <Text style={[styles.jobActionText, styles.jobActionTextSecondary]}>
+                    On My Way
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {getAvailableTransitions(booking.status, 'mechanic').map((status) => (
+                <TouchableOpacity
+                  key={status}
+                  style={[
+                    styles.jobActionButton,
+                    status === 'cancelled' && styles.jobActionButtonDestructive,
+                  ]}
+                  onPress={() => handleJobAction(booking, status)}
+                >
+                  <Text
+                    style={[
+                      styles.jobActionText,
+                      status === 'cancelled' && styles.jobActionTextDestructive,
+                    ]}
+                  >
+                    {JOB_ACTION_LABELS[status]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+
+  const renderOffer = (offer: OfferedBooking) => (
+    <View key={offer.booking_id} style={[styles.bookingCard, styles.offerCard]}>
+      <View style={styles.bookingHeader}>
+        <Text style={styles.serviceName}>{offer.booking?.service?.name ?? 'Emergency job'}</Text>
+        <Text style={styles.offerDistance}>{formatDistance(Number(offer.distance_km))} away</Text>
+      </View>
+
+      {offer.booking && (
+        <View style={styles.bookingDetails}>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Vehicle:</Text>
+            <Text style={styles.detailValue}>
+              {offer.booking.vehicle_year} {offer.booking.vehicle_make}{' '}
+              {offer.booking.vehicle_model}
+            </Text>
+          </View>
+          <View style={styles.detailRow}>
+            <MapPin size={16} color="#6b7280" />
+            <Text style={styles.detailValue}>{offer.booking.location_address}</Text>
+          </View>
+          {offer.booking.notes ? (
+            <Text style={styles.detailValue}>{offer.booking.notes}</Text>
+          ) : null}
+        </View>
+      )}
+
+      <View style={styles.bookingFooter}>
+        <Text style={styles.price}>${Number(offer.booking?.total_price ?? 0).toFixed(2)}</Text>
+        <View style={styles.footerActions}>
+          {updatingId === offer.booking_id ? (
+            <ActivityIndicator color="#2563eb" />
+          ) : (
+            <>
+              <TouchableOpacity
+                style={[styles.jobActionButton, styles.jobActionButtonDestructive]}
+                onPress={() => handleDeclineOffer(offer)}
+              >
+                <Text style={[styles.jobActionText, styles.jobActionTextDestructive]}>
+                  Decline
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.jobActionButton}
+                onPress={() => handleClaimOffer(offer)}
+              >
+                <Text style={styles.jobActionText}>Accept</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+
   if (loading) {
     return (
       <View style={[styles.container, styles.centered]}>
@@ -109,9 +754,24 @@ export default function BookingsScreen() {
 
   return (
     <View style={styles.container}>
-      <View style={styles.header}>
-        <Text style={styles.title}>My Bookings</Text>
-        <Text style={styles.subtitle}>Track your service requests</Text>
+      <View style={[styles.header, styles.headerRow]}>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{isMechanic ? 'Job Queue' : 'My Bookings'}</Text>
+          <Text style={styles.subtitle}>
+            {isMechanic ? 'Manage your assigned jobs' : 'Track your service requests'}
+          </Text>
+        </View>
+        {isMechanic && mechanic && (
+          <View style={styles.onlineToggle}>
+            <Switch
+              value={mechanic.is_available}
+              onValueChange={handleToggleOnline}
+              disabled={togglingOnline}
+              trackColor={{ true: '#10b981' }}
+            />
+            <Text style={styles.onlineLabel}>{mechanic.is_available ? 'Online' : 'Offline'}</Text>
+          </View>
+        )}
       </View>
 
       <ScrollView
@@ -121,72 +781,51 @@ export default function BookingsScreen() {
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#2563eb" />
         }
       >
-        {bookings.length === 0 ? (
+        {sharingError && (
+          <View style={styles.sharingError}>
+            <Navigation size={16} color="#b45309" />
+            <Text style={styles.sharingErrorText}>
+              Customers can't see where you are: {sharingError}
+            </Text>
+          </View>
+        )}
+
+        {offers.length > 0 && (
+          <View style={[styles.bookingsList, styles.offersList]}>
+            <Text style={styles.jobSectionTitle}>Emergency Requests ({offers.length})</Text>
+            {offers.map(renderOffer)}
+          </View>
+        )}
+
+        {bookings.length === 0 && offers.length === 0 ? (
           <View style={styles.emptyState}>
             <Calendar size={64} color="#d1d5db" />
-            <Text style={styles.emptyTitle}>No bookings yet</Text>
-            <Text style={styles.emptyText}>Book a service to get started</Text>
+            <Text style={styles.emptyTitle}>{isMechanic ? 'No jobs yet' : 'No bookings yet'}</Text>
+            <Text style={styles.emptyText}>
+              {isMechanic
+                ? 'New job requests from customers will appear here'
+                : 'Book a service to get started'}
+            </Text>
           </View>
         ) : (
           <View style={styles.bookingsList}>
-            {bookings.map((booking) => (
-              <View key={booking.id} style={styles.bookingCard}>
-                <View style={styles.bookingHeader}>
-                  <Text style={styles.serviceName}>{booking.service.name}</Text>
-                  <View
-                    style={[
-                      styles.statusBadge,
-                      { backgroundColor: getStatusBgColor(booking.status) },
-                    ]}
-                  >
-                    {getStatusIcon(booking.status)}
-                    <Text
-                      style={[
-                        styles.statusText,
-                        { color: getStatusColor(booking.status) },
-                      ]}
-                    >
-                      {booking.status}
-                    </Text>
-                  </View>
-                </View>
+            {isMechanic
+              ? JOB_SECTIONS.map((section) => {
+                  const sectionBookings = bookings.filter(
+                    (booking) => booking.status === section.status
+                  );
+                  if (sectionBookings.length === 0) return null;
 
-                <View style={styles.bookingDetails}>
-                  <View style={styles.detailRow}>
-                    <Text style={styles.detailLabel}>Vehicle:</Text>
-                    <Text style={styles.detailValue}>
-                      {booking.vehicle_year} {booking.vehicle_make} {booking.vehicle_model}
-                    </Text>
-                  </View>
-
-                  {booking.mechanic && (
-                    <View style={styles.detailRow}>
-                      <Text style={styles.detailLabel}>Mechanic:</Text>
-                      <Text style={styles.detailValue}>{booking.mechanic.business_name}</Text>
+                  return (
+                    <View key={section.status} style={styles.jobSection}>
+                      <Text style={styles.jobSectionTitle}>
+                        {section.title} ({sectionBookings.length})
+                      </Text>
+                      {sectionBookings.map(renderBooking)}
                     </View>
-                  )}
-
-                  <View style={styles.detailRow}>
-                    <MapPin size={16} color="#6b7280" />
-                    <Text style={styles.detailValue}>{booking.location_address}</Text>
-                  </View>
-
-                  <View style={styles.detailRow}>
-                    <Clock size={16} color="#6b7280" />
-                    <Text style={styles.detailValue}>{formatDate(booking.created_at)}</Text>
-                  </View>
-                </View>
-
-                <View style={styles.bookingFooter}>
-                  <Text style={styles.price}>${booking.total_price.toFixed(2)}</Text>
-                  {booking.status === 'completed' && (
-                    <TouchableOpacity style={styles.reviewButton}>
-                      <Text style={styles.reviewButtonText}>Leave Review</Text>
-                    </TouchableOpacity>
-                  )}
-                </View>
-              </View>
-            ))}
+                  );
+                })
+              : bookings.map(renderBooking)}
           </View>
         )}
 
@@ -223,6 +862,23 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#6b7280',
   },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  onlineToggle: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  onlineLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
   content: {
     flex: 1,
   },
@@ -268,6 +924,10 @@ const styles = StyleSheet.create({
     color: '#1a1a1a',
     flex: 1,
   },
+  badges: {
+    alignItems: 'flex-end',
+    gap: 6,
+  },
   statusBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -309,6 +969,33 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  footerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chatButton: {
+    backgroundColor: '#eff6ff',
+    padding: 8,
+    borderRadius: 8,
+  },
+  unreadBadge: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: '#ef4444',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  unreadBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#fff',
+  },
   price: {
     fontSize: 24,
     fontWeight: '700',
@@ -325,4 +1012,129 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#2563eb',
   },
+  reviewed: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  reviewedText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#f59e0b',
+  },
+  jobSection: {
+    marginBottom: 8,
+  },
+  jobSectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  jobActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 16,
+  },
+  jobActionButton: {
+    backgroundColor: '#2563eb',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  jobActionButtonDestructive: {
+    backgroundColor: '#fee2e2',
+  },
+  jobActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  jobActionTextDestructive: {
+    color: '#ef4444',
+  },
+  jobActionButtonSecondary: {
+    backgroundColor: '#eff6ff',
+  },
+  jobActionTextSecondary: {
+    color: '#2563eb',
+  },
+  historyLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  trackingInfo: {
+    backgroundColor: '#eff6ff',
+    borderRadius: 8,
+    padding: 12,
+    gap: 2,
+  },
+  trackingText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1d4ed8',
+  },
+  trackingUpdated: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  sharingError: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fffbeb',
+    borderRadius: 8,
+    padding: 12,
+    marginHorizontal: 24,
+    marginTop: 24,
+  },
+  sharingErrorText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#b45309',
+  },
+  offersList: {
+    paddingBottom: 0,
+  },
+  offerCard: {
+    borderWidth: 2,
+    borderColor: '#fecaca',
+  },
+  offerDistance: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+  dispatchText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc2626',
+    flex: 1,
+  },
+  enRouteText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563eb',
+    flex: 1,
+  },
+  cancellationInfo: {
+    gap: 4,
+  },
+  cancellationText: {
+    fontSize: 14,
+    color: '#ef4444',
+  },
+  cancelButton: {
+    backgroundColor: '#fee2e2',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
 });
@@ -1,41 +1,98 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+} from 'react-native';
 import { useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
-import { Wrench, Clock, DollarSign } from 'lucide-react-native';
-
-interface Service {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  base_price: number;
-  estimated_duration: number;
-}
+import { useNotifications } from '@/contexts/NotificationsContext';
+import {
+  DEFAULT_SERVICE_FILTERS,
+  DURATION_RANGES,
+  PRICE_RANGES,
+  SERVICE_CATEGORIES,
+  SERVICE_SORT_LABELS,
+  Service,
+  ServiceFilters,
+  ServiceSort,
+  ValueRange,
+  fetchEmergencyServices,
+  hasActiveFilters,
+  searchServices,
+} from '@/lib/services';
+import {
+  Wrench,
+  Clock,
+  DollarSign,
+  Bell,
+  Search,
+  SlidersHorizontal,
+  X,
+  Zap,
+} from 'lucide-react-native';
+
+const SEARCH_DEBOUNCE_MS = 300;
 
 export default function HomeScreen() {
   const { profile } = useAuth();
+  const { unreadCount } = useNotifications();
   const [services, setServices] = useState<Service[]>([]);
+  const [emergencyServices, setEmergencyServices] = useState<Service[]>([]);
+  const [searchText, setSearchText] = useState('');
+  const [filters, setFilters] = useState<ServiceFilters>(DEFAULT_SERVICE_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const latestRequest = useRef(0);
   const router = useRouter();
 
   useEffect(() => {
-    loadServices();
+    fetchEmergencyServices().then(setEmergencyServices);
   }, []);
 
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters((current) =>
+        current.search === searchText ? current : { ...current, search: searchText }
+      );
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  useEffect(() => {
+    loadServices();
+  }, [filters]);
+
   const loadServices = async () => {
-    const { data, error } = await supabase
-      .from('services')
-      .select('*')
-      .order('category', { ascending: true });
-
-    if (data) {
-      setServices(data);
-    }
+    const request = ++latestRequest.current;
+    setLoading(true);
+
+    const { services: results, error } = await searchServices(filters);
+
+    // A slower, older search must not overwrite a newer one.
+    if (request !== latestRequest.current) return;
+
+    setServices(results);
+    setError(error ?? '');
     setLoading(false);
   };
 
+  const updateFilters = (changes: Partial<ServiceFilters>) => {
+    setFilters((current) => ({ ...current, ...changes }));
+  };
+
+  const clearFilters = () => {
+    setSearchText('');
+    setFilters((current) => ({ ...DEFAULT_SERVICE_FILTERS, sort: current.sort }));
+  };
+
+  const activeRangeCount = (filters.price ? 1 : 0) + (filters.duration ? 1 : 0);
+
   const getCategoryColor = (category: string) => {
     const colors: { [key: string]: string } = {
       maintenance: '#10b981',
@@ -56,23 +113,204 @@ export default function HomeScreen() {
     return colors[category] || '#f3f4f6';
   };
 
+  const renderRangeFilter = (
+    label: string,
+    ranges: ValueRange[],
+    selected: ValueRange | null,
+    onSelect: (range: ValueRange | null) => void
+  ) => (
+    <>
+      <Text style={styles.filterLabel}>{label}</Text>
+      <View style={styles.chipWrap}>
+        {ranges.map((range) => {
+          const isSelected = selected?.label === range.label;
+          return (
+            <TouchableOpacity
+              key={range.label}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => onSelect(isSelected ? null : range)}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                {range.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </>
+  );
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
-        <View>
+        <View style={styles.headerText}>
           <Text style={styles.greeting}>Hello, {profile?.full_name}!</Text>
           <Text style={styles.subtitle}>What service do you need today?</Text>
         </View>
+        <TouchableOpacity style={styles.bellButton} onPress={() => router.push('/notifications')}>
+          <Bell size={24} color="#1a1a1a" />
+          {unreadCount > 0 && (
+            <View style={styles.bellBadge}>
+              <Text style={styles.bellBadgeText}>{unreadCount > 9 ? '9+' : unreadCount}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
       </View>
 
-      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {emergencyServices.length > 0 && (
+          <View style={styles.emergencySection}>
+            <View style={styles.emergencyHeader}>
+              <Zap size={18} color="#ef4444" fill="#ef4444" />
+              <Text style={styles.emergencyTitle}>Emergency</Text>
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View style={styles.emergencyRow}>
+                {emergencyServices.map((service) => (
+                  <TouchableOpacity
+                    key={service.id}
+                    style={styles.emergencyCard}
+                    onPress={() => router.push(`/booking/create?serviceId=${service.id}`)}
+                  >
+                    <Text style={styles.emergencyName}>{service.name}</Text>
+                    <Text style={styles.emergencyMeta}>
+                      ${service.base_price} · {service.estimated_duration} min
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </ScrollView>
+          </View>
+        )}
+
+        <View style={styles.searchSection}>
+          <View style={styles.searchRow}>
+            <View style={styles.searchBox}>
+              <Search size={20} color="#9ca3af" />
+              <TextInput
+                style={styles.searchInput}
+                placeholder="Search services..."
+                value={searchText}
+                onChangeText={setSearchText}
+                returnKeyType="search"
+                placeholderTextColor="#9ca3af"
+              />
+              {searchText ? (
+                <TouchableOpacity onPress={() => setSearchText('')}>
+                  <X size={18} color="#9ca3af" />
+                </TouchableOpacity>
+              ) : null}
+            </View>
+            <TouchableOpacity
+              style={[styles.filterButton, showFilters && styles.filterButtonActive]}
+              onPress={() => setShowFilters((current) => !current)}
+            >
+              <SlidersHorizontal size={20} color={showFilters ? '#fff' : '#1a1a1a'} />
+              {activeRangeCount > 0 && (
+                <View style={styles.filterCount}>
+                  <Text style={styles.filterCountText}>{activeRangeCount}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.chipRow}>
+              <TouchableOpacity
+                style={[styles.chip, filters.category === null && styles.chipSelected]}
+                onPress={() => updateFilters({ category: null })}
+              >
+                <Text
+                  style={[styles.chipText, filters.category === null && styles.chipTextSelected]}
+                >
+                  All
+                </Text>
+              </TouchableOpacity>
+              {SERVICE_CATEGORIES.map((category) => {
+                const selected = filters.category === category;
+                return (
+                  <TouchableOpacity
+                    key={category}
+                    style={[
+                      styles.chip,
+                      selected && {
+                        backgroundColor: getCategoryBgColor(category),
+                        borderColor: getCategoryColor(category),
+                      },
+                    ]}
+                    onPress={() => updateFilters({ category: selected ? null : category })}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        styles.chipTextCapitalized,
+                        selected && { color: getCategoryColor(category) },
+                      ]}
+                    >
+                      {category}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </ScrollView>
+
+          {showFilters && (
+            <View style={styles.filterPanel}>
+              {renderRangeFilter('Price', PRICE_RANGES, filters.price, (price) =>
+                updateFilters({ price })
+              )}
+              {renderRangeFilter('Duration', DURATION_RANGES, filters.duration, (duration) =>
+                updateFilters({ duration })
+              )}
+              <Text style={styles.filterLabel}>Sort by</Text>
+              <View style={styles.chipWrap}>
+                {(Object.keys(SERVICE_SORT_LABELS) as ServiceSort[]).map((sort) => (
+                  <TouchableOpacity
+                    key={sort}
+                    style={[styles.chip, filters.sort === sort && styles.chipSelected]}
+                    onPress={() => updateFilters({ sort })}
+                  >
+                    <Text
+                      style={[styles.chipText, filters.sort === sort && styles.chipTextSelected]}
+                    >
+                      {SERVICE_SORT_LABELS[sort]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+        </View>
+
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Available Services</Text>
+          <View style={styles.resultsHeader}>
+            <Text style={[styles.sectionTitle, styles.resultsTitle]}>
+              {hasActiveFilters(filters) ? 'Results' : 'Available Services'}
+            </Text>
+            {hasActiveFilters(filters) && (
+              <TouchableOpacity onPress={clearFilters}>
+                <Text style={styles.clearText}>Clear filters</Text>
+              </TouchableOpacity>
+            )}
+          </View>
 
-          {loading ? (
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+          {loading && services.length === 0 ? (
             <ActivityIndicator size="large" color="#2563eb" style={{ marginTop: 32 }} />
+          ) : services.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Search size={40} color="#d1d5db" />
+              <Text style={styles.emptyText}>No services match your search</Text>
+              <Text style={styles.emptySubtext}>Try another term or clear the filters</Text>
+            </View>
           ) : (
-            <View style={styles.servicesList}>
+            <View style={[styles.servicesList, loading && styles.servicesListLoading]}>
               {services.map((service) => (
                 <TouchableOpacity
                   key={service.id}
@@ -134,9 +372,40 @@ const styles = StyleSheet.create({
     paddingTop: 60,
     paddingBottom: 24,
     paddingHorizontal: 24,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
     borderBottomWidth: 1,
     borderBottomColor: '#e5e7eb',
   },
+  headerText: {
+    flex: 1,
+  },
+  bellButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#f3f4f6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  bellBadge: {
+    position: 'absolute',
+    top: -2,
+    right: -2,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: '#ef4444',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  bellBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#fff',
+  },
   greeting: {
     fontSize: 28,
     fontWeight: '700',
@@ -153,6 +422,180 @@ const styles = StyleSheet.create({
   section: {
     padding: 24,
   },
+  emergencySection: {
+    paddingTop: 24,
+    paddingLeft: 24,
+  },
+  emergencyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  emergencyTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ef4444',
+  },
+  emergencyRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingRight: 24,
+  },
+  emergencyCard: {
+    backgroundColor: '#fee2e2',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    minWidth: 150,
+  },
+  emergencyName: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#b91c1c',
+    marginBottom: 2,
+  },
+  emergencyMeta: {
+    fontSize: 13,
+    color: '#dc2626',
+  },
+  searchSection: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    gap: 12,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1a1a1a',
+  },
+  filterButton: {
+    width: 48,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  filterButtonActive: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  filterCount: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: '#ef4444',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  filterCountText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  chipSelected: {
+    backgroundColor: '#eff6ff',
+    borderColor: '#2563eb',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  chipTextCapitalized: {
+    textTransform: 'capitalize',
+  },
+  chipTextSelected: {
+    color: '#2563eb',
+  },
+  filterPanel: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    gap: 8,
+  },
+  filterLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginTop: 4,
+  },
+  resultsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  resultsTitle: {
+    marginBottom: 0,
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    marginBottom: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
   sectionTitle: {
     fontSize: 20,
     fontWeight: '700',
@@ -162,6 +605,9 @@ const styles = StyleSheet.create({
   servicesList: {
     gap: 16,
   },
+  servicesListLoading: {
+    opacity: 0.5,
+  },
   serviceCard: {
     backgroundColor: '#fff',
     borderRadius: 16,
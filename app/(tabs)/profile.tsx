@@ -1,12 +1,57 @@
-import React from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, Switch } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
-import { User, Mail, Phone, LogOut, Wrench } from 'lucide-react-native';
+import { useNotifications } from '@/contexts/NotificationsContext';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_EVENT_LABELS,
+  NotificationPreferences,
+  fetchNotificationPreferences,
+  getNotificationEvents,
+  updateNotificationPreferences,
+} from '@/lib/notifications';
+import {
+  User,
+  Mail,
+  Phone,
+  LogOut,
+  Wrench,
+  Car,
+  ChevronRight,
+  Bell,
+  ShieldCheck,
+  ClipboardList,
+  CalendarClock,
+} from 'lucide-react-native';
 
 export default function ProfileScreen() {
   const { profile, signOut } = useAuth();
+  const { deliveryError } = useNotifications();
   const router = useRouter();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(
+    DEFAULT_NOTIFICATION_PREFERENCES
+  );
+
+  useEffect(() => {
+    if (profile) {
+      fetchNotificationPreferences(profile.id).then(setPreferences);
+    }
+  }, [profile?.id]);
+
+  const handleTogglePreference = async (key: keyof NotificationPreferences, value: boolean) => {
+    if (!profile) return;
+
+    const previous = preferences;
+    const next = { ...preferences, [key]: value };
+    setPreferences(next);
+
+    const { error } = await updateNotificationPreferences(profile.id, next);
+    if (error) {
+      setPreferences(previous);
+      Alert.alert('Error', 'Failed to update notification settings');
+    }
+  };
 
   const handleSignOut = () => {
     Alert.alert(
@@ -43,9 +88,15 @@ export default function ProfileScreen() {
           <View style={styles.typeBadge}>
             {profile?.user_type === 'mechanic' ? (
               <Wrench size={16} color="#10b981" />
+            ) : profile?.user_type === 'admin' ? (
+              <ShieldCheck size={16} color="#2563eb" />
             ) : null}
             <Text style={styles.typeText}>
-              {profile?.user_type === 'mechanic' ? 'Mechanic' : 'Customer'}
+              {profile?.user_type === 'mechanic'
+                ? 'Mechanic'
+                : profile?.user_type === 'admin'
+                  ? 'Admin'
+                  : 'Customer'}
             </Text>
           </View>
         </View>
@@ -78,9 +129,105 @@ export default function ProfileScreen() {
           </View>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Notifications</Text>
+
+          <View style={styles.infoCard}>
+            <View style={styles.preferenceRow}>
+              <View style={styles.infoContent}>
+                <Text style={styles.preferenceLabel}>Device alerts</Text>
+                <Text style={styles.infoLabel}>Show notifications on your phone</Text>
+                {deliveryError && preferences.push_enabled ? (
+                  <Text style={styles.deliveryError}>{deliveryError}</Text>
+                ) : null}
+              </View>
+              <Switch
+                value={preferences.push_enabled}
+                onValueChange={(value) => handleTogglePreference('push_enabled', value)}
+                trackColor={{ true: '#2563eb' }}
+              />
+            </View>
+
+            {getNotificationEvents(profile?.user_type ?? 'customer').map((event) => (
+              <View key={event} style={styles.preferenceRow}>
+                <View style={styles.infoContent}>
+                  <Text style={styles.preferenceLabel}>{NOTIFICATION_EVENT_LABELS[event].label}</Text>
+                  <Text style={styles.infoLabel}>{NOTIFICATION_EVENT_LABELS[event].description}</Text>
+                </View>
+                <Switch
+                  value={preferences[event]}
+                  onValueChange={(value) => handleTogglePreference(event, value)}
+                  trackColor={{ true: '#2563eb' }}
+                />
+              </View>
+            ))}
+          </View>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Actions</Text>
 
+          <TouchableOpacity
+            style={[styles.actionButton, styles.actionButtonSpacing]}
+            onPress={() => router.push('/notifications')}
+          >
+            <Bell size={20} color="#2563eb" />
+            <Text style={[styles.actionButtonText, styles.actionButtonTextPrimary]}>
+              Notification Center
+            </Text>
+            <ChevronRight size={20} color="#9ca3af" />
+          </TouchableOpacity>
+
+          {profile?.user_type === 'customer' && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonSpacing]}
+              onPress={() => router.push('/garage')}
+            >
+              <Car size={20} color="#2563eb" />
+              <Text style={[styles.actionButtonText, styles.actionButtonTextPrimary]}>My Garage</Text>
+              <ChevronRight size={20} color="#9ca3af" />
+            </TouchableOpacity>
+          )}
+
+          {profile?.user_type === 'mechanic' && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonSpacing]}
+              onPress={() => router.push('/mechanic/services')}
+            >
+              <Wrench size={20} color="#2563eb" />
+              <Text style={[styles.actionButtonText, styles.actionButtonTextPrimary]}>
+                My Services
+              </Text>
+              <ChevronRight size={20} color="#9ca3af" />
+            </TouchableOpacity>
+          )}
+
+          {profile?.user_type === 'mechanic' && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonSpacing]}
+              onPress={() => router.push('/mechanic/schedule')}
+            >
+              <CalendarClock size={20} color="#2563eb" />
+              <Text style={[styles.actionButtonText, styles.actionButtonTextPrimary]}>
+                Schedule & Availability
+              </Text>
+              <ChevronRight size={20} color="#9ca3af" />
+            </TouchableOpacity>
+          )}
+
+          {profile?.user_type === 'admin' && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonSpacing]}
+              onPress={() => router.push('/admin/services')}
+            >
+              <ClipboardList size={20} color="#2563eb" />
+              <Text style={[styles.actionButtonText, styles.actionButtonTextPrimary]}>
+                Manage Services
+              </Text>
+              <ChevronRight size={20} color="#9ca3af" />
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity style={styles.actionButton} onPress={handleSignOut}>
             <LogOut size={20} color="#ef4444" />
             <Text style={styles.actionButtonText}>Sign Out</Text>
@@ -202,11 +349,26 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     marginBottom: 4,
   },
+  deliveryError: {
+    fontSize: 13,
+    color: '#ef4444',
+  },
   infoValue: {
     fontSize: 16,
     fontWeight: '600',
     color: '#1a1a1a',
   },
+  preferenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  preferenceLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 2,
+  },
   actionButton: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -222,6 +384,13 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#ef4444',
   },
+  actionButtonSpacing: {
+    marginBottom: 12,
+  },
+  actionButtonTextPrimary: {
+    flex: 1,
+    color: '#1a1a1a',
+  },
   footer: {
     alignItems: 'center',
     paddingVertical: 32,
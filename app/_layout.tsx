@@ -3,9 +3,11 @@ import { Stack, useRouter, useSegments } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import { NotificationsProvider } from '@/contexts/NotificationsContext';
+import { UnreadMessagesProvider } from '@/contexts/UnreadMessagesContext';
 
 function RootLayoutNav() {
-  const { session, loading } = useAuth();
+  const { session, profile, mechanic, loading } = useAuth();
   const segments = useSegments();
   const router = useRouter();
 
@@ -13,18 +15,33 @@ function RootLayoutNav() {
     if (loading) return;
 
     const inAuthGroup = segments[0] === 'auth';
+    const inOnboarding = segments[0] === 'onboarding';
+    const inAdmin = segments[0] === 'admin';
+    const inMechanicTools = segments[0] === 'mechanic';
+    const wrongRole =
+      (inAdmin && profile?.user_type !== 'admin') ||
+      (inMechanicTools && profile?.user_type !== 'mechanic');
+    const needsOnboarding = profile?.user_type === 'mechanic' && !mechanic;
 
     if (!session && !inAuthGroup) {
       router.replace('/auth/sign-in');
-    } else if (session && inAuthGroup) {
+    } else if (session && needsOnboarding && !inOnboarding) {
+      router.replace('/onboarding/mechanic');
+    } else if (session && profile && wrongRole) {
+      router.replace('/(tabs)');
+    } else if (session && (inAuthGroup || (inOnboarding && !needsOnboarding))) {
       router.replace('/(tabs)');
     }
-  }, [session, loading, segments]);
+  }, [session, profile, mechanic, loading, segments]);
 
   return (
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="auth" />
+      <Stack.Screen name="onboarding" />
       <Stack.Screen name="(tabs)" />
+      <Stack.Screen name="notifications" />
+      <Stack.Screen name="admin" />
+      <Stack.Screen name="mechanic" />
       <Stack.Screen name="+not-found" />
     </Stack>
   );
@@ -35,8 +52,12 @@ export default function RootLayout() {
 
   return (
     <AuthProvider>
-      <RootLayoutNav />
-      <StatusBar style="auto" />
+      <NotificationsProvider>
+        <UnreadMessagesProvider>
+          <RootLayoutNav />
+          <StatusBar style="auto" />
+        </UnreadMessagesProvider>
+      </NotificationsProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,10 @@
+import { Stack } from 'expo-router';
+
+export default function AdminLayout() {
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="services" />
+      <Stack.Screen name="service-edit" />
+    </Stack>
+  );
+}
@@ -0,0 +1,413 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { supabase } from '@/lib/supabase';
+import { SERVICE_CATEGORIES, validateService } from '@/lib/services';
+import { ArrowLeft } from 'lucide-react-native';
+
+export default function EditServiceScreen() {
+  const { serviceId } = useLocalSearchParams<{ serviceId?: string }>();
+  const router = useRouter();
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState('maintenance');
+  const [basePrice, setBasePrice] = useState('');
+  const [partsPrice, setPartsPrice] = useState('');
+  const [duration, setDuration] = useState('');
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [minDuration, setMinDuration] = useState('');
+  const [maxDuration, setMaxDuration] = useState('');
+
+  const [loading, setLoading] = useState(!!serviceId);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (serviceId) {
+      loadService();
+    }
+  }, [serviceId]);
+
+  const loadService = async () => {
+    const { data } = await supabase.from('services').select('*').eq('id', serviceId).maybeSingle();
+
+    if (data) {
+      setName(data.name);
+      setDescription(data.description);
+      setCategory(data.category);
+      setBasePrice(String(data.base_price));
+      setPartsPrice(data.parts_price > 0 ? String(data.parts_price) : '');
+      setDuration(String(data.estimated_duration));
+      setMinPrice(data.min_price !== null ? String(data.min_price) : '');
+      setMaxPrice(data.max_price !== null ? String(data.max_price) : '');
+      setMinDuration(data.min_duration !== null ? String(data.min_duration) : '');
+      setMaxDuration(data.max_duration !== null ? String(data.max_duration) : '');
+    }
+    setLoading(false);
+  };
+
+  const handleSave = async () => {
+    const validationError = validateService({
+      name,
+      description,
+      category,
+      basePrice,
+      partsPrice,
+      duration,
+      minPrice,
+      maxPrice,
+      minDuration,
+      maxDuration,
+    });
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    const values = {
+      name: name.trim(),
+      description: description.trim(),
+      category,
+      base_price: Number(basePrice),
+      parts_price: Number(partsPrice || 0),
+      estimated_duration: Number(duration),
+      min_price: minPrice ? Number(minPrice) : null,
+      max_price: maxPrice ? Number(maxPrice) : null,
+      min_duration: minDuration ? Number(minDuration) : null,
+      max_duration: maxDuration ? Number(maxDuration) : null,
+    };
+
+    // Bookings snapshot their price when created, so repricing only affects new quotes.
+    const { error } = serviceId
+      ? await supabase
+          .from('services')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', serviceId)
+      : await supabase.from('services').insert(values);
+
+    setSaving(false);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      router.back();
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{serviceId ? 'Edit Service' : 'Add Service'}</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {error ? <Text style={styles.error}>{error}</Text> : null}
+
+        <View style={styles.section}>
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., Oil Change"
+            value={name}
+            onChangeText={setName}
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.label}>Description</Text>
+          <TextInput
+            style={[styles.input, styles.textArea]}
+            placeholder="What the service includes"
+            value={description}
+            onChangeText={setDescription}
+            multiline
+            numberOfLines={3}
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.label}>Category</Text>
+          <View style={styles.chips}>
+            {SERVICE_CATEGORIES.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, category === option && styles.chipSelected]}
+                onPress={() => setCategory(option)}
+              >
+                <Text style={[styles.chipText, category === option && styles.chipTextSelected]}>
+                  {option.charAt(0).toUpperCase() + option.slice(1)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Labor price ($)</Text>
+          <TextInput
+            style={[styles.input, styles.inputWithHint]}
+            placeholder="e.g., 49.99"
+            value={basePrice}
+            onChangeText={setBasePrice}
+            keyboardType="decimal-pad"
+            placeholderTextColor="#9ca3af"
+          />
+          <Text style={[styles.hint, styles.groupHint]}>
+            What customers pay for the labor at the standard duration. A mechanic who sets a
+            different duration is charged at the same hourly rate.
+          </Text>
+
+          <Text style={styles.label}>Parts price ($, optional)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., 25"
+            value={partsPrice}
+            onChangeText={setPartsPrice}
+            keyboardType="decimal-pad"
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.label}>Duration in minutes</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., 45"
+            value={duration}
+            onChangeText={setDuration}
+            keyboardType="numeric"
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.groupTitle}>Mechanic pricing</Text>
+          <Text style={[styles.hint, styles.groupHint]}>
+            How far mechanics may set their own price and duration. Leave blank to keep them at
+            the standard values.
+          </Text>
+
+          <View style={styles.row}>
+            <View style={styles.rowField}>
+              <Text style={styles.label}>Lowest price ($)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={basePrice || '0'}
+                value={minPrice}
+                onChangeText={setMinPrice}
+                keyboardType="decimal-pad"
+                placeholderTextColor="#9ca3af"
+              />
+            </View>
+            <View style={styles.rowField}>
+              <Text style={styles.label}>Highest price ($)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={basePrice || '0'}
+                value={maxPrice}
+                onChangeText={setMaxPrice}
+                keyboardType="decimal-pad"
+                placeholderTextColor="#9ca3af"
+              />
+            </View>
+          </View>
+
+          <View style={styles.row}>
+            <View style={styles.rowField}>
+              <Text style={styles.label}>Shortest (min)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={duration || '0'}
+                value={minDuration}
+                onChangeText={setMinDuration}
+                keyboardType="numeric"
+                placeholderTextColor="#9ca3af"
+              />
+            </View>
+            <View style={styles.rowField}>
+              <Text style={styles.label}>Longest (min)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={duration || '0'}
+                value={maxDuration}
+                onChangeText={setMaxDuration}
+                keyboardType="numeric"
+                placeholderTextColor="#9ca3af"
+              />
+            </View>
+          </View>
+
+          {serviceId ? (
+            <Text style={styles.hint}>
+              Price changes apply to new bookings. Existing bookings keep the price they were
+              booked at.
+            </Text>
+          ) : null}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.button, saving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Save Service</Text>
+          )}
+        </TouchableOpacity>
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    padding: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  inputWithHint: {
+    marginBottom: 8,
+  },
+  textArea: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6b7280',
+    lineHeight: 18,
+  },
+  groupTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  groupHint: {
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rowField: {
+    flex: 1,
+  },
+  button: {
+    backgroundColor: '#2563eb',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginHorizontal: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  error: {
+    backgroundColor: '#fee',
+    color: '#c00',
+    padding: 12,
+    marginHorizontal: 24,
+    marginTop: 24,
+    borderRadius: 8,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,249 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { Service, fetchAllServices, setServiceArchived } from '@/lib/services';
+import { ArrowLeft, Plus, Pencil, Archive, ArchiveRestore, Wrench } from 'lucide-react-native';
+
+export default function AdminServicesScreen() {
+  const router = useRouter();
+
+  const [services, setServices] = useState<Service[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadServices();
+    }, [])
+  );
+
+  const loadServices = async () => {
+    setServices(await fetchAllServices());
+    setLoading(false);
+  };
+
+  const updateArchived = async (service: Service, archived: boolean) => {
+    const { error } = await setServiceArchived(service.id, archived);
+    if (error) {
+      Alert.alert(archived ? 'Archive Failed' : 'Restore Failed', error);
+      return;
+    }
+    await loadServices();
+  };
+
+  const handleArchive = (service: Service) => {
+    if (!service.is_active) {
+      updateArchived(service, false);
+      return;
+    }
+
+    Alert.alert(
+      'Archive Service',
+      `Remove ${service.name} from the catalog? Existing bookings keep their service and price.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Archive', style: 'destructive', onPress: () => updateArchived(service, true) },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Service Catalog</Text>
+        <TouchableOpacity
+          onPress={() => router.push('/admin/service-edit')}
+          style={styles.backButton}
+        >
+          <Plus size={24} color="#2563eb" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {loading ? (
+          <ActivityIndicator size="large" color="#2563eb" style={{ marginTop: 32 }} />
+        ) : services.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Wrench size={64} color="#d1d5db" />
+            <Text style={styles.emptyTitle}>No services yet</Text>
+            <Text style={styles.emptyText}>Add the services customers can book</Text>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={() => router.push('/admin/service-edit')}
+            >
+              <Text style={styles.buttonText}>Add Service</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.serviceList}>
+            {services.map((service) => (
+              <View
+                key={service.id}
+                style={[styles.serviceCard, !service.is_active && styles.serviceCardArchived]}
+              >
+                <View style={styles.serviceInfo}>
+                  <View style={styles.serviceTitleRow}>
+                    <Text style={styles.serviceName}>{service.name}</Text>
+                    {!service.is_active && (
+                      <View style={styles.archivedBadge}>
+                        <Text style={styles.archivedBadgeText}>Archived</Text>
+                      </View>
+                    )}
+                  </View>
+                  <Text style={styles.serviceDetails}>
+                    {service.category.charAt(0).toUpperCase() + service.category.slice(1)} ·{' '}
+                    {service.estimated_duration} min
+                  </Text>
+                  <Text style={styles.serviceDetails}>
+                    From ${service.base_price}
+                    {service.parts_price > 0 ? ` · Parts $${service.parts_price}` : ''}
+                  </Text>
+                </View>
+                <View style={styles.serviceActions}>
+                  <TouchableOpacity
+                    onPress={() => router.push(`/admin/service-edit?serviceId=${service.id}`)}
+                  >
+                    <Pencil size={20} color="#6b7280" />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleArchive(service)}>
+                    {service.is_active ? (
+                      <Archive size={20} color="#ef4444" />
+                    ) : (
+                      <ArchiveRestore size={20} color="#10b981" />
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+    paddingHorizontal: 24,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  serviceList: {
+    padding: 24,
+    gap: 16,
+  },
+  serviceCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  serviceCardArchived: {
+    opacity: 0.6,
+  },
+  serviceInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  serviceTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  serviceName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    flexShrink: 1,
+  },
+  serviceDetails: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  archivedBadge: {
+    backgroundColor: '#f3f4f6',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  archivedBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  serviceActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  button: {
+    backgroundColor: '#2563eb',
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
@@ -32,7 +32,7 @@ export default function SignUpScreen() {
     if (error) {
       setError(error.message);
     } else {
-      router.replace('/(tabs)');
+      router.replace(userType === 'mechanic' ? '/onboarding/mechanic' : '/(tabs)');
     }
   };
 
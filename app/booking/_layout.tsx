@@ -4,6 +4,13 @@ export default function BookingLayout() {
   return (
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="create" />
+      <Stack.Screen name="review" />
+      <Stack.Screen name="cancel" />
+      <Stack.Screen name="invoice" />
+      <Stack.Screen name="chat" />
+      <Stack.Screen name="photos" />
+      <Stack.Screen name="inspection" />
+      <Stack.Screen name="dispatch" />
     </Stack>
   );
 }
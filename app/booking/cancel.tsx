@@ -0,0 +1,365 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { supabase } from '@/lib/supabase';
+import { transitionBooking } from '@/lib/bookingStatus';
+import {
+  CancellationPolicy,
+  calculateCancellationFee,
+  describeCancellationPolicy,
+  fetchCancellationPolicy,
+  isCancellable,
+} from '@/lib/cancellationPolicy';
+import { ArrowLeft, AlertTriangle } from 'lucide-react-native';
+
+interface CancelBooking {
+  id: string;
+  status: string;
+  mechanic_id: string | null;
+  scheduled_time: string;
+  total_price: number;
+  en_route_at: string | null;
+  service: {
+    name: string;
+  };
+}
+
+const CANCELLATION_REASONS = [
+  'Change of plans',
+  'Found another mechanic',
+  'Vehicle no longer needs service',
+  'Booked by mistake',
+  'Other',
+];
+
+export default function CancelBookingScreen() {
+  const { bookingId } = useLocalSearchParams();
+  const router = useRouter();
+
+  const [booking, setBooking] = useState<CancelBooking | null>(null);
+  const [policy, setPolicy] = useState<CancellationPolicy | null>(null);
+  const [reason, setReason] = useState('');
+  const [otherReason, setOtherReason] = useState('');
+
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, [bookingId]);
+
+  const loadData = async () => {
+    const [bookingResult, policyResult] = await Promise.all([
+      supabase
+        .from('bookings')
+        .select(
+          'id, status, mechanic_id, scheduled_time, total_price, en_route_at, service:services(name)'
+        )
+        .eq('id', bookingId)
+        .maybeSingle(),
+      fetchCancellationPolicy(),
+    ]);
+
+    if (bookingResult.data) {
+      setBooking(bookingResult.data as any);
+    }
+    setPolicy(policyResult);
+    setLoading(false);
+  };
+
+  const handleCancel = async () => {
+    if (!booking) return;
+
+    const finalReason = reason === 'Other' ? otherReason.trim() : reason;
+    if (!finalReason) {
+      setError('Please tell us why you are cancelling');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+
+    const { error } = await transitionBooking(booking.id, 'cancelled', finalReason);
+
+    setSubmitting(false);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      router.back();
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  const quote = booking && policy ? calculateCancellationFee(booking, policy) : null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Cancel Booking</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {!booking || !isCancellable(booking.status) ? (
+          <Text style={styles.notice}>This booking can no longer be cancelled.</Text>
+        ) : (
+          <>
+            <View style={styles.bookingInfo}>
+              <Text style={styles.serviceName}>{booking.service.name}</Text>
+              <Text style={styles.bookingTime}>
+                {new Date(booking.scheduled_time).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </Text>
+            </View>
+
+            {quote && policy && (
+              <View style={[styles.feeCard, quote.fee > 0 && styles.feeCardCharged]}>
+                <View style={styles.feeHeader}>
+                  {quote.fee > 0 && <AlertTriangle size={20} color="#b45309" />}
+                  <Text style={styles.feeTitle}>
+                    {quote.fee > 0
+                      ? `Cancellation fee: $${quote.fee.toFixed(2)}`
+                      : 'Free cancellation'}
+                  </Text>
+                </View>
+                {quote.reason === 'en_route' && (
+                  <Text style={styles.feeText}>
+                    Your mechanic is already on the way, so a {quote.percent}% fee applies.
+                  </Text>
+                )}
+                {quote.reason === 'late' && (
+                  <Text style={styles.feeText}>
+                    Your appointment is less than {policy.free_window_hours} hours away, so a{' '}
+                    {quote.percent}% fee applies.
+                  </Text>
+                )}
+                <Text style={styles.policyText}>{describeCancellationPolicy(policy)}</Text>
+              </View>
+            )}
+
+            {error ? <Text style={styles.error}>{error}</Text> : null}
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Reason for cancelling</Text>
+              {CANCELLATION_REASONS.map((item) => (
+                <TouchableOpacity
+                  key={item}
+                  style={[styles.reasonOption, reason === item && styles.reasonOptionSelected]}
+                  onPress={() => setReason(item)}
+                >
+                  <Text style={[styles.reasonText, reason === item && styles.reasonTextSelected]}>
+                    {item}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+
+              {reason === 'Other' && (
+                <TextInput
+                  style={[styles.input, styles.textArea]}
+                  placeholder="Tell us more..."
+                  value={otherReason}
+                  onChangeText={setOtherReason}
+                  multiline
+                  numberOfLines={3}
+                  placeholderTextColor="#9ca3af"
+                />
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.button, submitting && styles.buttonDisabled]}
+              onPress={handleCancel}
+              disabled={submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Cancel Booking</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  bookingInfo: {
+    backgroundColor: '#fff',
+    padding: 24,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    gap: 4,
+  },
+  serviceName: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  bookingTime: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  feeCard: {
+    backgroundColor: '#d1fae5',
+    margin: 24,
+    marginBottom: 0,
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  feeCardCharged: {
+    backgroundColor: '#fef3c7',
+  },
+  feeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  feeTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  feeText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  policyText: {
+    fontSize: 12,
+    color: '#6b7280',
+    lineHeight: 18,
+  },
+  section: {
+    padding: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginBottom: 16,
+  },
+  reasonOption: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+  },
+  reasonOptionSelected: {
+    borderColor: '#ef4444',
+    backgroundColor: '#fef2f2',
+  },
+  reasonText: {
+    fontSize: 16,
+    color: '#1a1a1a',
+  },
+  reasonTextSelected: {
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  textArea: {
+    height: 100,
+    textAlignVertical: 'top',
+  },
+  button: {
+    backgroundColor: '#ef4444',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginHorizontal: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  notice: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    padding: 24,
+  },
+  error: {
+    backgroundColor: '#fee',
+    color: '#c00',
+    padding: 12,
+    marginHorizontal: 24,
+    marginTop: 24,
+    borderRadius: 8,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,448 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUnreadMessages } from '@/contexts/UnreadMessagesContext';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+import { supabase } from '@/lib/supabase';
+import {
+  BookingMessage,
+  ChatImage,
+  MAX_MESSAGE_LENGTH,
+  fetchMessages,
+  getChatImageUrls,
+  isChatOpen,
+  pickChatImage,
+  sendMessage,
+} from '@/lib/messages';
+import { ArrowLeft, ImagePlus, Send, X, Lock } from 'lucide-react-native';
+
+interface ChatBooking {
+  id: string;
+  status: string;
+  service: {
+    name: string;
+  };
+  mechanic: {
+    business_name: string;
+  } | null;
+  customer: {
+    full_name: string;
+  } | null;
+}
+
+export default function BookingChatScreen() {
+  const { bookingId } = useLocalSearchParams<{ bookingId: string }>();
+  const { profile } = useAuth();
+  const { markBookingRead } = useUnreadMessages();
+  const router = useRouter();
+  const scrollRef = useRef<ScrollView>(null);
+
+  const [booking, setBooking] = useState<ChatBooking | null>(null);
+  const [messages, setMessages] = useState<BookingMessage[]>([]);
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+  const [body, setBody] = useState('');
+  const [image, setImage] = useState<ChatImage | null>(null);
+
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, [bookingId]);
+
+  const loadData = async () => {
+    const [bookingResult, messageList] = await Promise.all([
+      supabase
+        .from('bookings')
+        .select(
+          'id, status, service:services(name), mechanic:mechanics(business_name), customer:profiles(full_name)'
+        )
+        .eq('id', bookingId)
+        .maybeSingle(),
+      fetchMessages(bookingId),
+    ]);
+
+    if (bookingResult.data) {
+      setBooking(bookingResult.data as any);
+    }
+    setMessages(messageList);
+    setImageUrls(
+      await getChatImageUrls(
+        messageList.map((message) => message.image_path).filter((path): path is string => !!path)
+      )
+    );
+    setLoading(false);
+    markBookingRead(bookingId);
+  };
+
+  const addMessage = async (message: BookingMessage) => {
+    setMessages((current) =>
+      current.some((item) => item.id === message.id) ? current : [...current, message]
+    );
+
+    if (message.image_path) {
+      const urls = await getChatImageUrls([message.image_path]);
+      setImageUrls((current) => ({ ...current, ...urls }));
+    }
+  };
+
+  const handleMessageChange = (payload: RealtimePostgresChangesPayload<BookingMessage>) => {
+    if (payload.eventType !== 'INSERT') return;
+
+    addMessage(payload.new);
+    if (payload.new.recipient_id === profile?.id) {
+      markBookingRead(bookingId);
+    }
+  };
+
+  useRealtimeChanges<BookingMessage>(
+    'booking_messages',
+    bookingId ? `booking_id=eq.${bookingId}` : null,
+    handleMessageChange
+  );
+
+  useRealtimeChanges<{ id: string; status: string }>(
+    'bookings',
+    bookingId ? `id=eq.${bookingId}` : null,
+    (payload) => {
+      if (payload.eventType === 'UPDATE') {
+        const { status } = payload.new;
+        setBooking((current) => (current ? { ...current, status } : current));
+      }
+    }
+  );
+
+  const handlePickImage = async () => {
+    const { image, error } = await pickChatImage();
+    if (error) {
+      Alert.alert('Photo Unavailable', error);
+    } else if (image) {
+      setImage(image);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!body.trim() && !image) return;
+
+    setSending(true);
+    const { message, error } = await sendMessage(bookingId, body, image);
+    setSending(false);
+
+    if (error) {
+      Alert.alert('Message Not Sent', error);
+      return;
+    }
+
+    setBody('');
+    setImage(null);
+    if (message) {
+      addMessage(message);
+    }
+  };
+
+  const formatTime = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  const isMechanic = profile?.user_type === 'mechanic';
+  const otherParty = isMechanic ? booking?.customer?.full_name : booking?.mechanic?.business_name;
+  const awaitingMechanic = !!booking && !booking.mechanic;
+  const chatOpen = booking ? isChatOpen(booking.status) && !awaitingMechanic : false;
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.headerTitle}>{otherParty ?? 'Messages'}</Text>
+          {booking && <Text style={styles.headerSubtitle}>{booking.service.name}</Text>}
+        </View>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        ref={scrollRef}
+        style={styles.content}
+        contentContainerStyle={styles.messageList}
+        onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: true })}
+      >
+        {messages.length === 0 ? (
+          <Text style={styles.emptyText}>
+            {chatOpen
+              ? `Send ${otherParty ?? 'them'} a message about this booking.`
+              : awaitingMechanic
+                ? 'No mechanic has taken this job yet.'
+                : 'No messages were sent for this booking.'}
+          </Text>
+        ) : (
+          messages.map((message) => {
+            const mine = message.sender_id === profile?.id;
+            return (
+              <View
+                key={message.id}
+                style={[styles.messageBubble, mine ? styles.myMessage : styles.theirMessage]}
+              >
+                {message.image_path && imageUrls[message.image_path] ? (
+                  <Image
+                    source={{ uri: imageUrls[message.image_path] }}
+                    style={styles.messageImage}
+                    resizeMode="cover"
+                  />
+                ) : null}
+                {message.body ? (
+                  <Text style={[styles.messageText, mine && styles.myMessageText]}>
+                    {message.body}
+                  </Text>
+                ) : null}
+                <Text style={[styles.messageTime, mine && styles.myMessageTime]}>
+                  {formatTime(message.created_at)}
+                </Text>
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+
+      {chatOpen ? (
+        <View style={styles.composer}>
+          {image && (
+            <View style={styles.attachmentPreview}>
+              <Image source={{ uri: image.uri }} style={styles.previewImage} />
+              <TouchableOpacity style={styles.removeAttachment} onPress={() => setImage(null)}>
+                <X size={14} color="#fff" />
+              </TouchableOpacity>
+            </View>
+          )}
+          <View style={styles.composerRow}>
+            <TouchableOpacity style={styles.iconButton} onPress={handlePickImage}>
+              <ImagePlus size={22} color="#2563eb" />
+            </TouchableOpacity>
+            <TextInput
+              style={styles.input}
+              placeholder="Type a message..."
+              value={body}
+              onChangeText={setBody}
+              multiline
+              maxLength={MAX_MESSAGE_LENGTH}
+              placeholderTextColor="#9ca3af"
+            />
+            <TouchableOpacity
+              style={[
+                styles.sendButton,
+                (sending || (!body.trim() && !image)) && styles.sendButtonDisabled,
+              ]}
+              onPress={handleSend}
+              disabled={sending || (!body.trim() && !image)}
+            >
+              {sending ? <ActivityIndicator color="#fff" /> : <Send size={18} color="#fff" />}
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <View style={styles.closedBanner}>
+          <Lock size={16} color="#6b7280" />
+          <Text style={styles.closedText}>
+            {awaitingMechanic
+              ? 'You can message your mechanic once one has taken the job.'
+              : `This conversation is read-only because the booking is ${booking?.status ?? 'closed'}.`}
+          </Text>
+        </View>
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerInfo: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  content: {
+    flex: 1,
+  },
+  messageList: {
+    padding: 16,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  messageBubble: {
+    maxWidth: '80%',
+    borderRadius: 16,
+    padding: 12,
+    gap: 4,
+  },
+  myMessage: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#2563eb',
+    borderBottomRightRadius: 4,
+  },
+  theirMessage: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderBottomLeftRadius: 4,
+  },
+  messageImage: {
+    width: 200,
+    height: 200,
+    borderRadius: 12,
+  },
+  messageText: {
+    fontSize: 15,
+    color: '#1a1a1a',
+  },
+  myMessageText: {
+    color: '#fff',
+  },
+  messageTime: {
+    fontSize: 11,
+    color: '#9ca3af',
+    alignSelf: 'flex-end',
+  },
+  myMessageTime: {
+    color: '#bfdbfe',
+  },
+  composer: {
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    padding: 12,
+    paddingBottom: 24,
+    gap: 8,
+  },
+  composerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    fontSize: 15,
+    maxHeight: 120,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#2563eb',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+  attachmentPreview: {
+    alignSelf: 'flex-start',
+  },
+  previewImage: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+  },
+  removeAttachment: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: '#1a1a1a',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#f3f4f6',
+    padding: 16,
+    paddingBottom: 32,
+  },
+  closedText: {
+    fontSize: 14,
+    color: '#6b7280',
+    flexShrink: 1,
+  },
+});
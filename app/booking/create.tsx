@@ -7,18 +7,55 @@ import {
   TextInput,
   TouchableOpacity,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
-import { ArrowLeft, MapPin, Car } from 'lucide-react-native';
+import {
+  BusyPeriod,
+  WorkingWindow,
+  addMinutes,
+  generateTimeSlots,
+  getBookableDays,
+  isSameDay,
+  toBusyPeriods,
+} from '@/lib/scheduling';
+import { fetchWorkingWindows } from '@/lib/availability';
+import { isDispatchService } from '@/lib/dispatch';
+import { Vehicle, validateVehicle, vehicleLabel } from '@/lib/vehicles';
+import { Quote, describeLineItem, fetchQuote, formatCurrency } from '@/lib/pricing';
+import { DecodedVin, VIN_LENGTH, decodeVin, normalizeVin } from '@/lib/vin';
+import { LocalPhoto, MAX_ATTACHMENTS_PER_UPLOAD, uploadAttachments } from '@/lib/attachments';
+import PhotoAttachmentPicker from '@/components/PhotoAttachmentPicker';
+import {
+  Coordinates,
+  estimateTravelMinutes,
+  formatDistance,
+  formatTravelTime,
+  geocodeAddress,
+  getCurrentLocation,
+} from '@/lib/location';
+import {
+  ArrowLeft,
+  MapPin,
+  Car,
+  CalendarClock,
+  LocateFixed,
+  Navigation,
+  Check,
+  Receipt,
+  Siren,
+} from 'lucide-react-native';
 
 interface Service {
   id: string;
   name: string;
   description: string;
+  category: string;
   base_price: number;
   estimated_duration: number;
+  is_active: boolean;
 }
 
 interface Mechanic {
@@ -28,10 +65,21 @@ interface Mechanic {
   total_jobs: number;
   years_experience: number;
   is_available: boolean;
+  distance_km: number;
+  match_score: number;
+  /**
+   * This mechanic's labor, parts and travel from `quote_booking`, so it
+   * matches those lines of the quote; tax and surcharges depend on the time.
+   */
+  price: number;
+  estimated_duration: number;
 }
 
 export default function CreateBookingScreen() {
-  const { serviceId } = useLocalSearchParams();
+  const { serviceId, vehicleId: initialVehicleId } = useLocalSearchParams<{
+    serviceId: string;
+    vehicleId?: string;
+  }>();
   const { profile } = useAuth();
   const router = useRouter();
 
@@ -39,66 +87,369 @@ export default function CreateBookingScreen() {
   const [mechanics, setMechanics] = useState<Mechanic[]>([]);
   const [selectedMechanic, setSelectedMechanic] = useState<string | null>(null);
 
+  const [bookableDays] = useState(() => getBookableDays());
+  const [selectedDay, setSelectedDay] = useState<Date>(bookableDays[0]);
+  const [selectedSlot, setSelectedSlot] = useState<Date | null>(null);
+  const [busyPeriods, setBusyPeriods] = useState<BusyPeriod[]>([]);
+  const [workingWindows, setWorkingWindows] = useState<WorkingWindow[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null);
+  const [saveVehicle, setSaveVehicle] = useState(true);
   const [vehicleMake, setVehicleMake] = useState('');
   const [vehicleModel, setVehicleModel] = useState('');
   const [vehicleYear, setVehicleYear] = useState('');
+  const [vehicleMileage, setVehicleMileage] = useState('');
+  const [vin, setVin] = useState('');
+  const [decodedVin, setDecodedVin] = useState<DecodedVin | null>(null);
+  const [vinError, setVinError] = useState('');
   const [locationAddress, setLocationAddress] = useState('');
+  const [locationCoords, setLocationCoords] = useState<Coordinates | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [loadingMechanics, setLoadingMechanics] = useState(false);
   const [notes, setNotes] = useState('');
+  const [photos, setPhotos] = useState<LocalPhoto[]>([]);
+
+  const [promoCode, setPromoCode] = useState('');
+  const [appliedPromoCode, setAppliedPromoCode] = useState('');
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [quoteError, setQuoteError] = useState('');
+  const [loadingQuote, setLoadingQuote] = useState(false);
 
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState('');
 
+  // Emergency requests go out to nearby mechanics instead of one chosen here.
+  const dispatch = isDispatchService(service);
+
   useEffect(() => {
     loadData();
   }, [serviceId]);
 
+  useEffect(() => {
+    if (locationCoords) {
+      loadMechanics(locationCoords, selectedDay);
+    } else {
+      setSelectedMechanic(null);
+      setMechanics([]);
+    }
+  }, [locationCoords, selectedDay, dispatch]);
+
+  useEffect(() => {
+    setSelectedSlot(null);
+    if (selectedMechanic) {
+      loadAvailability(selectedMechanic, selectedDay);
+    }
+  }, [selectedMechanic, selectedDay]);
+
+  useEffect(() => {
+    setQuote(null);
+    setQuoteError('');
+    if (dispatch && locationCoords) {
+      loadQuote(null, new Date(), locationCoords);
+    } else if (selectedMechanic && selectedSlot && locationCoords) {
+      loadQuote(selectedMechanic, selectedSlot, locationCoords);
+    }
+  }, [dispatch, selectedMechanic, selectedSlot, locationCoords, appliedPromoCode]);
+
   const loadData = async () => {
-    const [serviceResult, mechanicsResult] = await Promise.all([
+    const [serviceResult, vehiclesResult] = await Promise.all([
       supabase.from('services').select('*').eq('id', serviceId).maybeSingle(),
-      supabase.from('mechanics').select('*').eq('is_available', true),
+      supabase
+        .from('vehicles')
+        .select('*')
+        .eq('owner_id', profile?.id)
+        .order('created_at', { ascending: true }),
     ]);
 
     if (serviceResult.data) {
       setService(serviceResult.data);
     }
 
-    if (mechanicsResult.data) {
-      setMechanics(mechanicsResult.data);
+    if (vehiclesResult.data && vehiclesResult.data.length > 0) {
+      setVehicles(vehiclesResult.data);
+      selectVehicle(
+        vehiclesResult.data.find((vehicle) => vehicle.id === initialVehicleId) ??
+          vehiclesResult.data[0]
+      );
     }
 
     setLoading(false);
   };
 
+  const selectVehicle = (vehicle: Vehicle | null) => {
+    setSelectedVehicle(vehicle);
+    setVehicleMake(vehicle?.make ?? '');
+    setVehicleModel(vehicle?.model ?? '');
+    setVehicleYear(vehicle ? String(vehicle.year) : '');
+    setVehicleMileage(vehicle?.mileage != null ? String(vehicle.mileage) : '');
+    setVin(vehicle?.vin ?? '');
+    setDecodedVin(null);
+    setVinError('');
+  };
+
+  const handleVinChange = (text: string) => {
+    const value = normalizeVin(text);
+    setVin(value);
+
+    if (value.length < VIN_LENGTH) {
+      setDecodedVin(null);
+      setVinError('');
+      return;
+    }
+
+    const { decoded, error } = decodeVin(value);
+    setDecodedVin(decoded);
+    setVinError(error ?? '');
+
+    if (decoded?.make) {
+      setVehicleMake(decoded.make);
+    }
+    if (decoded?.modelYear) {
+      setVehicleYear(String(decoded.modelYear));
+    }
+  };
+
+  const loadMechanics = async (coordinates: Coordinates, day: Date) => {
+    setLoadingMechanics(true);
+
+    // Only mechanics who are working then: right now for emergencies,
+    // otherwise on the chosen day.
+    const now = new Date();
+    const from = dispatch ? now : new Date(Math.max(day.getTime(), now.getTime()));
+    const to = dispatch ? addMinutes(now, 1) : addMinutes(day, 24 * 60);
+
+    const { data, error } = await supabase.rpc('match_mechanics', {
+      p_latitude: coordinates.latitude,
+      p_longitude: coordinates.longitude,
+      p_service_id: serviceId,
+      p_from: from.toISOString(),
+      p_to: to.toISOString(),
+    });
+
+    if (error) {
+      setError(error.message);
+    }
+    const matches: Mechanic[] = data ?? [];
+    setMechanics(matches);
+    setSelectedMechanic((current) =>
+      matches.some((mechanic) => mechanic.id === current) ? current : null
+    );
+    setLoadingMechanics(false);
+  };
+
+  const loadQuote = async (mechanicId: string | null, slot: Date, coordinates: Coordinates) => {
+    setLoadingQuote(true);
+
+    const { quote, error } = await fetchQuote({
+      serviceId,
+      mechanicId,
+      coordinates,
+      scheduledTime: slot,
+      promoCode: appliedPromoCode,
+    });
+
+    setQuote(quote);
+    setQuoteError(error ?? '');
+    setLoadingQuote(false);
+  };
+
+  const loadAvailability = async (mechanicId: string, day: Date) => {
+    setLoadingSlots(true);
+
+    const dayEnd = addMinutes(day, 24 * 60);
+    const [{ data }, windows] = await Promise.all([
+      supabase.rpc('get_mechanic_busy_times', {
+        p_mechanic_id: mechanicId,
+        p_from: day.toISOString(),
+        p_to: dayEnd.toISOString(),
+      }),
+      fetchWorkingWindows(mechanicId, day, dayEnd),
+    ]);
+
+    setBusyPeriods(data ? toBusyPeriods(data) : []);
+    setWorkingWindows(windows);
+    setLoadingSlots(false);
+  };
+
+  const handleUseCurrentLocation = async () => {
+    setLocating(true);
+    setError('');
+
+    const { location, error } = await getCurrentLocation();
+    setLocating(false);
+
+    if (!location) {
+      setError(error || 'Unable to get your current location');
+      return;
+    }
+
+    setLocationAddress(location.address);
+    setLocationCoords(location.coordinates);
+  };
+
+  const handleFindMechanics = async () => {
+    if (!locationAddress.trim()) {
+      setError('Please enter your address');
+      return;
+    }
+
+    setLocating(true);
+    setError('');
+
+    const { coordinates, error } = await geocodeAddress(locationAddress);
+    setLocating(false);
+
+    if (!coordinates) {
+      setError(`${error}. Please check the address or use your current location.`);
+      return;
+    }
+
+    setLocationCoords(coordinates);
+  };
+
+  const handleAddressChange = (value: string) => {
+    setLocationAddress(value);
+    setLocationCoords(null);
+  };
+
+  const formatDay = (day: Date) => {
+    if (isSameDay(day, new Date())) return 'Today';
+    return day.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  };
+
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  const chosenMechanic = mechanics.find((item) => item.id === selectedMechanic);
+  const timeSlots = chosenMechanic
+    ? generateTimeSlots(
+        selectedDay,
+        chosenMechanic.estimated_duration,
+        busyPeriods,
+        workingWindows
+      )
+    : [];
+
+  const nearestDistance = mechanics.length
+    ? Math.min(...mechanics.map((mechanic) => mechanic.distance_km))
+    : null;
+
+  const canSubmit = !submitting && !quoteError && service?.is_active !== false;
+
   const handleSubmit = async () => {
-    if (!vehicleMake || !vehicleModel || !vehicleYear || !locationAddress || !selectedMechanic) {
-      setError('Please fill in all required fields and select a mechanic');
+    if (!vehicleMake || !vehicleModel || !vehicleYear || !locationAddress) {
+      setError('Please fill in all required fields');
+      return;
+    }
+
+    if (!dispatch && !selectedMechanic) {
+      setError('Please select a mechanic');
+      return;
+    }
+
+    const vehicleError = validateVehicle({
+      make: vehicleMake,
+      model: vehicleModel,
+      year: vehicleYear,
+      vin: selectedVehicle ? undefined : vin,
+      mileage: vehicleMileage,
+    });
+    if (vehicleError) {
+      setError(vehicleError);
+      return;
+    }
+
+    if (
+      selectedVehicle?.mileage != null &&
+      vehicleMileage &&
+      Number(vehicleMileage) < selectedVehicle.mileage
+    ) {
+      setError(
+        `Mileage can't be lower than the ${selectedVehicle.mileage.toLocaleString('en-US')} km already recorded for this vehicle`
+      );
+      return;
+    }
+
+    if (!locationCoords) {
+      setError('Please confirm your location');
+      return;
+    }
+
+    const scheduledTime = dispatch ? new Date() : selectedSlot;
+    if (!scheduledTime) {
+      setError('Please choose a date and time for your service');
       return;
     }
 
     setSubmitting(true);
     setError('');
 
-    const { error } = await supabase.from('bookings').insert({
-      customer_id: profile?.id,
-      mechanic_id: selectedMechanic,
-      service_id: serviceId,
-      vehicle_make: vehicleMake,
-      vehicle_model: vehicleModel,
-      vehicle_year: parseInt(vehicleYear),
-      location_address: locationAddress,
-      location_latitude: 0,
-      location_longitude: 0,
-      scheduled_time: new Date().toISOString(),
-      total_price: service?.base_price || 0,
-      notes,
-      status: 'pending',
-    });
+    let vehicleId = selectedVehicle?.id ?? null;
+    if (!selectedVehicle && saveVehicle) {
+      const { data: savedVehicle, error: vehicleSaveError } = await supabase
+        .from('vehicles')
+        .insert({
+          owner_id: profile?.id,
+          make: vehicleMake.trim(),
+          model: vehicleModel.trim(),
+          year: parseInt(vehicleYear),
+          vin: vin || null,
+          mileage: vehicleMileage ? Number(vehicleMileage) : null,
+        })
+        .select()
+        .single();
 
-    setSubmitting(false);
+      if (vehicleSaveError) {
+        setSubmitting(false);
+        setError(vehicleSaveError.message);
+        return;
+      }
+      vehicleId = savedVehicle.id;
+    }
+
+    const { data: booking, error } = await supabase
+      .from('bookings')
+      .insert({
+        customer_id: profile?.id,
+        mechanic_id: dispatch ? null : selectedMechanic,
+        service_id: serviceId,
+        vehicle_id: vehicleId,
+        vehicle_make: vehicleMake.trim(),
+        vehicle_model: vehicleModel.trim(),
+        vehicle_year: parseInt(vehicleYear),
+        vehicle_mileage: vehicleMileage ? Number(vehicleMileage) : null,
+        location_address: locationAddress,
+        location_latitude: locationCoords.latitude,
+        location_longitude: locationCoords.longitude,
+        scheduled_time: scheduledTime.toISOString(),
+        promo_code: appliedPromoCode || null,
+        notes,
+        status: 'pending',
+      })
+      .select('id')
+      .single();
 
     if (error) {
+      setSubmitting(false);
       setError(error.message);
+      return;
+    }
+
+    const { error: photoError } = await uploadAttachments(booking.id, 'issue', photos);
+    setSubmitting(false);
+
+    if (photoError) {
+      Alert.alert(
+        'Booking Confirmed',
+        `Some photos could not be uploaded (${photoError}). You can add them from the booking later.`
+      );
+    }
+
+    if (dispatch) {
+      router.replace(`/booking/dispatch?bookingId=${booking.id}`);
     } else {
       router.replace('/(tabs)/bookings');
     }
@@ -126,10 +477,14 @@ export default function CreateBookingScreen() {
         {service && (
           <View style={styles.serviceInfo}>
             <Text style={styles.serviceName}>{service.name}</Text>
-            <Text style={styles.servicePrice}>${service.base_price}</Text>
+            <Text style={styles.servicePrice}>From ${service.base_price}</Text>
           </View>
         )}
 
+        {service && !service.is_active ? (
+          <Text style={styles.error}>This service is no longer offered</Text>
+        ) : null}
+
         {error ? <Text style={styles.error}>{error}</Text> : null}
 
         <View style={styles.section}>
@@ -138,27 +493,105 @@ export default function CreateBookingScreen() {
             <Text style={styles.sectionTitle}>Vehicle Information</Text>
           </View>
 
-          <TextInput
-            style={styles.input}
-            placeholder="Make (e.g., Toyota)"
-            value={vehicleMake}
-            onChangeText={setVehicleMake}
-            placeholderTextColor="#9ca3af"
-          />
+          {vehicles.length > 0 && (
+            <View style={styles.vehicleOptions}>
+              {vehicles.map((vehicle) => (
+                <TouchableOpacity
+                  key={vehicle.id}
+                  style={[
+                    styles.vehicleOption,
+                    selectedVehicle?.id === vehicle.id && styles.chipSelected,
+                  ]}
+                  onPress={() => selectVehicle(vehicle)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      selectedVehicle?.id === vehicle.id && styles.chipTextSelected,
+                    ]}
+                  >
+                    {vehicleLabel(vehicle)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={[styles.vehicleOption, !selectedVehicle && styles.chipSelected]}
+                onPress={() => selectVehicle(null)}
+              >
+                <Text style={[styles.chipText, !selectedVehicle && styles.chipTextSelected]}>
+                  Another vehicle
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
 
-          <TextInput
-            style={styles.input}
-            placeholder="Model (e.g., Camry)"
-            value={vehicleModel}
-            onChangeText={setVehicleModel}
-            placeholderTextColor="#9ca3af"
-          />
+          {!selectedVehicle && (
+            <>
+              <TextInput
+                style={[styles.input, vinError ? styles.inputInvalid : null]}
+                placeholder="VIN (optional, fills in make and year)"
+                value={vin}
+                onChangeText={handleVinChange}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                maxLength={VIN_LENGTH}
+                placeholderTextColor="#9ca3af"
+              />
+              {vinError ? <Text style={styles.vinError}>{vinError}</Text> : null}
+              {decodedVin && (
+                <Text style={styles.vinDetails}>
+                  {[
+                    decodedVin.make ?? `Unknown manufacturer (${decodedVin.wmi})`,
+                    decodedVin.modelYear,
+                    decodedVin.plant ?? decodedVin.region,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </Text>
+              )}
+
+              <TextInput
+                style={styles.input}
+                placeholder="Make (e.g., Toyota)"
+                value={vehicleMake}
+                onChangeText={setVehicleMake}
+                placeholderTextColor="#9ca3af"
+              />
+
+              <TextInput
+                style={styles.input}
+                placeholder="Model (e.g., Camry)"
+                value={vehicleModel}
+                onChangeText={setVehicleModel}
+                placeholderTextColor="#9ca3af"
+              />
+
+              <TextInput
+                style={styles.input}
+                placeholder="Year (e.g., 2020)"
+                value={vehicleYear}
+                onChangeText={setVehicleYear}
+                keyboardType="numeric"
+                placeholderTextColor="#9ca3af"
+              />
+
+              <TouchableOpacity
+                style={styles.checkboxRow}
+                onPress={() => setSaveVehicle(!saveVehicle)}
+              >
+                <View style={[styles.checkbox, saveVehicle && styles.checkboxChecked]}>
+                  {saveVehicle && <Check size={14} color="#fff" />}
+                </View>
+                <Text style={styles.checkboxLabel}>Save this vehicle to My Garage</Text>
+              </TouchableOpacity>
+            </>
+          )}
 
           <TextInput
-            style={styles.input}
-            placeholder="Year (e.g., 2020)"
-            value={vehicleYear}
-            onChangeText={setVehicleYear}
+            style={[styles.input, !selectedVehicle && styles.inputSpacing]}
+            placeholder="Current mileage in km (optional)"
+            value={vehicleMileage}
+            onChangeText={setVehicleMileage}
             keyboardType="numeric"
             placeholderTextColor="#9ca3af"
           />
@@ -174,35 +607,226 @@ export default function CreateBookingScreen() {
             style={styles.input}
             placeholder="Your address"
             value={locationAddress}
-            onChangeText={setLocationAddress}
+            onChangeText={handleAddressChange}
             multiline
             numberOfLines={3}
             placeholderTextColor="#9ca3af"
           />
+
+          {locating ? (
+            <ActivityIndicator color="#2563eb" />
+          ) : (
+            <View style={styles.locationActions}>
+              <TouchableOpacity style={styles.locationButton} onPress={handleUseCurrentLocation}>
+                <LocateFixed size={18} color="#2563eb" />
+                <Text style={styles.locationButtonText}>Use my current location</Text>
+              </TouchableOpacity>
+              {!locationCoords && locationAddress.trim() ? (
+                <TouchableOpacity style={styles.locationButton} onPress={handleFindMechanics}>
+                  <MapPin size={18} color="#2563eb" />
+                  <Text style={styles.locationButtonText}>Find mechanics near this address</Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          )}
         </View>
 
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Select Mechanic</Text>
-
-          {mechanics.map((mechanic) => (
-            <TouchableOpacity
-              key={mechanic.id}
-              style={[
-                styles.mechanicCard,
-                selectedMechanic === mechanic.id && styles.mechanicCardSelected,
-              ]}
-              onPress={() => setSelectedMechanic(mechanic.id)}
-            >
-              <View style={styles.mechanicInfo}>
-                <Text style={styles.mechanicName}>{mechanic.business_name}</Text>
+        {dispatch ? (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Siren size={20} color="#dc2626" />
+              <Text style={styles.sectionTitle}>Emergency Help</Text>
+            </View>
+
+            <View style={styles.dispatchCard}>
+              <Text style={styles.dispatchText}>
+                We'll alert available mechanics near you right away, starting with the closest.
+                The first one to accept is on the way.
+              </Text>
+              {!locationCoords ? (
+                <Text style={styles.mechanicDetails}>
+                  Enter your location to see who can help.
+                </Text>
+              ) : loadingMechanics ? (
+                <ActivityIndicator color="#2563eb" />
+              ) : (
                 <Text style={styles.mechanicDetails}>
-                  {mechanic.years_experience} years experience • {mechanic.total_jobs} jobs completed
+                  {nearestDistance === null
+                    ? 'No mechanics cover this location right now. Please try again later.'
+                    : `${mechanics.length} nearby · closest about ${formatTravelTime(
+                        estimateTravelMinutes(nearestDistance)
+                      )} away`}
                 </Text>
-                <Text style={styles.mechanicRating}>Rating: {mechanic.rating.toFixed(1)} / 5.0</Text>
+              )}
+            </View>
+          </View>
+        ) : (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Select Mechanic</Text>
+
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.dayList}>
+              {bookableDays.map((day) => (
+                <TouchableOpacity
+                  key={day.toISOString()}
+                  style={[styles.dayChip, isSameDay(day, selectedDay) && styles.chipSelected]}
+                  onPress={() => setSelectedDay(day)}
+                >
+                  <Text
+                    style={[styles.chipText, isSameDay(day, selectedDay) && styles.chipTextSelected]}
+                  >
+                    {formatDay(day)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            {!locationCoords ? (
+              <Text style={styles.emptySlots}>
+                Enter your location to see mechanics who serve your area.
+              </Text>
+            ) : loadingMechanics ? (
+              <ActivityIndicator color="#2563eb" />
+            ) : mechanics.length === 0 ? (
+              <Text style={styles.emptySlots}>
+                No mechanics offering this service cover this location and are working on this
+                day. Please pick another date.
+              </Text>
+            ) : null}
+
+            {mechanics.map((mechanic) => (
+              <TouchableOpacity
+                key={mechanic.id}
+                style={[
+                  styles.mechanicCard,
+                  selectedMechanic === mechanic.id && styles.mechanicCardSelected,
+                ]}
+                onPress={() => setSelectedMechanic(mechanic.id)}
+              >
+                <View style={styles.mechanicInfo}>
+                  <View style={styles.mechanicHeader}>
+                    <Text style={styles.mechanicName}>{mechanic.business_name}</Text>
+                    <Text style={styles.mechanicPrice}>{formatCurrency(mechanic.price)}</Text>
+                  </View>
+                  <Text style={styles.mechanicDetails}>
+                    Labor, parts and travel before tax • about {mechanic.estimated_duration} min
+                  </Text>
+                  <Text style={styles.mechanicDetails}>
+                    {mechanic.years_experience} years experience • {mechanic.total_jobs} jobs completed
+                  </Text>
+                  <Text style={styles.mechanicRating}>Rating: {mechanic.rating.toFixed(1)} / 5.0</Text>
+                  <View style={styles.mechanicDistance}>
+                    <Navigation size={14} color="#2563eb" />
+                    <Text style={styles.mechanicDistanceText}>
+                      {formatDistance(mechanic.distance_km)} away • about{' '}
+                      {formatTravelTime(estimateTravelMinutes(mechanic.distance_km))}
+                    </Text>
+                  </View>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {selectedMechanic && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <CalendarClock size={20} color="#2563eb" />
+              <Text style={styles.sectionTitle}>Time</Text>
+            </View>
+
+            {loadingSlots ? (
+              <ActivityIndicator color="#2563eb" />
+            ) : timeSlots.some((slot) => slot.available) ? (
+              <View style={styles.slotGrid}>
+                {timeSlots.map((slot) => {
+                  const selected = selectedSlot?.getTime() === slot.start.getTime();
+                  return (
+                    <TouchableOpacity
+                      key={slot.start.toISOString()}
+                      style={[
+                        styles.slotChip,
+                        selected && styles.chipSelected,
+                        !slot.available && styles.slotChipDisabled,
+                      ]}
+                      onPress={() => setSelectedSlot(slot.start)}
+                      disabled={!slot.available}
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          selected && styles.chipTextSelected,
+                          !slot.available && styles.slotTextDisabled,
+                        ]}
+                      >
+                        {formatTime(slot.start)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
               </View>
-            </TouchableOpacity>
-          ))}
-        </View>
+            ) : (
+              <Text style={styles.emptySlots}>
+                {workingWindows.length === 0
+                  ? 'This mechanic is off or fully booked on this day. Please pick another date.'
+                  : 'No times available on this day. Please pick another date.'}
+              </Text>
+            )}
+          </View>
+        )}
+
+        {(selectedSlot || (dispatch && locationCoords)) && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Receipt size={20} color="#2563eb" />
+              <Text style={styles.sectionTitle}>Your Quote</Text>
+            </View>
+
+            <View style={styles.promoRow}>
+              <TextInput
+                style={[styles.input, styles.promoInput]}
+                placeholder="Promo code"
+                value={promoCode}
+                onChangeText={setPromoCode}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                placeholderTextColor="#9ca3af"
+              />
+              <TouchableOpacity
+                style={styles.locationButton}
+                onPress={() => setAppliedPromoCode(promoCode.trim().toUpperCase())}
+              >
+                <Text style={styles.locationButtonText}>
+                  {appliedPromoCode && appliedPromoCode === promoCode.trim().toUpperCase()
+                    ? 'Applied'
+                    : 'Apply'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {loadingQuote ? (
+              <ActivityIndicator color="#2563eb" />
+            ) : quoteError ? (
+              <Text style={styles.quoteError}>{quoteError}</Text>
+            ) : quote ? (
+              <View style={styles.quoteCard}>
+                {quote.lineItems.map((item, index) => (
+                  <View key={index} style={styles.quoteRow}>
+                    <Text style={styles.quoteLabel}>{describeLineItem(item)}</Text>
+                    <Text
+                      style={[styles.quoteAmount, item.amount < 0 && styles.quoteDiscount]}
+                    >
+                      {formatCurrency(item.amount)}
+                    </Text>
+                  </View>
+                ))}
+                <View style={[styles.quoteRow, styles.quoteTotalRow]}>
+                  <Text style={styles.quoteTotalLabel}>Total</Text>
+                  <Text style={styles.quoteTotalAmount}>{formatCurrency(quote.total)}</Text>
+                </View>
+              </View>
+            ) : null}
+          </View>
+        )}
 
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Additional Notes</Text>
@@ -217,15 +841,28 @@ export default function CreateBookingScreen() {
           />
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Photos</Text>
+          <Text style={styles.photoHint}>
+            Show the mechanic the problem, like a warning light or a leak.
+          </Text>
+          <PhotoAttachmentPicker
+            photos={photos.map((photo) => ({ key: photo.uri, uri: photo.uri }))}
+            onAdd={(added) => setPhotos((current) => [...current, ...added])}
+            onRemove={(uri) => setPhotos((current) => current.filter((photo) => photo.uri !== uri))}
+            maxPhotos={MAX_ATTACHMENTS_PER_UPLOAD}
+          />
+        </View>
+
         <TouchableOpacity
-          style={[styles.button, submitting && styles.buttonDisabled]}
+          style={[styles.button, !canSubmit && styles.buttonDisabled]}
           onPress={handleSubmit}
-          disabled={submitting}
+          disabled={!canSubmit}
         >
           {submitting ? (
             <ActivityIndicator color="#fff" />
           ) : (
-            <Text style={styles.buttonText}>Confirm Booking</Text>
+            <Text style={styles.buttonText}>{dispatch ? 'Request Help Now' : 'Confirm Booking'}</Text>
           )}
         </TouchableOpacity>
 
@@ -315,6 +952,89 @@ const styles = StyleSheet.create({
     height: 100,
     textAlignVertical: 'top',
   },
+  locationActions: {
+    gap: 8,
+  },
+  locationButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#eff6ff',
+    borderRadius: 12,
+    padding: 12,
+  },
+  locationButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  promoRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  promoInput: {
+    flex: 1,
+  },
+  quoteCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    gap: 8,
+  },
+  quoteRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  quoteLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  quoteAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  quoteDiscount: {
+    color: '#059669',
+  },
+  quoteTotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    paddingTop: 8,
+  },
+  quoteTotalLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  quoteTotalAmount: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2563eb',
+  },
+  quoteError: {
+    fontSize: 14,
+    color: '#ef4444',
+  },
+  dispatchCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    gap: 8,
+  },
+  dispatchText: {
+    fontSize: 15,
+    color: '#1a1a1a',
+    lineHeight: 21,
+  },
   mechanicCard: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -330,10 +1050,22 @@ const styles = StyleSheet.create({
   mechanicInfo: {
     gap: 4,
   },
+  mechanicHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
   mechanicName: {
     fontSize: 16,
     fontWeight: '700',
     color: '#1a1a1a',
+    flexShrink: 1,
+  },
+  mechanicPrice: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2563eb',
   },
   mechanicDetails: {
     fontSize: 14,
@@ -344,6 +1076,122 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#f59e0b',
   },
+  vehicleOptions: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  vehicleOption: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+  },
+  inputSpacing: {
+    marginTop: 16,
+  },
+  inputInvalid: {
+    borderColor: '#ef4444',
+  },
+  vinError: {
+    fontSize: 13,
+    color: '#ef4444',
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  photoHint: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  vinDetails: {
+    fontSize: 13,
+    color: '#059669',
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#d1d5db',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  checkboxLabel: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  dayList: {
+    marginBottom: 16,
+  },
+  dayChip: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginRight: 8,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+  },
+  chipSelected: {
+    borderColor: '#2563eb',
+    backgroundColor: '#eff6ff',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  chipTextSelected: {
+    color: '#2563eb',
+  },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  slotChip: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+  },
+  slotChipDisabled: {
+    backgroundColor: '#f3f4f6',
+    borderColor: '#f3f4f6',
+  },
+  slotTextDisabled: {
+    color: '#d1d5db',
+    textDecorationLine: 'line-through',
+  },
+  emptySlots: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  mechanicDistance: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  mechanicDistanceText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
   button: {
     backgroundColor: '#2563eb',
     borderRadius: 12,
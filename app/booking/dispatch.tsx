@@ -0,0 +1,355 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+import { supabase } from '@/lib/supabase';
+import { BookingStatus } from '@/lib/bookingStatus';
+import {
+  DISPATCH_STATUS_LABELS,
+  DISPATCH_WAVE_RADII_KM,
+  DispatchStatus,
+  advanceDispatch,
+  restartDispatch,
+} from '@/lib/dispatch';
+import { ArrowLeft, CheckCircle, Siren, XCircle } from 'lucide-react-native';
+
+interface DispatchBooking {
+  id: string;
+  status: BookingStatus;
+  mechanic_id: string | null;
+  dispatch_status: DispatchStatus | null;
+  dispatch_wave: number;
+  dispatch_offer_count: number;
+  location_address: string;
+  service: {
+    name: string;
+  } | null;
+  mechanic: {
+    business_name: string;
+    rating: number;
+  } | null;
+}
+
+const DISPATCH_SELECT = `
+  id, status, mechanic_id, dispatch_status, dispatch_wave, dispatch_offer_count, location_address,
+  service:services(name),
+  mechanic:mechanics(business_name, rating)
+`;
+
+// The server only widens the search once a wave is a minute old, so checking
+// more often than that just keeps the wait short.
+const ADVANCE_CHECK_MS = 15 * 1000;
+
+export default function DispatchStatusScreen() {
+  const { bookingId } = useLocalSearchParams<{ bookingId: string }>();
+  const router = useRouter();
+
+  const [booking, setBooking] = useState<DispatchBooking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restarting, setRestarting] = useState(false);
+  const [error, setError] = useState('');
+
+  const searching = booking?.status === 'pending' && booking.dispatch_status === 'searching';
+
+  useEffect(() => {
+    loadBooking();
+  }, [bookingId]);
+
+  useEffect(() => {
+    if (!searching) return;
+
+    const timer = setInterval(() => advanceDispatch(bookingId), ADVANCE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [searching, bookingId]);
+
+  const loadBooking = async () => {
+    const { data } = await supabase
+      .from('bookings')
+      .select(DISPATCH_SELECT)
+      .eq('id', bookingId)
+      .maybeSingle();
+
+    if (data) {
+      setBooking(data as any);
+    }
+    setLoading(false);
+  };
+
+  const handleBookingChange = (payload: RealtimePostgresChangesPayload<DispatchBooking>) => {
+    if (payload.eventType !== 'UPDATE') return;
+
+    const changes = payload.new;
+    if (changes.mechanic_id !== booking?.mechanic_id) {
+      // The realtime row doesn't include the mechanic's details.
+      loadBooking();
+      return;
+    }
+
+    setBooking((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  useRealtimeChanges<DispatchBooking>(
+    'bookings',
+    bookingId ? `id=eq.${bookingId}` : null,
+    handleBookingChange
+  );
+
+  const handleRestart = async () => {
+    setRestarting(true);
+    setError('');
+
+    const { error } = await restartDispatch(bookingId);
+    setRestarting(false);
+
+    if (error) {
+      setError(error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  const wave = Math.min(Math.max(booking?.dispatch_wave ?? 1, 1), DISPATCH_WAVE_RADII_KM.length);
+  const radius = DISPATCH_WAVE_RADII_KM[wave - 1];
+
+  const renderStatus = () => {
+    if (!booking) {
+      return <Text style={styles.statusText}>This request could not be found.</Text>;
+    }
+
+    if (booking.status === 'cancelled') {
+      return (
+        <>
+          <XCircle size={56} color="#ef4444" />
+          <Text style={styles.statusTitle}>Request cancelled</Text>
+        </>
+      );
+    }
+
+    if (booking.mechanic) {
+      return (
+        <>
+          <CheckCircle size={56} color="#10b981" />
+          <Text style={styles.statusTitle}>{booking.mechanic.business_name} is on the job</Text>
+          <Text style={styles.statusText}>
+            Rated {booking.mechanic.rating.toFixed(1)} / 5.0. You can follow the job and message
+            your mechanic from Bookings.
+          </Text>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => router.replace('/(tabs)/bookings')}
+          >
+            <Text style={styles.buttonText}>View Booking</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    if (booking.dispatch_status === 'exhausted') {
+      return (
+        <>
+          <Siren size={56} color="#f59e0b" />
+          <Text style={styles.statusTitle}>{DISPATCH_STATUS_LABELS.exhausted}</Text>
+          <Text style={styles.statusText}>
+            {booking.dispatch_offer_count > 0
+              ? `We alerted ${booking.dispatch_offer_count} nearby mechanics but nobody could take the job.`
+              : 'There are no mechanics available near you right now.'}{' '}
+            You can search again or cancel the request at no charge.
+          </Text>
+          <TouchableOpacity
+            style={[styles.button, restarting && styles.buttonDisabled]}
+            onPress={handleRestart}
+            disabled={restarting}
+          >
+            {restarting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>Search Again</Text>
+            )}
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <ActivityIndicator size="large" color="#dc2626" />
+        <Text style={styles.statusTitle}>{DISPATCH_STATUS_LABELS.searching}</Text>
+        <Text style={styles.statusText}>
+          {booking.dispatch_offer_count > 0
+            ? `Alerted ${booking.dispatch_offer_count} ${
+                booking.dispatch_offer_count === 1 ? 'mechanic' : 'mechanics'
+              } within ${radius} km. The first to accept will be on the way.`
+            : `Looking for mechanics within ${radius} km.`}
+        </Text>
+        <Text style={styles.hint}>
+          If nobody answers within a minute, we widen the search.
+        </Text>
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Emergency Request</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {booking && (
+          <View style={styles.bookingInfo}>
+            <Text style={styles.serviceName}>{booking.service?.name}</Text>
+            <Text style={styles.address}>{booking.location_address}</Text>
+          </View>
+        )}
+
+        {error ? <Text style={styles.error}>{error}</Text> : null}
+
+        <View style={styles.statusCard}>{renderStatus()}</View>
+
+        {booking && booking.status === 'pending' && !booking.mechanic_id && (
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={() => router.push(`/booking/cancel?bookingId=${booking.id}`)}
+          >
+            <Text style={styles.cancelButtonText}>Cancel Request</Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  bookingInfo: {
+    backgroundColor: '#fff',
+    padding: 24,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    gap: 4,
+  },
+  serviceName: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  address: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  statusCard: {
+    backgroundColor: '#fff',
+    margin: 24,
+    padding: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    gap: 12,
+  },
+  statusTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    textAlign: 'center',
+  },
+  statusText: {
+    fontSize: 15,
+    color: '#4b5563',
+    lineHeight: 21,
+    textAlign: 'center',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#9ca3af',
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: '#2563eb',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  cancelButton: {
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginHorizontal: 24,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    backgroundColor: '#fff',
+  },
+  cancelButtonText: {
+    color: '#ef4444',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  error: {
+    backgroundColor: '#fee',
+    color: '#c00',
+    padding: 12,
+    marginHorizontal: 24,
+    marginTop: 24,
+    borderRadius: 8,
+    textAlign: 'center',
+  },
+});
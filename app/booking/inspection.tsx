@@ -0,0 +1,696 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  Alert,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { LocalPhoto, getPhotoUrls, removeBookingPhoto } from '@/lib/attachments';
+import {
+  FollowUpService,
+  INSPECTION_STATUSES,
+  INSPECTION_STATUS_LABELS,
+  InspectionReport,
+  InspectionResult,
+  InspectionStatus,
+  InspectionTemplateItem,
+  fetchFollowUpServices,
+  fetchInspectionReport,
+  fetchInspectionTemplate,
+  saveInspectionResult,
+  startInspectionReport,
+  submitInspectionReport,
+  uploadInspectionPhoto,
+} from '@/lib/inspections';
+import PhotoAttachmentPicker from '@/components/PhotoAttachmentPicker';
+import { ArrowLeft, ClipboardCheck, Wrench } from 'lucide-react-native';
+
+interface InspectionBooking {
+  id: string;
+  status: string;
+  service_id: string;
+  vehicle_id: string | null;
+  service: {
+    name: string;
+  };
+}
+
+const STATUS_COLORS: Record<InspectionStatus, { color: string; bg: string }> = {
+  pass: { color: '#10b981', bg: '#d1fae5' },
+  attention: { color: '#f59e0b', bg: '#fef3c7' },
+  fail: { color: '#ef4444', bg: '#fee2e2' },
+};
+
+export default function InspectionScreen() {
+  const { bookingId } = useLocalSearchParams<{ bookingId: string }>();
+  const { profile } = useAuth();
+  const router = useRouter();
+
+  const [booking, setBooking] = useState<InspectionBooking | null>(null);
+  const [items, setItems] = useState<InspectionTemplateItem[]>([]);
+  const [report, setReport] = useState<InspectionReport | null>(null);
+  const [results, setResults] = useState<Record<string, InspectionResult>>({});
+  const [measurements, setMeasurements] = useState<Record<string, string>>({});
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [summary, setSummary] = useState('');
+  const [followUps, setFollowUps] = useState<FollowUpService[]>([]);
+
+  const [loading, setLoading] = useState(true);
+  const [uploadingItemId, setUploadingItemId] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const editable = profile?.user_type === 'mechanic' && booking?.status === 'in_progress';
+
+  useEffect(() => {
+    loadData();
+  }, [bookingId]);
+
+  const loadData = async () => {
+    const { data } = await supabase
+      .from('bookings')
+      .select('id, status, service_id, vehicle_id, service:services(name)')
+      .eq('id', bookingId)
+      .maybeSingle();
+
+    if (!data) {
+      setLoading(false);
+      return;
+    }
+
+    const bookingData = data as unknown as InspectionBooking;
+    const [template, existingReport] = await Promise.all([
+      fetchInspectionTemplate(bookingData.service_id),
+      fetchInspectionReport(bookingId),
+    ]);
+
+    let loadedReport = existingReport;
+    const canStart = profile?.user_type === 'mechanic' && bookingData.status === 'in_progress';
+    if (!loadedReport && canStart) {
+      loadedReport = (await startInspectionReport(bookingId)).report;
+    }
+
+    setBooking(bookingData);
+    setItems(template);
+    applyReport(loadedReport, template);
+    setLoading(false);
+  };
+
+  const applyReport = async (
+    loadedReport: InspectionReport | null,
+    template: InspectionTemplateItem[]
+  ) => {
+    setReport(loadedReport);
+    if (!loadedReport) return;
+
+    setSummary(loadedReport.summary);
+    setResults(Object.fromEntries(loadedReport.results.map((result) => [result.item_id, result])));
+    setMeasurements(
+      Object.fromEntries(
+        loadedReport.results
+          .filter((result) => result.measurement !== null)
+          .map((result) => [result.item_id, String(result.measurement)])
+      )
+    );
+    setPhotoUrls(
+      await getPhotoUrls(
+        loadedReport.results
+          .map((result) => result.photo_path)
+          .filter((path): path is string => !!path)
+      )
+    );
+    setFollowUps(await fetchFollowUpServices(template, loadedReport.results));
+  };
+
+  const saveResult = async (itemId: string, changes: Partial<InspectionResult>) => {
+    if (!report) return;
+
+    const current = results[itemId];
+    const next: InspectionResult = {
+      report_id: report.id,
+      item_id: itemId,
+      status: current?.status ?? 'pass',
+      measurement: current?.measurement ?? null,
+      photo_path: current?.photo_path ?? null,
+      ...changes,
+    };
+
+    setResults((previous) => ({ ...previous, [itemId]: next }));
+    const { error } = await saveInspectionResult(next);
+    if (error) {
+      setResults(({ [itemId]: _, ...rest }) => (current ? { ...rest, [itemId]: current } : rest));
+      Alert.alert('Not Saved', error);
+      return;
+    }
+
+    if (current?.photo_path && current.photo_path !== next.photo_path) {
+      removeBookingPhoto(current.photo_path);
+    }
+  };
+
+  const handleMeasurementBlur = (item: InspectionTemplateItem) => {
+    const text = (measurements[item.id] ?? '').trim();
+    const value = text === '' ? null : Number(text);
+
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      Alert.alert('Invalid Measurement', `Enter the ${item.label.toLowerCase()} as a number.`);
+      return;
+    }
+    if (value !== (results[item.id]?.measurement ?? null)) {
+      saveResult(item.id, { measurement: value });
+    }
+  };
+
+  const handleAddPhoto = async (itemId: string, photos: LocalPhoto[]) => {
+    if (photos.length === 0) return;
+
+    setUploadingItemId(itemId);
+    const { path, error } = await uploadInspectionPhoto(bookingId, photos[0]);
+    setUploadingItemId(null);
+
+    if (!path) {
+      Alert.alert('Upload Failed', error ?? 'Unable to upload photo');
+      return;
+    }
+
+    const urls = await getPhotoUrls([path]);
+    setPhotoUrls((current) => ({ ...current, ...urls }));
+    saveResult(itemId, { photo_path: path });
+  };
+
+  const handleSubmit = async () => {
+    if (!report) return;
+
+    const unrated = items.filter((item) => !results[item.id]);
+    if (unrated.length > 0) {
+      Alert.alert(
+        'Checklist Incomplete',
+        `Rate every item before sharing the report. Still missing: ${unrated
+          .map((item) => item.label)
+          .join(', ')}.`
+      );
+      return;
+    }
+
+    setSubmitting(true);
+    const { error } = await submitInspectionReport(report.id, summary);
+    setSubmitting(false);
+
+    if (error) {
+      Alert.alert('Error', error);
+      return;
+    }
+
+    setReport({ ...report, summary: summary.trim(), submitted_at: new Date().toISOString() });
+    setFollowUps(await fetchFollowUpServices(items, Object.values(results)));
+    Alert.alert('Report Shared', 'The customer can now see the inspection report.');
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  const renderStatusBadge = (status: InspectionStatus) => (
+    <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[status].bg }]}>
+      <Text style={[styles.statusBadgeText, { color: STATUS_COLORS[status].color }]}>
+        {INSPECTION_STATUS_LABELS[status]}
+      </Text>
+    </View>
+  );
+
+  const renderEditableItem = (item: InspectionTemplateItem) => {
+    const result = results[item.id];
+    return (
+      <View key={item.id} style={styles.itemCard}>
+        <Text style={styles.itemLabel}>{item.label}</Text>
+        <View style={styles.statusOptions}>
+          {INSPECTION_STATUSES.map((status) => {
+            const selected = result?.status === status;
+            return (
+              <TouchableOpacity
+                key={status}
+                style={[
+                  styles.statusOption,
+                  selected && {
+                    backgroundColor: STATUS_COLORS[status].bg,
+                    borderColor: STATUS_COLORS[status].color,
+                  },
+                ]}
+                onPress={() => saveResult(item.id, { status })}
+              >
+                <Text
+                  style={[
+                    styles.statusOptionText,
+                    selected && { color: STATUS_COLORS[status].color },
+                  ]}
+                >
+                  {INSPECTION_STATUS_LABELS[status]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {result && item.unit && (
+          <View style={styles.measurementRow}>
+            <TextInput
+              style={styles.measurementInput}
+              placeholder="Measurement"
+              value={measurements[item.id] ?? ''}
+              onChangeText={(text) =>
+                setMeasurements((current) => ({ ...current, [item.id]: text }))
+              }
+              onEndEditing={() => handleMeasurementBlur(item)}
+              keyboardType="decimal-pad"
+              placeholderTextColor="#9ca3af"
+            />
+            <Text style={styles.measurementUnit}>{item.unit}</Text>
+          </View>
+        )}
+
+        {result && (
+          <PhotoAttachmentPicker
+            photos={
+              result.photo_path && photoUrls[result.photo_path]
+                ? [{ key: result.photo_path, uri: photoUrls[result.photo_path] }]
+                : []
+            }
+            onAdd={(photos) => handleAddPhoto(item.id, photos)}
+            onRemove={() => saveResult(item.id, { photo_path: null })}
+            maxPhotos={1}
+            busy={uploadingItemId === item.id}
+          />
+        )}
+      </View>
+    );
+  };
+
+  const renderReadOnlyItem = (item: InspectionTemplateItem) => {
+    const result = results[item.id];
+    return (
+      <View key={item.id} style={styles.itemCard}>
+        <View style={styles.itemHeader}>
+          <Text style={[styles.itemLabel, styles.itemLabelFlex]}>{item.label}</Text>
+          {result ? (
+            renderStatusBadge(result.status)
+          ) : (
+            <Text style={styles.muted}>Not checked</Text>
+          )}
+        </View>
+        {result?.measurement !== null && result?.measurement !== undefined && (
+          <Text style={styles.measurementText}>
+            {result.measurement} {item.unit}
+          </Text>
+        )}
+        {result?.photo_path && photoUrls[result.photo_path] ? (
+          <Image source={{ uri: photoUrls[result.photo_path] }} style={styles.itemPhoto} />
+        ) : null}
+      </View>
+    );
+  };
+
+  const counts = INSPECTION_STATUSES.map((status) => ({
+    status,
+    count: Object.values(results).filter((result) => result.status === status).length,
+  }));
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Inspection Report</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {booking && (
+          <View style={styles.summaryCard}>
+            <ClipboardCheck size={24} color="#2563eb" />
+            <View style={styles.summaryInfo}>
+              <Text style={styles.summaryTitle}>{booking.service.name}</Text>
+              <Text style={styles.muted}>
+                {report?.submitted_at
+                  ? `Shared ${new Date(report.submitted_at).toLocaleDateString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric',
+                    })}`
+                  : editable
+                    ? 'Rate each item, then share the report'
+                    : 'Not shared yet'}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {!report ? (
+          <Text style={styles.notice}>
+            {profile?.user_type === 'mechanic'
+              ? 'The checklist can be filled in while the job is in progress.'
+              : 'Your mechanic has not shared the inspection report yet.'}
+          </Text>
+        ) : items.length === 0 ? (
+          <Text style={styles.notice}>This service has no inspection checklist.</Text>
+        ) : (
+          <>
+            <View style={styles.countsRow}>
+              {counts.map(({ status, count }) => (
+                <View
+                  key={status}
+                  style={[styles.countCard, { backgroundColor: STATUS_COLORS[status].bg }]}
+                >
+                  <Text style={[styles.countValue, { color: STATUS_COLORS[status].color }]}>
+                    {count}
+                  </Text>
+                  <Text style={[styles.countLabel, { color: STATUS_COLORS[status].color }]}>
+                    {INSPECTION_STATUS_LABELS[status]}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Checklist</Text>
+              {items.map(editable ? renderEditableItem : renderReadOnlyItem)}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Mechanic Notes</Text>
+              {editable ? (
+                <TextInput
+                  style={[styles.input, styles.textArea]}
+                  placeholder="Summarize what you found..."
+                  value={summary}
+                  onChangeText={setSummary}
+                  multiline
+                  numberOfLines={4}
+                  placeholderTextColor="#9ca3af"
+                />
+              ) : (
+                <Text style={styles.summaryText}>{report.summary || 'No notes.'}</Text>
+              )}
+            </View>
+
+            {!editable && followUps.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Recommended Services</Text>
+                {followUps.map((service) => (
+                  <View key={service.id} style={styles.followUpCard}>
+                    <Wrench size={20} color="#f59e0b" />
+                    <View style={styles.followUpInfo}>
+                      <Text style={styles.followUpName}>{service.name}</Text>
+                      <Text style={styles.muted}>Based on: {service.reasons.join(', ')}</Text>
+                    </View>
+                    {profile?.user_type === 'customer' && (
+                      <TouchableOpacity
+                        style={styles.bookButton}
+                        onPress={() =>
+                          router.push(
+                            `/booking/create?serviceId=${service.id}${
+                              booking?.vehicle_id ? `&vehicleId=${booking.vehicle_id}` : ''
+                            }`
+                          )
+                        }
+                      >
+                        <Text style={styles.bookButtonText}>Book</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {editable && (
+              <TouchableOpacity
+                style={[styles.button, submitting && styles.buttonDisabled]}
+                onPress={handleSubmit}
+                disabled={submitting}
+              >
+                {submitting ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.buttonText}>
+                    {report.submitted_at ? 'Update Shared Report' : 'Share Report'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  notice: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    padding: 24,
+  },
+  muted: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  summaryCard: {
+    backgroundColor: '#fff',
+    margin: 24,
+    marginBottom: 0,
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  summaryInfo: {
+    flex: 1,
+  },
+  summaryTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginBottom: 2,
+  },
+  countsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  countCard: {
+    flex: 1,
+    borderRadius: 12,
+    padding: 12,
+    alignItems: 'center',
+  },
+  countValue: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  countLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  section: {
+    padding: 24,
+    paddingBottom: 0,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  itemCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    gap: 12,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  itemLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  itemLabelFlex: {
+    flex: 1,
+  },
+  statusOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  statusOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    alignItems: 'center',
+  },
+  statusOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  statusBadgeText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  measurementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  measurementInput: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  measurementUnit: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6b7280',
+    width: 32,
+  },
+  measurementText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  itemPhoto: {
+    width: '100%',
+    height: 180,
+    borderRadius: 8,
+    backgroundColor: '#e5e7eb',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  textArea: {
+    height: 100,
+    textAlignVertical: 'top',
+  },
+  summaryText: {
+    fontSize: 15,
+    color: '#1a1a1a',
+    lineHeight: 22,
+  },
+  followUpCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#fde68a',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  followUpInfo: {
+    flex: 1,
+  },
+  followUpName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 2,
+  },
+  bookButton: {
+    backgroundColor: '#2563eb',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  bookButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  button: {
+    backgroundColor: '#2563eb',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    margin: 24,
+    marginBottom: 0,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,305 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  Invoice,
+  InvoiceAudience,
+  fetchInvoice,
+  formatInvoiceNumber,
+  invoiceLineItems,
+  invoiceTitle,
+  printInvoice,
+  shareInvoice,
+} from '@/lib/invoices';
+import { describeLineItem, formatCurrency, summarizeLineItems } from '@/lib/pricing';
+import { ArrowLeft, Printer, Share2 } from 'lucide-react-native';
+
+export default function InvoiceScreen() {
+  const { bookingId } = useLocalSearchParams<{ bookingId: string }>();
+  const { profile } = useAuth();
+  const router = useRouter();
+
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  const audience: InvoiceAudience = profile?.user_type === 'mechanic' ? 'mechanic' : 'customer';
+
+  useEffect(() => {
+    loadInvoice();
+  }, [bookingId]);
+
+  const loadInvoice = async () => {
+    setInvoice(await fetchInvoice(bookingId));
+    setLoading(false);
+  };
+
+  const handleExport = async (action: typeof shareInvoice) => {
+    if (!invoice) return;
+
+    setExporting(true);
+    const { error } = await action(invoice, audience);
+    setExporting(false);
+
+    if (error) {
+      Alert.alert('Export Failed', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  const lineItems = invoice ? invoiceLineItems(invoice.snapshot) : [];
+  const { subtotal, tax } = summarizeLineItems(lineItems);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{invoiceTitle(audience)}</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {!invoice ? (
+          <Text style={styles.notice}>
+            An invoice is issued once the booking has been completed.
+          </Text>
+        ) : (
+          <>
+            <View style={styles.invoiceCard}>
+              <Text style={styles.businessName}>{invoice.snapshot.business_name}</Text>
+              <Text style={styles.invoiceNumber}>
+                {invoiceTitle(audience)} {formatInvoiceNumber(invoice.invoice_number)}
+              </Text>
+              <Text style={styles.muted}>
+                Issued{' '}
+                {new Date(invoice.issued_at).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                })}
+              </Text>
+
+              <View style={styles.divider} />
+
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Customer</Text>
+                <Text style={styles.detailValue}>{invoice.snapshot.customer_name}</Text>
+              </View>
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Vehicle</Text>
+                <Text style={styles.detailValue}>
+                  {invoice.snapshot.vehicle.year} {invoice.snapshot.vehicle.make}{' '}
+                  {invoice.snapshot.vehicle.model}
+                </Text>
+              </View>
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Service</Text>
+                <Text style={styles.detailValue}>{invoice.snapshot.service_name ?? 'Service'}</Text>
+              </View>
+
+              <View style={styles.divider} />
+
+              {lineItems.map((item, index) => (
+                <View key={index} style={styles.lineRow}>
+                  <Text style={styles.lineLabel}>{describeLineItem(item)}</Text>
+                  <Text style={styles.lineAmount}>{formatCurrency(Number(item.amount))}</Text>
+                </View>
+              ))}
+
+              <View style={styles.divider} />
+
+              <View style={styles.lineRow}>
+                <Text style={styles.lineLabel}>Subtotal</Text>
+                <Text style={styles.lineAmount}>{formatCurrency(subtotal)}</Text>
+              </View>
+              <View style={styles.lineRow}>
+                <Text style={styles.lineLabel}>Tax</Text>
+                <Text style={styles.lineAmount}>{formatCurrency(tax)}</Text>
+              </View>
+              <View style={styles.lineRow}>
+                <Text style={styles.totalLabel}>Total</Text>
+                <Text style={styles.totalAmount}>{formatCurrency(Number(invoice.total))}</Text>
+              </View>
+            </View>
+
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.button, exporting && styles.buttonDisabled]}
+                onPress={() => handleExport(shareInvoice)}
+                disabled={exporting}
+              >
+                <Share2 size={20} color="#fff" />
+                <Text style={styles.buttonText}>Share PDF</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.buttonSecondary, exporting && styles.buttonDisabled]}
+                onPress={() => handleExport(printInvoice)}
+                disabled={exporting}
+              >
+                <Printer size={20} color="#2563eb" />
+                <Text style={[styles.buttonText, styles.buttonTextSecondary]}>Print</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  notice: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    padding: 24,
+  },
+  invoiceCard: {
+    backgroundColor: '#fff',
+    margin: 24,
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    gap: 4,
+  },
+  businessName: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  invoiceNumber: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  muted: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: '#e5e7eb',
+    marginVertical: 12,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 2,
+  },
+  detailLabel: {
+    width: 80,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  detailValue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  lineRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 2,
+  },
+  lineLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  lineAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  totalAmount: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2563eb',
+  },
+  actions: {
+    paddingHorizontal: 24,
+    gap: 12,
+  },
+  button: {
+    backgroundColor: '#2563eb',
+    borderRadius: 12,
+    padding: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  buttonSecondary: {
+    backgroundColor: '#eff6ff',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  buttonTextSecondary: {
+    color: '#2563eb',
+  },
+});
@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  Modal,
+  Alert,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import {
+  ATTACHMENT_KIND_LABELS,
+  AttachmentKind,
+  BookingAttachment,
+  LocalPhoto,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  deleteAttachment,
+  fetchAttachments,
+  getAttachmentUrls,
+  uploadAttachments,
+} from '@/lib/attachments';
+import PhotoAttachmentPicker from '@/components/PhotoAttachmentPicker';
+import { ArrowLeft, X } from 'lucide-react-native';
+
+const KINDS: AttachmentKind[] = ['issue', 'before', 'after'];
+
+export default function BookingPhotosScreen() {
+  const { bookingId } = useLocalSearchParams<{ bookingId: string }>();
+  const { profile } = useAuth();
+  const router = useRouter();
+
+  const [status, setStatus] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<BookingAttachment[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [uploadingKind, setUploadingKind] = useState<AttachmentKind | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const isMechanic = profile?.user_type === 'mechanic';
+  const isOpen = status !== null && !['completed', 'cancelled'].includes(status);
+  const editableKinds: AttachmentKind[] = !isOpen
+    ? []
+    : isMechanic
+      ? ['before', 'after']
+      : ['issue'];
+
+  useEffect(() => {
+    loadData();
+  }, [bookingId]);
+
+  const loadData = async () => {
+    const [{ data: booking }, list] = await Promise.all([
+      supabase.from('bookings').select('status').eq('id', bookingId).maybeSingle(),
+      fetchAttachments(bookingId),
+    ]);
+
+    setStatus(booking?.status ?? null);
+    setAttachments(list);
+    setUrls(await getAttachmentUrls(list));
+    setLoading(false);
+  };
+
+  const handleAdd = async (kind: AttachmentKind, photos: LocalPhoto[]) => {
+    setUploadingKind(kind);
+    const { attachments: uploaded, error } = await uploadAttachments(bookingId, kind, photos);
+    setUploadingKind(null);
+
+    if (uploaded.length > 0) {
+      setAttachments((current) => [...current, ...uploaded]);
+      const uploadedUrls = await getAttachmentUrls(uploaded);
+      setUrls((current) => ({ ...current, ...uploadedUrls }));
+    }
+    if (error) {
+      Alert.alert('Upload Failed', error);
+    }
+  };
+
+  const handleRemove = (attachmentId: string) => {
+    const attachment = attachments.find((item) => item.id === attachmentId);
+    if (!attachment) return;
+
+    Alert.alert('Remove Photo', 'Remove this photo from the booking?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          const { error } = await deleteAttachment(attachment);
+          if (error) {
+            Alert.alert('Error', 'Failed to remove photo');
+          } else {
+            setAttachments((current) => current.filter((item) => item.id !== attachmentId));
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Photos</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {KINDS.map((kind) => {
+          const items = attachments.filter((attachment) => attachment.kind === kind);
+          const editable = editableKinds.includes(kind);
+          if (!editable && items.length === 0) return null;
+
+          return (
+            <View key={kind} style={styles.section}>
+              <Text style={styles.sectionTitle}>{ATTACHMENT_KIND_LABELS[kind]}</Text>
+              {editable ? (
+                <PhotoAttachmentPicker
+                  photos={items
+                    .filter((item) => urls[item.storage_path])
+                    .map((item) => ({ key: item.id, uri: urls[item.storage_path] }))}
+                  onAdd={(photos) => handleAdd(kind, photos)}
+                  onRemove={handleRemove}
+                  maxPhotos={items.length + MAX_ATTACHMENTS_PER_UPLOAD}
+                  busy={uploadingKind === kind}
+                />
+              ) : (
+                <View style={styles.grid}>
+                  {items.map((item) =>
+                    urls[item.storage_path] ? (
+                      <TouchableOpacity
+                        key={item.id}
+                        onPress={() => setPreviewUrl(urls[item.storage_path])}
+                      >
+                        <Image source={{ uri: urls[item.storage_path] }} style={styles.thumbnail} />
+                      </TouchableOpacity>
+                    ) : null
+                  )}
+                </View>
+              )}
+            </View>
+          );
+        })}
+
+        {attachments.length === 0 && editableKinds.length === 0 && (
+          <Text style={styles.emptyText}>No photos were added to this booking.</Text>
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+
+      <Modal
+        visible={!!previewUrl}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPreviewUrl(null)}
+      >
+        <View style={styles.preview}>
+          {previewUrl && (
+            <Image source={{ uri: previewUrl }} style={styles.previewImage} resizeMode="contain" />
+          )}
+          <TouchableOpacity style={styles.previewClose} onPress={() => setPreviewUrl(null)}>
+            <X size={28} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    padding: 24,
+    paddingBottom: 0,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  thumbnail: {
+    width: 96,
+    height: 96,
+    borderRadius: 8,
+    backgroundColor: '#e5e7eb',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    padding: 24,
+  },
+  preview: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    justifyContent: 'center',
+  },
+  previewImage: {
+    width: '100%',
+    height: '80%',
+  },
+  previewClose: {
+    position: 'absolute',
+    top: 60,
+    right: 24,
+  },
+});
@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { ArrowLeft, Star } from 'lucide-react-native';
+
+interface ReviewBooking {
+  id: string;
+  status: string;
+  mechanic_id: string | null;
+  scheduled_time: string;
+  service: {
+    name: string;
+  };
+  mechanic: {
+    business_name: string;
+  } | null;
+  review: {
+    id: string;
+  } | null;
+}
+
+const RATING_LABELS = ['', 'Poor', 'Fair', 'Good', 'Very Good', 'Excellent'];
+const MAX_COMMENT_LENGTH = 1000;
+
+export default function ReviewScreen() {
+  const { bookingId } = useLocalSearchParams();
+  const { profile } = useAuth();
+  const router = useRouter();
+
+  const [booking, setBooking] = useState<ReviewBooking | null>(null);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadBooking();
+  }, [bookingId]);
+
+  const loadBooking = async () => {
+    const { data } = await supabase
+      .from('bookings')
+      .select(`
+        id,
+        status,
+        mechanic_id,
+        scheduled_time,
+        service:services(name),
+        mechanic:mechanics(business_name),
+        review:reviews(id)
+      `)
+      .eq('id', bookingId)
+      .maybeSingle();
+
+    if (data) {
+      setBooking(data as any);
+    }
+    setLoading(false);
+  };
+
+  const handleSubmit = async () => {
+    if (!booking || !booking.mechanic_id) return;
+
+    if (rating === 0) {
+      setError('Please select a star rating');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+
+    const { error } = await supabase.from('reviews').insert({
+      booking_id: booking.id,
+      customer_id: profile?.id,
+      mechanic_id: booking.mechanic_id,
+      rating,
+      comment: comment.trim(),
+    });
+
+    setSubmitting(false);
+
+    if (error) {
+      setError(
+        error.code === '23505' ? 'You have already reviewed this booking' : error.message
+      );
+    } else {
+      router.replace('/(tabs)/bookings');
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  const unavailableReason = !booking
+    ? 'This booking could not be found.'
+    : booking.status !== 'completed'
+      ? 'You can leave a review once the service has been completed.'
+      : booking.review
+        ? 'You have already reviewed this booking. Thank you for your feedback!'
+        : '';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Leave Review</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {booking && (
+          <View style={styles.bookingInfo}>
+            <Text style={styles.serviceName}>{booking.service.name}</Text>
+            {booking.mechanic && (
+              <Text style={styles.mechanicName}>{booking.mechanic.business_name}</Text>
+            )}
+          </View>
+        )}
+
+        {unavailableReason ? (
+          <Text style={styles.notice}>{unavailableReason}</Text>
+        ) : (
+          <>
+            {error ? <Text style={styles.error}>{error}</Text> : null}
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>How was your service?</Text>
+              <View style={styles.stars}>
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <TouchableOpacity key={value} onPress={() => setRating(value)}>
+                    <Star
+                      size={40}
+                      color="#f59e0b"
+                      fill={value <= rating ? '#f59e0b' : 'transparent'}
+                    />
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.ratingLabel}>{RATING_LABELS[rating]}</Text>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Comments (optional)</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                placeholder="Tell others about your experience..."
+                value={comment}
+                onChangeText={setComment}
+                maxLength={MAX_COMMENT_LENGTH}
+                multiline
+                numberOfLines={5}
+                placeholderTextColor="#9ca3af"
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.button, submitting && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Submit Review</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  bookingInfo: {
+    backgroundColor: '#fff',
+    padding: 24,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    gap: 4,
+  },
+  serviceName: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  mechanicName: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  section: {
+    padding: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginBottom: 16,
+  },
+  stars: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  ratingLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#f59e0b',
+    textAlign: 'center',
+    marginTop: 12,
+    minHeight: 20,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  textArea: {
+    height: 120,
+    textAlignVertical: 'top',
+  },
+  button: {
+    backgroundColor: '#2563eb',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginHorizontal: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  notice: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    padding: 24,
+  },
+  error: {
+    backgroundColor: '#fee',
+    color: '#c00',
+    padding: 12,
+    marginHorizontal: 24,
+    marginTop: 24,
+    borderRadius: 8,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,11 @@
+import { Stack } from 'expo-router';
+
+export default function GarageLayout() {
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="index" />
+      <Stack.Screen name="edit" />
+      <Stack.Screen name="history" />
+    </Stack>
+  );
+}
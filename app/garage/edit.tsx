@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { validateVehicle } from '@/lib/vehicles';
+import { VIN_LENGTH, decodeVin, normalizeVin } from '@/lib/vin';
+import { ArrowLeft } from 'lucide-react-native';
+
+export default function EditVehicleScreen() {
+  const { vehicleId } = useLocalSearchParams<{ vehicleId?: string }>();
+  const { profile } = useAuth();
+  const router = useRouter();
+
+  const [nickname, setNickname] = useState('');
+  const [make, setMake] = useState('');
+  const [model, setModel] = useState('');
+  const [year, setYear] = useState('');
+  const [vin, setVin] = useState('');
+  const [licensePlate, setLicensePlate] = useState('');
+  const [mileage, setMileage] = useState('');
+
+  const [loading, setLoading] = useState(!!vehicleId);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (vehicleId) {
+      loadVehicle();
+    }
+  }, [vehicleId]);
+
+  const loadVehicle = async () => {
+    const { data } = await supabase.from('vehicles').select('*').eq('id', vehicleId).maybeSingle();
+
+    if (data) {
+      setNickname(data.nickname ?? '');
+      setMake(data.make);
+      setModel(data.model);
+      setYear(String(data.year));
+      setVin(data.vin ?? '');
+      setLicensePlate(data.license_plate ?? '');
+      setMileage(data.mileage !== null ? String(data.mileage) : '');
+    }
+    setLoading(false);
+  };
+
+  const handleVinChange = (text: string) => {
+    const value = normalizeVin(text);
+    setVin(value);
+
+    if (value.length === VIN_LENGTH) {
+      const { decoded } = decodeVin(value);
+      if (decoded?.make && !make.trim()) {
+        setMake(decoded.make);
+      }
+      if (decoded?.modelYear && !year.trim()) {
+        setYear(String(decoded.modelYear));
+      }
+    }
+  };
+
+  const handleSave = async () => {
+    const validationError = validateVehicle({ make, model, year, vin, mileage });
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    const values = {
+      nickname: nickname.trim() || null,
+      make: make.trim(),
+      model: model.trim(),
+      year: Number(year),
+      vin: normalizeVin(vin) || null,
+      license_plate: licensePlate.trim().toUpperCase() || null,
+      mileage: mileage ? Number(mileage) : null,
+    };
+
+    const { error } = vehicleId
+      ? await supabase
+          .from('vehicles')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', vehicleId)
+      : await supabase.from('vehicles').insert({ ...values, owner_id: profile?.id });
+
+    setSaving(false);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      router.back();
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{vehicleId ? 'Edit Vehicle' : 'Add Vehicle'}</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {error ? <Text style={styles.error}>{error}</Text> : null}
+
+        <View style={styles.section}>
+          <Text style={styles.label}>Nickname (optional)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., Family car"
+            value={nickname}
+            onChangeText={setNickname}
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.label}>Make</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., Toyota"
+            value={make}
+            onChangeText={setMake}
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.label}>Model</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., Camry"
+            value={model}
+            onChangeText={setModel}
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.label}>Year</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., 2020"
+            value={year}
+            onChangeText={setYear}
+            keyboardType="numeric"
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.label}>VIN (optional)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="17-character vehicle identification number"
+            value={vin}
+            onChangeText={handleVinChange}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            maxLength={VIN_LENGTH}
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.label}>License plate (optional)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., ABC1234"
+            value={licensePlate}
+            onChangeText={setLicensePlate}
+            autoCapitalize="characters"
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.label}>Mileage in km (optional)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., 45000"
+            value={mileage}
+            onChangeText={setMileage}
+            keyboardType="numeric"
+            placeholderTextColor="#9ca3af"
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.button, saving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Save Vehicle</Text>
+          )}
+        </TouchableOpacity>
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    padding: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  button: {
+    backgroundColor: '#2563eb',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginHorizontal: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  error: {
+    backgroundColor: '#fee',
+    color: '#c00',
+    padding: 12,
+    marginHorizontal: 24,
+    marginTop: 24,
+    borderRadius: 8,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,379 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useFocusEffect, useRouter, useLocalSearchParams } from 'expo-router';
+import { supabase } from '@/lib/supabase';
+import { Vehicle, formatVehicle } from '@/lib/vehicles';
+import {
+  MaintenanceDueItem,
+  MaintenanceStatus,
+  ServiceHistoryEntry,
+  describeDueItem,
+  describeRule,
+  fetchMaintenanceRules,
+  fetchServiceHistory,
+  formatKm,
+  getDueItems,
+} from '@/lib/maintenance';
+import { ArrowLeft, Wrench, AlertTriangle, Clock, CheckCircle } from 'lucide-react-native';
+
+const STATUS_COLORS: Record<MaintenanceStatus, { color: string; background: string }> = {
+  overdue: { color: '#ef4444', background: '#fee2e2' },
+  due_soon: { color: '#f59e0b', background: '#fef3c7' },
+  upcoming: { color: '#10b981', background: '#d1fae5' },
+};
+
+const CATEGORY_COLORS: { [key: string]: string } = {
+  maintenance: '#10b981',
+  repair: '#f59e0b',
+  inspection: '#3b82f6',
+  emergency: '#ef4444',
+};
+
+export default function VehicleHistoryScreen() {
+  const { vehicleId } = useLocalSearchParams<{ vehicleId: string }>();
+  const router = useRouter();
+
+  const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [history, setHistory] = useState<ServiceHistoryEntry[]>([]);
+  const [dueItems, setDueItems] = useState<MaintenanceDueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [vehicleId])
+  );
+
+  const loadData = async () => {
+    const [vehicleResult, rules, entries] = await Promise.all([
+      supabase.from('vehicles').select('*').eq('id', vehicleId).maybeSingle(),
+      fetchMaintenanceRules(),
+      fetchServiceHistory(vehicleId),
+    ]);
+
+    if (vehicleResult.data) {
+      setVehicle(vehicleResult.data);
+      setDueItems(getDueItems(rules, entries, vehicleResult.data.mileage));
+    }
+    setHistory(entries);
+    setLoading(false);
+  };
+
+  const getStatusIcon = (status: MaintenanceStatus) => {
+    const { color } = STATUS_COLORS[status];
+    switch (status) {
+      case 'overdue':
+        return <AlertTriangle size={18} color={color} />;
+      case 'due_soon':
+        return <Clock size={18} color={color} />;
+      default:
+        return <CheckCircle size={18} color={color} />;
+    }
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Service History</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {!vehicle ? (
+          <Text style={styles.notice}>This vehicle is no longer in your garage.</Text>
+        ) : (
+          <>
+            <View style={styles.vehicleInfo}>
+              <Text style={styles.vehicleName}>{vehicle.nickname || formatVehicle(vehicle)}</Text>
+              <Text style={styles.vehicleDetails}>
+                {vehicle.nickname ? `${formatVehicle(vehicle)} • ` : ''}
+                {vehicle.mileage !== null ? formatKm(vehicle.mileage) : 'Mileage not recorded'}
+              </Text>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Upcoming Maintenance</Text>
+              {dueItems.length === 0 ? (
+                <Text style={styles.emptyText}>No maintenance schedule available</Text>
+              ) : (
+                dueItems.map((item) => (
+                  <View key={item.rule.id} style={styles.dueCard}>
+                    <View
+                      style={[
+                        styles.dueIcon,
+                        { backgroundColor: STATUS_COLORS[item.status].background },
+                      ]}
+                    >
+                      {getStatusIcon(item.status)}
+                    </View>
+                    <View style={styles.dueInfo}>
+                      <Text style={styles.dueName}>{item.rule.name}</Text>
+                      <Text style={[styles.dueText, { color: STATUS_COLORS[item.status].color }]}>
+                        {describeDueItem(item)}
+                      </Text>
+                      <Text style={styles.ruleText}>{describeRule(item.rule)}</Text>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.bookButton}
+                      onPress={() =>
+                        router.push(
+                          `/booking/create?serviceId=${item.rule.service_id}&vehicleId=${vehicle.id}`
+                        )
+                      }
+                    >
+                      <Text style={styles.bookButtonText}>Book Now</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Past Services</Text>
+              {history.length === 0 ? (
+                <Text style={styles.emptyText}>
+                  Completed bookings for this vehicle will appear here
+                </Text>
+              ) : (
+                <View>
+                  {history.map((entry, index) => (
+                    <View key={entry.id} style={styles.timelineItem}>
+                      <View style={styles.timelineMarker}>
+                        <View
+                          style={[
+                            styles.timelineDot,
+                            { backgroundColor: CATEGORY_COLORS[entry.category] ?? '#6b7280' },
+                          ]}
+                        />
+                        {index < history.length - 1 && <View style={styles.timelineLine} />}
+                      </View>
+                      <View style={styles.timelineContent}>
+                        <Text style={styles.timelineDate}>{formatDate(entry.serviced_at)}</Text>
+                        <View style={styles.timelineCard}>
+                          <View style={styles.timelineHeader}>
+                            <Wrench size={16} color="#2563eb" />
+                            <Text style={styles.timelineService}>{entry.service_name}</Text>
+                          </View>
+                          <Text style={styles.timelineCategory}>{entry.category}</Text>
+                          {entry.mechanic_name ? (
+                            <Text style={styles.timelineDetails}>{entry.mechanic_name}</Text>
+                          ) : null}
+                          <Text style={styles.timelineDetails}>
+                            {entry.mileage !== null ? `${formatKm(entry.mileage)} • ` : ''}
+                            {`$${entry.total_price.toFixed(2)}`}
+                          </Text>
+                        </View>
+                      </View>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </View>
+          </>
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  notice: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    padding: 24,
+  },
+  vehicleInfo: {
+    backgroundColor: '#fff',
+    padding: 24,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    gap: 4,
+  },
+  vehicleName: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  vehicleDetails: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  section: {
+    padding: 24,
+    paddingBottom: 0,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  dueCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  dueIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dueInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  dueName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  dueText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  ruleText: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  bookButton: {
+    backgroundColor: '#2563eb',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  bookButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  timelineItem: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  timelineMarker: {
+    alignItems: 'center',
+    width: 16,
+  },
+  timelineDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 4,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e5e7eb',
+    marginTop: 4,
+  },
+  timelineContent: {
+    flex: 1,
+    paddingBottom: 20,
+    gap: 8,
+  },
+  timelineDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  timelineCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    gap: 4,
+  },
+  timelineHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  timelineService: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  timelineCategory: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+    textTransform: 'uppercase',
+  },
+  timelineDetails: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+});
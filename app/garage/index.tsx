@@ -0,0 +1,237 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { Vehicle, formatVehicle } from '@/lib/vehicles';
+import { ArrowLeft, Car, Plus, Pencil, Trash2 } from 'lucide-react-native';
+
+export default function GarageScreen() {
+  const { profile } = useAuth();
+  const router = useRouter();
+
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadVehicles();
+    }, [profile?.id])
+  );
+
+  const loadVehicles = async () => {
+    const { data } = await supabase
+      .from('vehicles')
+      .select('*')
+      .eq('owner_id', profile?.id)
+      .order('created_at', { ascending: true });
+
+    if (data) {
+      setVehicles(data);
+    }
+    setLoading(false);
+  };
+
+  const handleDelete = (vehicle: Vehicle) => {
+    Alert.alert(
+      'Remove Vehicle',
+      `Remove ${vehicle.nickname || formatVehicle(vehicle)} from your garage? Past bookings will keep their vehicle details.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await supabase.from('vehicles').delete().eq('id', vehicle.id);
+            if (error) {
+              Alert.alert('Remove Failed', error.message);
+              return;
+            }
+            setVehicles((current) => current.filter((item) => item.id !== vehicle.id));
+          },
+        },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>My Garage</Text>
+        <TouchableOpacity onPress={() => router.push('/garage/edit')} style={styles.backButton}>
+          <Plus size={24} color="#2563eb" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {loading ? (
+          <ActivityIndicator size="large" color="#2563eb" style={{ marginTop: 32 }} />
+        ) : vehicles.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Car size={64} color="#d1d5db" />
+            <Text style={styles.emptyTitle}>No vehicles yet</Text>
+            <Text style={styles.emptyText}>
+              Save your vehicles to book services faster
+            </Text>
+            <TouchableOpacity style={styles.button} onPress={() => router.push('/garage/edit')}>
+              <Text style={styles.buttonText}>Add Vehicle</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.vehicleList}>
+            {vehicles.map((vehicle) => (
+              <TouchableOpacity
+                key={vehicle.id}
+                style={styles.vehicleCard}
+                onPress={() => router.push(`/garage/history?vehicleId=${vehicle.id}`)}
+              >
+                <View style={styles.vehicleIcon}>
+                  <Car size={24} color="#2563eb" />
+                </View>
+                <View style={styles.vehicleInfo}>
+                  <Text style={styles.vehicleName}>{vehicle.nickname || formatVehicle(vehicle)}</Text>
+                  {vehicle.nickname ? (
+                    <Text style={styles.vehicleDetails}>{formatVehicle(vehicle)}</Text>
+                  ) : null}
+                  {vehicle.license_plate ? (
+                    <Text style={styles.vehicleDetails}>Plate: {vehicle.license_plate}</Text>
+                  ) : null}
+                  {vehicle.mileage !== null ? (
+                    <Text style={styles.vehicleDetails}>
+                      {vehicle.mileage.toLocaleString('en-US')} km
+                    </Text>
+                  ) : null}
+                </View>
+                <View style={styles.vehicleActions}>
+                  <TouchableOpacity
+                    onPress={() => router.push(`/garage/edit?vehicleId=${vehicle.id}`)}
+                  >
+                    <Pencil size={20} color="#6b7280" />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDelete(vehicle)}>
+                    <Trash2 size={20} color="#ef4444" />
+                  </TouchableOpacity>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+    paddingHorizontal: 24,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  vehicleList: {
+    padding: 24,
+    gap: 16,
+  },
+  vehicleCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  vehicleIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: '#eff6ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  vehicleInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  vehicleName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  vehicleDetails: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  vehicleActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  button: {
+    backgroundColor: '#2563eb',
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,548 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Switch,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DayScheduleInput,
+  TimeOff,
+  WEEKDAY_LABELS,
+  addTimeOff,
+  fetchTimeOff,
+  fetchWorkingHours,
+  removeTimeOff,
+  saveSchedule,
+  setOnline,
+  toScheduleInput,
+  validateSchedule,
+} from '@/lib/availability';
+import { addMinutes, getBookableDays, isSameDay } from '@/lib/scheduling';
+import { ArrowLeft, Trash2 } from 'lucide-react-native';
+
+const TIME_OFF_WINDOW_DAYS = 60;
+
+export default function MechanicScheduleScreen() {
+  const { mechanic, refreshMechanic } = useAuth();
+  const router = useRouter();
+
+  const [days, setDays] = useState<DayScheduleInput[]>([]);
+  const [maxJobsPerDay, setMaxJobsPerDay] = useState('');
+  const [timeOff, setTimeOff] = useState<TimeOff[]>([]);
+
+  const [timeOffDays] = useState(() => getBookableDays(new Date(), TIME_OFF_WINDOW_DAYS));
+  const [timeOffStart, setTimeOffStart] = useState<Date>(timeOffDays[0]);
+  const [timeOffEnd, setTimeOffEnd] = useState<Date>(timeOffDays[0]);
+  const [timeOffReason, setTimeOffReason] = useState('');
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [togglingOnline, setTogglingOnline] = useState(false);
+  const [addingTimeOff, setAddingTimeOff] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (mechanic) {
+      loadSchedule(mechanic.id);
+    }
+  }, [mechanic?.id]);
+
+  const loadSchedule = async (mechanicId: string) => {
+    const [hours, upcomingTimeOff] = await Promise.all([
+      fetchWorkingHours(mechanicId),
+      fetchTimeOff(mechanicId),
+    ]);
+
+    setDays(toScheduleInput(hours));
+    setTimeOff(upcomingTimeOff);
+    setMaxJobsPerDay(mechanic?.max_jobs_per_day ? String(mechanic.max_jobs_per_day) : '');
+    setLoading(false);
+  };
+
+  const updateDay = (weekday: number, changes: Partial<DayScheduleInput>) => {
+    setDays((current) =>
+      current.map((day) => (day.weekday === weekday ? { ...day, ...changes } : day))
+    );
+  };
+
+  const handleToggleOnline = async (online: boolean) => {
+    if (!mechanic) return;
+
+    setTogglingOnline(true);
+    const { error } = await setOnline(mechanic.id, online);
+    await refreshMechanic();
+    setTogglingOnline(false);
+
+    if (error) {
+      Alert.alert('Update Failed', error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!mechanic) return;
+
+    const validationError = validateSchedule(days, maxJobsPerDay);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    const { error } = await saveSchedule(mechanic.id, days, maxJobsPerDay);
+    await refreshMechanic();
+    setSaving(false);
+
+    if (error) {
+      setError(error);
+    } else {
+      Alert.alert('Schedule Saved', 'Customers will see your new hours when booking.');
+    }
+  };
+
+  const handleSelectTimeOffStart = (day: Date) => {
+    setTimeOffStart(day);
+    if (timeOffEnd < day) {
+      setTimeOffEnd(day);
+    }
+  };
+
+  const handleAddTimeOff = async () => {
+    if (!mechanic) return;
+
+    setAddingTimeOff(true);
+    const { error } = await addTimeOff(
+      mechanic.id,
+      timeOffStart,
+      addMinutes(timeOffEnd, 24 * 60),
+      timeOffReason
+    );
+    setAddingTimeOff(false);
+
+    if (error) {
+      Alert.alert('Add Failed', error);
+      return;
+    }
+
+    setTimeOffReason('');
+    setTimeOff(await fetchTimeOff(mechanic.id));
+  };
+
+  const handleRemoveTimeOff = async (entry: TimeOff) => {
+    const { error } = await removeTimeOff(entry.id);
+    if (error) {
+      Alert.alert('Remove Failed', error);
+      return;
+    }
+    setTimeOff((current) => current.filter((item) => item.id !== entry.id));
+  };
+
+  const formatDay = (day: Date) =>
+    day.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+  const formatTimeOff = (entry: TimeOff) => {
+    const start = new Date(entry.starts_at);
+    const lastDay = addMinutes(new Date(entry.ends_at), -1);
+    return isSameDay(start, lastDay)
+      ? formatDay(start)
+      : `${formatDay(start)} – ${formatDay(lastDay)}`;
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Schedule</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <View style={[styles.card, styles.onlineCard]}>
+            <View style={styles.onlineInfo}>
+              <Text style={styles.onlineTitle}>
+                {mechanic?.is_available ? 'Online' : 'Offline'}
+              </Text>
+              <Text style={styles.cardHint}>
+                {mechanic?.is_available
+                  ? 'Customers can book you during your working hours'
+                  : "You're hidden from customers until you go back online"}
+              </Text>
+            </View>
+            <Switch
+              value={!!mechanic?.is_available}
+              onValueChange={handleToggleOnline}
+              disabled={togglingOnline}
+              trackColor={{ true: '#10b981' }}
+            />
+          </View>
+        </View>
+
+        {error ? <Text style={styles.error}>{error}</Text> : null}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Working Hours</Text>
+          <View style={styles.card}>
+            {days.map((day) => (
+              <View key={day.weekday} style={styles.dayRow}>
+                <Switch
+                  value={day.enabled}
+                  onValueChange={(value) => updateDay(day.weekday, { enabled: value })}
+                  trackColor={{ true: '#2563eb' }}
+                />
+                <Text style={[styles.dayLabel, !day.enabled && styles.dayLabelOff]}>
+                  {WEEKDAY_LABELS[day.weekday].slice(0, 3)}
+                </Text>
+                {day.enabled ? (
+                  <View style={styles.hoursInputs}>
+                    <TextInput
+                      style={styles.timeInput}
+                      value={day.start}
+                      onChangeText={(value) => updateDay(day.weekday, { start: value })}
+                      placeholder="08:00"
+                      keyboardType="numbers-and-punctuation"
+                      maxLength={5}
+                      placeholderTextColor="#9ca3af"
+                    />
+                    <Text style={styles.hoursSeparator}>to</Text>
+                    <TextInput
+                      style={styles.timeInput}
+                      value={day.end}
+                      onChangeText={(value) => updateDay(day.weekday, { end: value })}
+                      placeholder="18:00"
+                      keyboardType="numbers-and-punctuation"
+                      maxLength={5}
+                      placeholderTextColor="#9ca3af"
+                    />
+                  </View>
+                ) : (
+                  <Text style={styles.dayOff}>Day off</Text>
+                )}
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Most jobs per day (optional)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="No limit"
+            value={maxJobsPerDay}
+            onChangeText={setMaxJobsPerDay}
+            keyboardType="numeric"
+            placeholderTextColor="#9ca3af"
+          />
+
+          <TouchableOpacity
+            style={[styles.button, saving && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>Save Schedule</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Time Off</Text>
+
+          {timeOff.length === 0 ? (
+            <Text style={styles.cardHint}>No upcoming time off.</Text>
+          ) : (
+            <View style={styles.card}>
+              {timeOff.map((entry) => (
+                <View key={entry.id} style={styles.timeOffRow}>
+                  <View style={styles.onlineInfo}>
+                    <Text style={styles.timeOffDates}>{formatTimeOff(entry)}</Text>
+                    {entry.reason ? <Text style={styles.cardHint}>{entry.reason}</Text> : null}
+                  </View>
+                  <TouchableOpacity onPress={() => handleRemoveTimeOff(entry)}>
+                    <Trash2 size={20} color="#ef4444" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          )}
+
+          <Text style={[styles.label, styles.labelSpacing]}>From</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.dayList}>
+            {timeOffDays.map((day) => (
+              <TouchableOpacity
+                key={day.toISOString()}
+                style={[styles.dayChip, isSameDay(day, timeOffStart) && styles.chipSelected]}
+                onPress={() => handleSelectTimeOffStart(day)}
+              >
+                <Text
+                  style={[styles.chipText, isSameDay(day, timeOffStart) && styles.chipTextSelected]}
+                >
+                  {formatDay(day)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <Text style={styles.label}>Until</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.dayList}>
+            {timeOffDays
+              .filter((day) => day >= timeOffStart)
+              .map((day) => (
+                <TouchableOpacity
+                  key={day.toISOString()}
+                  style={[styles.dayChip, isSameDay(day, timeOffEnd) && styles.chipSelected]}
+                  onPress={() => setTimeOffEnd(day)}
+                >
+                  <Text
+                    style={[styles.chipText, isSameDay(day, timeOffEnd) && styles.chipTextSelected]}
+                  >
+                    {formatDay(day)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+          </ScrollView>
+
+          <TextInput
+            style={styles.input}
+            placeholder="Reason (optional)"
+            value={timeOffReason}
+            onChangeText={setTimeOffReason}
+            placeholderTextColor="#9ca3af"
+          />
+
+          <TouchableOpacity
+            style={[styles.secondaryButton, addingTimeOff && styles.buttonDisabled]}
+            onPress={handleAddTimeOff}
+            disabled={addingTimeOff}
+          >
+            {addingTimeOff ? (
+              <ActivityIndicator color="#2563eb" />
+            ) : (
+              <Text style={styles.secondaryButtonText}>Add Time Off</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginBottom: 16,
+    gap: 12,
+  },
+  onlineCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginBottom: 0,
+  },
+  onlineInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  onlineTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  cardHint: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    minHeight: 44,
+  },
+  dayLabel: {
+    width: 40,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  dayLabelOff: {
+    color: '#9ca3af',
+  },
+  dayOff: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+  hoursInputs: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  timeInput: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    textAlign: 'center',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  hoursSeparator: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  labelSpacing: {
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  timeOffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  timeOffDates: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  dayList: {
+    marginBottom: 16,
+  },
+  dayChip: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginRight: 8,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+  },
+  chipSelected: {
+    borderColor: '#2563eb',
+    backgroundColor: '#eff6ff',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  chipTextSelected: {
+    color: '#2563eb',
+  },
+  button: {
+    backgroundColor: '#2563eb',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    backgroundColor: '#eff6ff',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#2563eb',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  error: {
+    backgroundColor: '#fee',
+    color: '#c00',
+    padding: 12,
+    marginHorizontal: 24,
+    marginTop: 24,
+    borderRadius: 8,
+    textAlign: 'center',
+  },
+});
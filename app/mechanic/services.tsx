@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Switch,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { Service, durationBounds, fetchAllServices, priceBounds } from '@/lib/services';
+import {
+  MechanicService,
+  ServiceTermsInput,
+  fetchMechanicServices,
+  saveServiceTerms,
+  setServiceOffered,
+  validateServiceTerms,
+} from '@/lib/mechanicServices';
+import { ArrowLeft } from 'lucide-react-native';
+
+function toTermsInput(offering: MechanicService): ServiceTermsInput {
+  return {
+    price: offering.price !== null ? String(offering.price) : '',
+    duration: offering.estimated_duration !== null ? String(offering.estimated_duration) : '',
+  };
+}
+
+export default function MechanicServicesScreen() {
+  const { mechanic } = useAuth();
+  const router = useRouter();
+
+  const [services, setServices] = useState<Service[]>([]);
+  const [offerings, setOfferings] = useState<Record<string, MechanicService>>({});
+  const [drafts, setDrafts] = useState<Record<string, ServiceTermsInput>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (mechanic) {
+      loadServices(mechanic.id);
+    }
+  }, [mechanic?.id]);
+
+  const loadServices = async (mechanicId: string) => {
+    const [allServices, mechanicServices] = await Promise.all([
+      fetchAllServices(),
+      fetchMechanicServices(mechanicId),
+    ]);
+
+    const offered = Object.fromEntries(mechanicServices.map((item) => [item.service_id, item]));
+    setServices(allServices.filter((service) => service.is_active || offered[service.id]));
+    setOfferings(offered);
+    setDrafts(
+      Object.fromEntries(mechanicServices.map((item) => [item.service_id, toTermsInput(item)]))
+    );
+    setLoading(false);
+  };
+
+  const handleToggle = async (service: Service, offered: boolean) => {
+    if (!mechanic) return;
+
+    setSavingId(service.id);
+    const { error } = await setServiceOffered(mechanic.id, service.id, offered);
+    setSavingId(null);
+
+    if (error) {
+      Alert.alert('Update Failed', error);
+      return;
+    }
+    await loadServices(mechanic.id);
+  };
+
+  const handleSaveTerms = async (service: Service) => {
+    if (!mechanic) return;
+
+    const draft = drafts[service.id];
+    const validationError = validateServiceTerms(service, draft);
+    if (validationError) {
+      Alert.alert(service.name, validationError);
+      return;
+    }
+
+    setSavingId(service.id);
+    const { error } = await saveServiceTerms(mechanic.id, service.id, draft);
+    setSavingId(null);
+
+    if (error) {
+      Alert.alert('Save Failed', error);
+      return;
+    }
+    await loadServices(mechanic.id);
+  };
+
+  const updateDraft = (serviceId: string, changes: Partial<ServiceTermsInput>) => {
+    setDrafts((current) => ({ ...current, [serviceId]: { ...current[serviceId], ...changes } }));
+  };
+
+  const isDirty = (serviceId: string) => {
+    const saved = toTermsInput(offerings[serviceId]);
+    const draft = drafts[serviceId];
+    return draft.price.trim() !== saved.price || draft.duration.trim() !== saved.duration;
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>My Services</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.intro}>
+          Customers only see you for the services you switch on. Leave price or duration blank to
+          use the standard rate.
+        </Text>
+
+        <View style={styles.serviceList}>
+          {services.map((service) => {
+            const offering = offerings[service.id];
+            const draft = drafts[service.id];
+            const price = priceBounds(service);
+            const duration = durationBounds(service);
+            const saving = savingId === service.id;
+
+            return (
+              <View key={service.id} style={styles.serviceCard}>
+                <View style={styles.serviceRow}>
+                  <View style={styles.serviceInfo}>
+                    <Text style={styles.serviceName}>{service.name}</Text>
+                    <Text style={styles.serviceDetails}>
+                      Standard ${service.base_price} · {service.estimated_duration} min
+                      {!service.is_active ? ' · Archived' : ''}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={!!offering}
+                    onValueChange={(value) => handleToggle(service, value)}
+                    disabled={saving || (!offering && !service.is_active)}
+                    trackColor={{ true: '#2563eb' }}
+                  />
+                </View>
+
+                {offering && draft ? (
+                  <View style={styles.terms}>
+                    <View style={styles.termsRow}>
+                      <View style={styles.termsField}>
+                        <Text style={styles.label}>Your price ($)</Text>
+                        <TextInput
+                          style={styles.input}
+                          placeholder={String(service.base_price)}
+                          value={draft.price}
+                          onChangeText={(value) => updateDraft(service.id, { price: value })}
+                          keyboardType="decimal-pad"
+                          placeholderTextColor="#9ca3af"
+                        />
+                        <Text style={styles.hint}>
+                          ${price.min} – ${price.max}
+                        </Text>
+                      </View>
+                      <View style={styles.termsField}>
+                        <Text style={styles.label}>Duration (min)</Text>
+                        <TextInput
+                          style={styles.input}
+                          placeholder={String(service.estimated_duration)}
+                          value={draft.duration}
+                          onChangeText={(value) => updateDraft(service.id, { duration: value })}
+                          keyboardType="numeric"
+                          placeholderTextColor="#9ca3af"
+                        />
+                        <Text style={styles.hint}>
+                          {duration.min} – {duration.max} min
+                        </Text>
+                      </View>
+                    </View>
+
+                    {isDirty(service.id) ? (
+                      <TouchableOpacity
+                        style={[styles.button, saving && styles.buttonDisabled]}
+                        onPress={() => handleSaveTerms(service)}
+                        disabled={saving}
+                      >
+                        {saving ? (
+                          <ActivityIndicator color="#fff" />
+                        ) : (
+                          <Text style={styles.buttonText}>Save</Text>
+                        )}
+                      </TouchableOpacity>
+                    ) : null}
+                  </View>
+                ) : null}
+              </View>
+            );
+          })}
+        </View>
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    paddingHorizontal: 24,
+    paddingTop: 24,
+  },
+  serviceList: {
+    padding: 24,
+    gap: 16,
+  },
+  serviceCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  serviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  serviceInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  serviceName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  serviceDetails: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  terms: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  termsRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  termsField: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: '#f9fafb',
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 4,
+  },
+  button: {
+    backgroundColor: '#2563eb',
+    borderRadius: 10,
+    padding: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
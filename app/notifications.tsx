@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, RefreshControl } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useNotifications } from '@/contexts/NotificationsContext';
+import { AppNotification, NotificationEventType } from '@/lib/notifications';
+import {
+  ArrowLeft,
+  Bell,
+  Calendar,
+  CheckCircle,
+  Clock,
+  Wrench,
+  XCircle,
+} from 'lucide-react-native';
+
+const EVENT_ICONS: Record<NotificationEventType, { icon: typeof Bell; color: string; bg: string }> = {
+  booking_created: { icon: Calendar, color: '#2563eb', bg: '#eff6ff' },
+  booking_accepted: { icon: CheckCircle, color: '#10b981', bg: '#d1fae5' },
+  booking_started: { icon: Wrench, color: '#8b5cf6', bg: '#ede9fe' },
+  booking_completed: { icon: CheckCircle, color: '#10b981', bg: '#d1fae5' },
+  booking_cancelled: { icon: XCircle, color: '#ef4444', bg: '#fee2e2' },
+  booking_reminder: { icon: Clock, color: '#f59e0b', bg: '#fef3c7' },
+};
+
+export default function NotificationsScreen() {
+  const { notifications, unreadCount, refresh, markRead } = useNotifications();
+  const router = useRouter();
+  const [refreshing, setRefreshing] = useState(false);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
+  };
+
+  const handlePress = (notification: AppNotification) => {
+    if (!notification.read_at) {
+      markRead([notification.id]);
+    }
+    if (notification.booking_id) {
+      router.push('/(tabs)/bookings');
+    }
+  };
+
+  const formatTime = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Notifications</Text>
+        <TouchableOpacity
+          onPress={() => markRead()}
+          disabled={unreadCount === 0}
+          style={styles.markAllButton}
+        >
+          <Text style={[styles.markAllText, unreadCount === 0 && styles.markAllTextDisabled]}>
+            Mark all read
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {notifications.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Bell size={48} color="#d1d5db" />
+            <Text style={styles.emptyText}>No notifications yet</Text>
+            <Text style={styles.emptySubtext}>
+              Updates about your bookings will show up here
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.list}>
+            {notifications.map((notification) => {
+              const { icon: Icon, color, bg } = EVENT_ICONS[notification.event_type];
+              return (
+                <TouchableOpacity
+                  key={notification.id}
+                  style={[styles.card, !notification.read_at && styles.cardUnread]}
+                  onPress={() => handlePress(notification)}
+                >
+                  <View style={[styles.iconWrap, { backgroundColor: bg }]}>
+                    <Icon size={20} color={color} />
+                  </View>
+                  <View style={styles.cardBody}>
+                    <Text style={styles.cardTitle}>{notification.title}</Text>
+                    <Text style={styles.cardText}>{notification.body}</Text>
+                    <Text style={styles.cardTime}>{formatTime(notification.created_at)}</Text>
+                  </View>
+                  {!notification.read_at && <View style={styles.unreadDot} />}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  markAllButton: {
+    paddingVertical: 8,
+  },
+  markAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  markAllTextDisabled: {
+    color: '#9ca3af',
+  },
+  content: {
+    flex: 1,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 64,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  list: {
+    padding: 24,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  cardUnread: {
+    borderColor: '#bfdbfe',
+    backgroundColor: '#f8fbff',
+  },
+  iconWrap: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardBody: {
+    flex: 1,
+    gap: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#4b5563',
+  },
+  cardTime: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 4,
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#2563eb',
+    marginTop: 6,
+  },
+});
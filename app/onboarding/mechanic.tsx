@@ -0,0 +1,500 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { getCurrentLocation } from '@/lib/location';
+import { deviceTimeZone } from '@/lib/availability';
+import { Briefcase, Award, MapPin, X, LocateFixed } from 'lucide-react-native';
+
+const STEPS = [
+  { title: 'Your Business', subtitle: 'Tell customers who they are booking' },
+  { title: 'Certifications', subtitle: 'Add any qualifications you hold' },
+  { title: 'Service Area', subtitle: 'Where do you work from and how far will you travel?' },
+];
+
+const MAX_SERVICE_RADIUS = 200;
+const MAX_YEARS_EXPERIENCE = 70;
+
+export default function MechanicOnboardingScreen() {
+  const { profile, refreshMechanic } = useAuth();
+  const router = useRouter();
+
+  const [step, setStep] = useState(0);
+
+  const [businessName, setBusinessName] = useState('');
+  const [yearsExperience, setYearsExperience] = useState('');
+  const [certifications, setCertifications] = useState<string[]>([]);
+  const [certificationInput, setCertificationInput] = useState('');
+  const [serviceRadius, setServiceRadius] = useState('10');
+  const [baseLatitude, setBaseLatitude] = useState('');
+  const [baseLongitude, setBaseLongitude] = useState('');
+  const [baseAddress, setBaseAddress] = useState('');
+  const [locating, setLocating] = useState(false);
+
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const validateStep = (index: number) => {
+    if (index === 0) {
+      if (businessName.trim().length < 2) {
+        return 'Please enter your business name';
+      }
+      const years = Number(yearsExperience);
+      if (!yearsExperience || !Number.isInteger(years) || years < 0 || years > MAX_YEARS_EXPERIENCE) {
+        return `Years of experience must be a whole number between 0 and ${MAX_YEARS_EXPERIENCE}`;
+      }
+    }
+
+    if (index === 2) {
+      const radius = Number(serviceRadius);
+      if (!Number.isInteger(radius) || radius < 1 || radius > MAX_SERVICE_RADIUS) {
+        return `Service radius must be between 1 and ${MAX_SERVICE_RADIUS} km`;
+      }
+      const latitude = Number(baseLatitude);
+      const longitude = Number(baseLongitude);
+      if (!baseLatitude || Number.isNaN(latitude) || latitude < -90 || latitude > 90) {
+        return 'Latitude must be a number between -90 and 90';
+      }
+      if (!baseLongitude || Number.isNaN(longitude) || longitude < -180 || longitude > 180) {
+        return 'Longitude must be a number between -180 and 180';
+      }
+    }
+
+    return '';
+  };
+
+  const addCertification = () => {
+    const value = certificationInput.trim();
+    if (!value) return;
+
+    if (certifications.some((item) => item.toLowerCase() === value.toLowerCase())) {
+      setError('That certification has already been added');
+      return;
+    }
+
+    setCertifications([...certifications, value]);
+    setCertificationInput('');
+    setError('');
+  };
+
+  const removeCertification = (value: string) => {
+    setCertifications(certifications.filter((item) => item !== value));
+  };
+
+  const handleUseCurrentLocation = async () => {
+    setLocating(true);
+    setError('');
+
+    const { location, error } = await getCurrentLocation();
+    setLocating(false);
+
+    if (!location) {
+      setError(error || 'Unable to get your current location');
+      return;
+    }
+
+    setBaseLatitude(location.coordinates.latitude.toFixed(6));
+    setBaseLongitude(location.coordinates.longitude.toFixed(6));
+    setBaseAddress(location.address);
+  };
+
+  const handleNext = () => {
+    const validationError = validateStep(step);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError('');
+    if (step < STEPS.length - 1) {
+      setStep(step + 1);
+    } else {
+      handleSubmit();
+    }
+  };
+
+  const handleBack = () => {
+    setError('');
+    setStep(step - 1);
+  };
+
+  const handleSubmit = async () => {
+    if (!profile) return;
+
+    setSubmitting(true);
+    setError('');
+
+    const { error } = await supabase.from('mechanics').insert({
+      user_id: profile.id,
+      business_name: businessName.trim(),
+      certifications,
+      years_experience: Number(yearsExperience),
+      service_radius: Number(serviceRadius),
+      current_latitude: Number(baseLatitude),
+      current_longitude: Number(baseLongitude),
+      is_available: true,
+      time_zone: deviceTimeZone(),
+    });
+
+    if (error) {
+      setSubmitting(false);
+      setError(error.message);
+      return;
+    }
+
+    await refreshMechanic();
+    setSubmitting(false);
+    router.replace('/(tabs)');
+  };
+
+  const renderStep = () => {
+    if (step === 0) {
+      return (
+        <>
+          <View style={styles.sectionHeader}>
+            <Briefcase size={20} color="#2563eb" />
+            <Text style={styles.label}>Business name</Text>
+          </View>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., Rapid Roadside Repairs"
+            value={businessName}
+            onChangeText={setBusinessName}
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.label}>Years of experience</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., 5"
+            value={yearsExperience}
+            onChangeText={setYearsExperience}
+            keyboardType="numeric"
+            placeholderTextColor="#9ca3af"
+          />
+        </>
+      );
+    }
+
+    if (step === 1) {
+      return (
+        <>
+          <View style={styles.sectionHeader}>
+            <Award size={20} color="#2563eb" />
+            <Text style={styles.label}>Certifications (optional)</Text>
+          </View>
+          <View style={styles.inlineRow}>
+            <TextInput
+              style={[styles.input, styles.inlineInput]}
+              placeholder="e.g., ASE Certified"
+              value={certificationInput}
+              onChangeText={setCertificationInput}
+              onSubmitEditing={addCertification}
+              placeholderTextColor="#9ca3af"
+            />
+            <TouchableOpacity style={styles.addButton} onPress={addCertification}>
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.chips}>
+            {certifications.map((item) => (
+              <View key={item} style={styles.chip}>
+                <Text style={styles.chipText}>{item}</Text>
+                <TouchableOpacity onPress={() => removeCertification(item)}>
+                  <X size={14} color="#2563eb" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <Text style={styles.label}>Service radius (km)</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g., 10"
+          value={serviceRadius}
+          onChangeText={setServiceRadius}
+          keyboardType="numeric"
+          placeholderTextColor="#9ca3af"
+        />
+
+        <View style={styles.sectionHeader}>
+          <MapPin size={20} color="#2563eb" />
+          <Text style={styles.label}>Base location</Text>
+        </View>
+        <TouchableOpacity
+          style={styles.locationButton}
+          onPress={handleUseCurrentLocation}
+          disabled={locating}
+        >
+          {locating ? (
+            <ActivityIndicator color="#2563eb" />
+          ) : (
+            <>
+              <LocateFixed size={18} color="#2563eb" />
+              <Text style={styles.locationButtonText}>Use my current location</Text>
+            </>
+          )}
+        </TouchableOpacity>
+        {baseAddress ? <Text style={styles.hint}>{baseAddress}</Text> : null}
+        <TextInput
+          style={styles.input}
+          placeholder="Latitude (e.g., 40.7128)"
+          value={baseLatitude}
+          onChangeText={(value) => {
+            setBaseLatitude(value);
+            setBaseAddress('');
+          }}
+          keyboardType="numbers-and-punctuation"
+          placeholderTextColor="#9ca3af"
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Longitude (e.g., -74.0060)"
+          value={baseLongitude}
+          onChangeText={(value) => {
+            setBaseLongitude(value);
+            setBaseAddress('');
+          }}
+          keyboardType="numbers-and-punctuation"
+          placeholderTextColor="#9ca3af"
+        />
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.stepCount}>
+          Step {step + 1} of {STEPS.length}
+        </Text>
+        <Text style={styles.title}>{STEPS[step].title}</Text>
+        <Text style={styles.subtitle}>{STEPS[step].subtitle}</Text>
+        <View style={styles.progress}>
+          {STEPS.map((item, index) => (
+            <View
+              key={item.title}
+              style={[styles.progressSegment, index <= step && styles.progressSegmentActive]}
+            />
+          ))}
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+          {renderStep()}
+        </View>
+
+        <View style={styles.buttons}>
+          {step > 0 && (
+            <TouchableOpacity
+              style={[styles.button, styles.secondaryButton]}
+              onPress={handleBack}
+              disabled={submitting}
+            >
+              <Text style={styles.secondaryButtonText}>Back</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.button, submitting && styles.buttonDisabled]}
+            onPress={handleNext}
+            disabled={submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>
+                {step === STEPS.length - 1 ? 'Finish Setup' : 'Continue'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  stepCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563eb',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  progress: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  progressSegment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e5e7eb',
+  },
+  progressSegmentActive: {
+    backgroundColor: '#2563eb',
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    padding: 24,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inlineInput: {
+    flex: 1,
+  },
+  addButton: {
+    backgroundColor: '#eff6ff',
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  locationButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#eff6ff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  locationButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#eff6ff',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 24,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: '#2563eb',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  secondaryButtonText: {
+    color: '#1a1a1a',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  error: {
+    backgroundColor: '#fee',
+    color: '#c00',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+});
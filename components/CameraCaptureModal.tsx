@@ -0,0 +1,170 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ActivityIndicator } from 'react-native';
+import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
+import { LocalPhoto } from '@/lib/attachments';
+import { X, RefreshCw, Camera } from 'lucide-react-native';
+
+interface CameraCaptureModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onCapture: (photo: LocalPhoto) => void;
+}
+
+export default function CameraCaptureModal({ visible, onClose, onCapture }: CameraCaptureModalProps) {
+  const cameraRef = useRef<CameraView>(null);
+  const [permission, requestPermission] = useCameraPermissions();
+  const [facing, setFacing] = useState<CameraType>('back');
+  const [capturing, setCapturing] = useState(false);
+
+  const handleCapture = async () => {
+    if (!cameraRef.current || capturing) return;
+
+    setCapturing(true);
+    try {
+      const picture = await cameraRef.current.takePictureAsync({ quality: 1 });
+      if (picture) {
+        onCapture({ uri: picture.uri, width: picture.width, height: picture.height });
+        onClose();
+      }
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {!permission ? (
+          <ActivityIndicator size="large" color="#fff" />
+        ) : !permission.granted ? (
+          <View style={styles.permission}>
+            <Camera size={48} color="#fff" />
+            <Text style={styles.permissionText}>
+              Allow camera access to photograph your vehicle.
+            </Text>
+            {permission.canAskAgain ? (
+              <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+                <Text style={styles.permissionButtonText}>Allow Camera</Text>
+              </TouchableOpacity>
+            ) : (
+              <Text style={styles.permissionHint}>
+                Camera access is turned off. You can enable it in your device settings.
+              </Text>
+            )}
+          </View>
+        ) : (
+          <CameraView ref={cameraRef} style={styles.camera} facing={facing} />
+        )}
+
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <X size={28} color="#fff" />
+        </TouchableOpacity>
+
+        {permission?.granted && (
+          <View style={styles.controls}>
+            <View style={styles.controlSpacer} />
+            <TouchableOpacity
+              style={[styles.shutter, capturing && styles.shutterDisabled]}
+              onPress={handleCapture}
+              disabled={capturing}
+            >
+              <View style={styles.shutterInner} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.flipButton}
+              onPress={() => setFacing((current) => (current === 'back' ? 'front' : 'back'))}
+            >
+              <RefreshCw size={24} color="#fff" />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+    justifyContent: 'center',
+  },
+  camera: {
+    flex: 1,
+  },
+  permission: {
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  permissionText: {
+    fontSize: 16,
+    color: '#fff',
+    textAlign: 'center',
+  },
+  permissionHint: {
+    fontSize: 14,
+    color: '#9ca3af',
+    textAlign: 'center',
+  },
+  permissionButton: {
+    backgroundColor: '#2563eb',
+    borderRadius: 12,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  permissionButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 60,
+    left: 24,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  controls: {
+    position: 'absolute',
+    bottom: 48,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-around',
+  },
+  controlSpacer: {
+    width: 44,
+  },
+  shutter: {
+    width: 76,
+    height: 76,
+    borderRadius: 38,
+    borderWidth: 4,
+    borderColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  shutterDisabled: {
+    opacity: 0.5,
+  },
+  shutterInner: {
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    backgroundColor: '#fff',
+  },
+  flipButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
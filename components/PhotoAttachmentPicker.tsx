@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image, Alert, ActivityIndicator } from 'react-native';
+import { LocalPhoto, pickAttachmentPhotos } from '@/lib/attachments';
+import CameraCaptureModal from '@/components/CameraCaptureModal';
+import { Camera, ImagePlus, X } from 'lucide-react-native';
+
+interface PhotoThumbnail {
+  key: string;
+  uri: string;
+}
+
+interface PhotoAttachmentPickerProps {
+  photos: PhotoThumbnail[];
+  onAdd: (photos: LocalPhoto[]) => void;
+  /** Leave out to hide the remove buttons. */
+  onRemove?: (key: string) => void;
+  maxPhotos?: number;
+  busy?: boolean;
+}
+
+export default function PhotoAttachmentPicker({
+  photos,
+  onAdd,
+  onRemove,
+  maxPhotos,
+  busy = false,
+}: PhotoAttachmentPickerProps) {
+  const [cameraVisible, setCameraVisible] = useState(false);
+
+  const remaining = maxPhotos === undefined ? undefined : maxPhotos - photos.length;
+  const canAdd = !busy && (remaining === undefined || remaining > 0);
+
+  const handlePickFromLibrary = async () => {
+    const { photos: picked, error } = await pickAttachmentPhotos(remaining);
+    if (error) {
+      Alert.alert('Photos Unavailable', error);
+    } else if (picked.length > 0) {
+      onAdd(remaining === undefined ? picked : picked.slice(0, remaining));
+    }
+  };
+
+  return (
+    <View>
+      {photos.length > 0 && (
+        <View style={styles.thumbnails}>
+          {photos.map((photo) => (
+            <View key={photo.key}>
+              <Image source={{ uri: photo.uri }} style={styles.thumbnail} />
+              {onRemove && (
+                <TouchableOpacity style={styles.removeButton} onPress={() => onRemove(photo.key)}>
+                  <X size={14} color="#fff" />
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionButton, !canAdd && styles.actionButtonDisabled]}
+          onPress={() => setCameraVisible(true)}
+          disabled={!canAdd}
+        >
+          <Camera size={18} color="#2563eb" />
+          <Text style={styles.actionText}>Take Photo</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, !canAdd && styles.actionButtonDisabled]}
+          onPress={handlePickFromLibrary}
+          disabled={!canAdd}
+        >
+          <ImagePlus size={18} color="#2563eb" />
+          <Text style={styles.actionText}>From Library</Text>
+        </TouchableOpacity>
+        {busy && <ActivityIndicator color="#2563eb" />}
+      </View>
+
+      <CameraCaptureModal
+        visible={cameraVisible}
+        onClose={() => setCameraVisible(false)}
+        onCapture={(photo) => onAdd([photo])}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  thumbnails: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 12,
+  },
+  thumbnail: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    backgroundColor: '#e5e7eb',
+  },
+  removeButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: '#1a1a1a',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#eff6ff',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+});
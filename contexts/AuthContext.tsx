@@ -1,23 +1,42 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { getNotificationDelivery } from '@/lib/notifications';
 
 interface Profile {
   id: string;
   email: string;
   full_name: string;
   phone: string | null;
-  user_type: 'customer' | 'mechanic';
+  user_type: 'customer' | 'mechanic' | 'admin';
+}
+
+interface Mechanic {
+  id: string;
+  user_id: string;
+  business_name: string;
+  certifications: string[];
+  years_experience: number;
+  service_radius: number;
+  rating: number;
+  total_jobs: number;
+  is_available: boolean;
+  max_jobs_per_day: number | null;
+  time_zone: string;
+  current_latitude: number | null;
+  current_longitude: number | null;
 }
 
 interface AuthContextType {
   session: Session | null;
   user: User | null;
   profile: Profile | null;
+  mechanic: Mechanic | null;
   loading: boolean;
   signUp: (email: string, password: string, fullName: string, userType: 'customer' | 'mechanic') => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
+  refreshMechanic: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -26,6 +45,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [mechanic, setMechanic] = useState<Mechanic | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -47,6 +67,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           await loadProfile(session.user.id);
         } else {
           setProfile(null);
+          setMechanic(null);
           setLoading(false);
         }
       })();
@@ -64,10 +85,31 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     if (data) {
       setProfile(data);
+      if (data.user_type === 'mechanic') {
+        await loadMechanic(userId);
+      } else {
+        setMechanic(null);
+      }
     }
     setLoading(false);
   };
 
+  const loadMechanic = async (userId: string) => {
+    const { data } = await supabase
+      .from('mechanics')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    setMechanic(data ?? null);
+  };
+
+  const refreshMechanic = async () => {
+    if (user) {
+      await loadMechanic(user.id);
+    }
+  };
+
   const signUp = async (email: string, password: string, fullName: string, userType: 'customer' | 'mechanic') => {
     const { data, error } = await supabase.auth.signUp({
       email,
@@ -87,6 +129,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         });
 
       if (profileError) return { error: profileError };
+
+      await loadProfile(data.user.id);
     }
 
     return { error: null };
@@ -102,11 +146,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const signOut = async () => {
+    // Needs the session still, and a failure shouldn't keep the user signed in.
+    await getNotificationDelivery().unregister();
+    await supabase.removeAllChannels();
     await supabase.auth.signOut();
   };
 
   return (
-    <AuthContext.Provider value={{ session, user, profile, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider value={{ session, user, profile, mechanic, loading, signUp, signIn, signOut, refreshMechanic }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,106 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Platform } from 'react-native';
+import { useRouter } from 'expo-router';
+import * as Notifications from 'expo-notifications';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+import {
+  AppNotification,
+  deliverPendingNotifications,
+  fetchNotifications,
+  getNotificationDelivery,
+  markNotificationsRead,
+} from '@/lib/notifications';
+
+interface NotificationsContextType {
+  notifications: AppNotification[];
+  unreadCount: number;
+  /** Why device alerts could not be set up, e.g. permission was denied. */
+  deliveryError: string | null;
+  refresh: () => Promise<void>;
+  markRead: (ids?: string[]) => Promise<void>;
+}
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+export function NotificationsProvider({ children }: { children: React.ReactNode }) {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [deliveryError, setDeliveryError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!profile) {
+      setNotifications([]);
+      return;
+    }
+
+    const list = await fetchNotifications(profile.id);
+    setNotifications(list);
+    const { error } = await deliverPendingNotifications(list);
+    if (error) setDeliveryError(error);
+  }, [profile?.id]);
+
+  useEffect(() => {
+    if (profile) {
+      getNotificationDelivery()
+        .register()
+        .then(({ error }) => setDeliveryError(error))
+        .catch((error) => setDeliveryError(error?.message || 'Unable to set up notifications'));
+    }
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (Platform.OS === 'web') return;
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(() => {
+      router.push('/notifications');
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const handleNotificationChange = (payload: RealtimePostgresChangesPayload<AppNotification>) => {
+    if (payload.eventType !== 'INSERT') return;
+
+    setNotifications((current) => [payload.new, ...current]);
+    deliverPendingNotifications([payload.new]).then(({ error }) => {
+      if (error) setDeliveryError(error);
+    });
+  };
+
+  useRealtimeChanges<AppNotification>(
+    'notifications',
+    profile ? `user_id=eq.${profile.id}` : null,
+    handleNotificationChange
+  );
+
+  const markRead = async (ids?: string[]) => {
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((notification) =>
+        !notification.read_at && (!ids || ids.includes(notification.id))
+          ? { ...notification, read_at: readAt }
+          : notification
+      )
+    );
+    await markNotificationsRead(ids);
+  };
+
+  const unreadCount = notifications.filter((notification) => !notification.read_at).length;
+
+  return (
+    <NotificationsContext.Provider value={{ notifications, unreadCount, deliveryError, refresh, markRead }}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationsContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationsProvider');
+  }
+  return context;
+}
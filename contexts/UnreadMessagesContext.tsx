@@ -0,0 +1,48 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+import { fetchUnreadCounts, markMessagesRead } from '@/lib/messages';
+
+interface UnreadMessagesContextType {
+  unreadCounts: Record<string, number>;
+  totalUnread: number;
+  markBookingRead: (bookingId: string) => Promise<void>;
+}
+
+const UnreadMessagesContext = createContext<UnreadMessagesContextType | undefined>(undefined);
+
+export function UnreadMessagesProvider({ children }: { children: React.ReactNode }) {
+  const { profile } = useAuth();
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+
+  const refresh = useCallback(async () => {
+    setUnreadCounts(profile ? await fetchUnreadCounts(profile.id) : {});
+  }, [profile?.id]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useRealtimeChanges('booking_messages', profile ? `recipient_id=eq.${profile.id}` : null, refresh);
+
+  const markBookingRead = async (bookingId: string) => {
+    setUnreadCounts(({ [bookingId]: _, ...rest }) => rest);
+    await markMessagesRead(bookingId);
+  };
+
+  const totalUnread = Object.values(unreadCounts).reduce((total, count) => total + count, 0);
+
+  return (
+    <UnreadMessagesContext.Provider value={{ unreadCounts, totalUnread, markBookingRead }}>
+      {children}
+    </UnreadMessagesContext.Provider>
+  );
+}
+
+export function useUnreadMessages() {
+  const context = useContext(UnreadMessagesContext);
+  if (context === undefined) {
+    throw new Error('useUnreadMessages must be used within an UnreadMessagesProvider');
+  }
+  return context;
+}
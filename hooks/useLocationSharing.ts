@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { Coordinates, watchCoordinates } from '@/lib/location';
+import { TRACKING_DISTANCE_METERS, TRACKING_INTERVAL_MS, recordLocation } from '@/lib/tracking';
+
+/**
+ * Sends the mechanic's position while `active` is true, which callers set
+ * when they have a tracked job. Sending also stops once the server reports
+ * no tracked jobs left, e.g. when a job is completed from another device.
+ * `error` says why the customer can't see the position, so callers can tell
+ * the mechanic.
+ */
+export function useLocationSharing(active: boolean) {
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (!active) return;
+
+    let stopped = false;
+    let subscription: { remove(): void } | null = null;
+
+    const stop = () => {
+      stopped = true;
+      subscription?.remove();
+      subscription = null;
+    };
+
+    const send = async (coordinates: Coordinates, accuracy: number | null) => {
+      if (stopped) return;
+
+      const { tracked, error } = await recordLocation(coordinates, accuracy);
+      if (stopped) return;
+
+      setError(error);
+      if (!error && tracked === 0) {
+        stop();
+      }
+    };
+
+    watchCoordinates(TRACKING_INTERVAL_MS, TRACKING_DISTANCE_METERS, send)
+      .then((result) => {
+        if (stopped) {
+          result.subscription?.remove();
+          return;
+        }
+
+        subscription = result.subscription;
+        if (result.error) {
+          setError(result.error);
+        }
+      })
+      .catch((error) => {
+        if (!stopped) {
+          setError(error?.message || 'Unable to share your location');
+        }
+      });
+
+    return stop;
+  }, [active]);
+
+  return { error };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+
+type Row = { [key: string]: any };
+
+let nextInstanceId = 0;
+
+/**
+ * Subscribes to inserts, updates and deletes on `table` that match `filter`
+ * (a Realtime filter such as `customer_id=eq.<id>`). Pass a null filter to
+ * stay unsubscribed. The channel is removed on unmount or when the filter
+ * changes; AuthContext.signOut removes any channels still open.
+ *
+ * Each hook gets its own channel: `supabase.channel()` returns the existing
+ * channel for a topic, so two screens on the same table and filter would
+ * otherwise share one and the first to unmount would close it for both.
+ */
+export function useRealtimeChanges<T extends Row>(
+  table: string,
+  filter: string | null,
+  onChange: (payload: RealtimePostgresChangesPayload<T>) => void
+) {
+  const handlerRef = useRef(onChange);
+  handlerRef.current = onChange;
+  const instanceId = useRef(++nextInstanceId);
+
+  useEffect(() => {
+    if (!filter) return;
+
+    const channel = supabase
+      .channel(`${table}:${filter}:${instanceId.current}`)
+      .on<T>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter },
+        (payload) => handlerRef.current(payload)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, filter]);
+}
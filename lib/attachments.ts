@@ -0,0 +1,194 @@
+import * as ImagePicker from 'expo-image-picker';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { supabase } from '@/lib/supabase';
+
+export type AttachmentKind = 'issue' | 'before' | 'after';
+
+export interface BookingAttachment {
+  id: string;
+  booking_id: string;
+  uploaded_by: string;
+  kind: AttachmentKind;
+  storage_path: string;
+  created_at: string;
+}
+
+/** A photo taken or picked on the device that has not been uploaded yet. */
+export interface LocalPhoto {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+export const ATTACHMENT_BUCKET = 'booking-attachments';
+export const MAX_ATTACHMENTS_PER_UPLOAD = 6;
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+  issue: 'Problem photos',
+  before: 'Before',
+  after: 'After',
+};
+
+/** Photos are scaled down so their longest side is at most this many pixels. */
+const MAX_PHOTO_DIMENSION = 1600;
+const PHOTO_QUALITY = 0.7;
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export async function fetchAttachments(bookingId: string): Promise<BookingAttachment[]> {
+  const { data } = await supabase
+    .from('booking_attachments')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: true });
+
+  return data ?? [];
+}
+
+export async function pickAttachmentPhotos(
+  limit = MAX_ATTACHMENTS_PER_UPLOAD
+): Promise<{ photos: LocalPhoto[]; error: string | null }> {
+  const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (status !== 'granted') {
+    return { photos: [], error: 'Photo library permission was denied' };
+  }
+
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    allowsMultipleSelection: true,
+    selectionLimit: limit,
+    quality: 1,
+  });
+
+  if (result.canceled) {
+    return { photos: [], error: null };
+  }
+
+  return {
+    photos: result.assets.map(({ uri, width, height }) => ({ uri, width, height })),
+    error: null,
+  };
+}
+
+/** Scales the photo down to MAX_PHOTO_DIMENSION and re-encodes it as JPEG. */
+export async function compressPhoto(photo: LocalPhoto): Promise<string> {
+  const context = ImageManipulator.manipulate(photo.uri);
+
+  const longestSide = Math.max(photo.width, photo.height);
+  if (longestSide > MAX_PHOTO_DIMENSION) {
+    context.resize(
+      photo.width >= photo.height
+        ? { width: MAX_PHOTO_DIMENSION, height: null }
+        : { width: null, height: MAX_PHOTO_DIMENSION }
+    );
+  }
+
+  const image = await context.renderAsync();
+  const { uri } = await image.saveAsync({ compress: PHOTO_QUALITY, format: SaveFormat.JPEG });
+  return uri;
+}
+
+/**
+ * Compresses a photo and stores it in the attachments bucket under the
+ * booking's folder; `prefix` starts the file name.
+ */
+export async function uploadBookingPhoto(
+  bookingId: string,
+  prefix: string,
+  photo: LocalPhoto
+): Promise<{ path: string | null; error: string | null }> {
+  try {
+    const uri = await compressPhoto(photo);
+    const path = `${bookingId}/${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.jpg`;
+
+    const response = await fetch(uri);
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(path, await response.arrayBuffer(), { contentType: 'image/jpeg' });
+
+    return error ? { path: null, error: error.message } : { path, error: null };
+  } catch (error: any) {
+    return { path: null, error: error?.message || 'Unable to upload photo' };
+  }
+}
+
+export async function uploadAttachment(
+  bookingId: string,
+  kind: AttachmentKind,
+  photo: LocalPhoto
+): Promise<{ attachment: BookingAttachment | null; error: string | null }> {
+  const { path, error: uploadError } = await uploadBookingPhoto(bookingId, kind, photo);
+  if (!path) {
+    return { attachment: null, error: uploadError };
+  }
+
+  const { data, error } = await supabase
+    .from('booking_attachments')
+    .insert({ booking_id: bookingId, kind, storage_path: path })
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.storage.from(ATTACHMENT_BUCKET).remove([path]);
+    return { attachment: null, error: error.message };
+  }
+
+  return { attachment: data, error: null };
+}
+
+/** Uploads photos one at a time; returns the ones that made it and the first error. */
+export async function uploadAttachments(
+  bookingId: string,
+  kind: AttachmentKind,
+  photos: LocalPhoto[]
+): Promise<{ attachments: BookingAttachment[]; error: string | null }> {
+  const attachments: BookingAttachment[] = [];
+  let firstError: string | null = null;
+
+  for (const photo of photos) {
+    const { attachment, error } = await uploadAttachment(bookingId, kind, photo);
+    if (attachment) {
+      attachments.push(attachment);
+    } else if (!firstError) {
+      firstError = error;
+    }
+  }
+
+  return { attachments, error: firstError };
+}
+
+export async function deleteAttachment(attachment: BookingAttachment) {
+  const { error } = await supabase
+    .from('booking_attachments')
+    .delete()
+    .eq('id', attachment.id);
+
+  if (!error) {
+    await removeBookingPhoto(attachment.storage_path);
+  }
+
+  return { error };
+}
+
+export async function removeBookingPhoto(path: string) {
+  const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove([path]);
+  return { error };
+}
+
+/** Signed URLs for photos in the attachments bucket, keyed by path. */
+export async function getPhotoUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+
+  const { data } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  return Object.fromEntries(
+    (data ?? [])
+      .filter((item) => item.path && item.signedUrl)
+      .map((item) => [item.path as string, item.signedUrl])
+  );
+}
+
+export function getAttachmentUrls(attachments: BookingAttachment[]) {
+  return getPhotoUrls(attachments.map((attachment) => attachment.storage_path));
+}
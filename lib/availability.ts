@@ -0,0 +1,192 @@
+import { supabase } from '@/lib/supabase';
+import { WorkingWindow, toWorkingWindows } from '@/lib/scheduling';
+
+export interface WorkingDay {
+  weekday: number;
+  /** `HH:MM:SS` in the mechanic's time zone. */
+  start_time: string;
+  end_time: string;
+}
+
+export interface TimeOff {
+  id: string;
+  mechanic_id: string;
+  starts_at: string;
+  ends_at: string;
+  reason: string | null;
+}
+
+export interface DayScheduleInput {
+  weekday: number;
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+/** Indexed like `Date.getDay()`: 0 is Sunday. */
+export const WEEKDAY_LABELS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+export const DEFAULT_DAY_HOURS = { start: '08:00', end: '18:00' };
+
+export function deviceTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Minutes after midnight for `H:MM` or `HH:MM`, or null if it isn't a time of day. */
+export function parseTimeOfDay(text: string) {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(text.trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) return null;
+
+  return hours * 60 + minutes;
+}
+
+export function toScheduleInput(days: WorkingDay[]): DayScheduleInput[] {
+  return WEEKDAY_LABELS.map((_, weekday) => {
+    const day = days.find((item) => item.weekday === weekday);
+    return {
+      weekday,
+      enabled: !!day,
+      start: day ? day.start_time.slice(0, 5) : DEFAULT_DAY_HOURS.start,
+      end: day ? day.end_time.slice(0, 5) : DEFAULT_DAY_HOURS.end,
+    };
+  });
+}
+
+export function validateSchedule(days: DayScheduleInput[], maxJobsPerDay: string) {
+  for (const day of days.filter((item) => item.enabled)) {
+    const start = parseTimeOfDay(day.start);
+    const end = parseTimeOfDay(day.end);
+    if (start === null || end === null) {
+      return `Enter ${WEEKDAY_LABELS[day.weekday]} hours as HH:MM, e.g. 08:00`;
+    }
+    if (start >= end) {
+      return `${WEEKDAY_LABELS[day.weekday]} must end after it starts`;
+    }
+  }
+
+  if (maxJobsPerDay.trim()) {
+    const limit = Number(maxJobsPerDay);
+    if (!Number.isInteger(limit) || limit <= 0) {
+      return 'Jobs per day must be a whole number above zero';
+    }
+  }
+
+  return '';
+}
+
+export async function fetchWorkingHours(mechanicId: string): Promise<WorkingDay[]> {
+  const { data } = await supabase
+    .from('mechanic_working_hours')
+    .select('weekday, start_time, end_time')
+    .eq('mechanic_id', mechanicId)
+    .order('weekday', { ascending: true });
+
+  return data ?? [];
+}
+
+/**
+ * Saves the weekly hours and daily job limit. Hours are stored in the
+ * device's time zone, which is where the mechanic is setting them.
+ */
+export async function saveSchedule(
+  mechanicId: string,
+  days: DayScheduleInput[],
+  maxJobsPerDay: string
+) {
+  const enabled = days.filter((day) => day.enabled);
+  const disabled = days.filter((day) => !day.enabled).map((day) => day.weekday);
+
+  if (enabled.length > 0) {
+    const { error } = await supabase.from('mechanic_working_hours').upsert(
+      enabled.map((day) => ({
+        mechanic_id: mechanicId,
+        weekday: day.weekday,
+        start_time: day.start.trim(),
+        end_time: day.end.trim(),
+      }))
+    );
+    if (error) return { error: error.message };
+  }
+
+  if (disabled.length > 0) {
+    const { error } = await supabase
+      .from('mechanic_working_hours')
+      .delete()
+      .eq('mechanic_id', mechanicId)
+      .in('weekday', disabled);
+    if (error) return { error: error.message };
+  }
+
+  const { error } = await supabase
+    .from('mechanics')
+    .update({
+      max_jobs_per_day: maxJobsPerDay.trim() ? Number(maxJobsPerDay) : null,
+      time_zone: deviceTimeZone(),
+    })
+    .eq('id', mechanicId);
+
+  return { error: error?.message ?? null };
+}
+
+export async function fetchTimeOff(mechanicId: string): Promise<TimeOff[]> {
+  const { data } = await supabase
+    .from('mechanic_time_off')
+    .select('*')
+    .eq('mechanic_id', mechanicId)
+    .gt('ends_at', new Date().toISOString())
+    .order('starts_at', { ascending: true });
+
+  return data ?? [];
+}
+
+export async function addTimeOff(mechanicId: string, start: Date, end: Date, reason: string) {
+  const { error } = await supabase.from('mechanic_time_off').insert({
+    mechanic_id: mechanicId,
+    starts_at: start.toISOString(),
+    ends_at: end.toISOString(),
+    reason: reason.trim() || null,
+  });
+
+  return { error: error?.message ?? null };
+}
+
+export async function removeTimeOff(timeOffId: string) {
+  const { error } = await supabase.from('mechanic_time_off').delete().eq('id', timeOffId);
+  return { error: error?.message ?? null };
+}
+
+/** Going offline hides the mechanic from matching and stops new bookings. */
+export async function setOnline(mechanicId: string, online: boolean) {
+  const { error } = await supabase
+    .from('mechanics')
+    .update({ is_available: online })
+    .eq('id', mechanicId);
+
+  return { error: error?.message ?? null };
+}
+
+export async function fetchWorkingWindows(
+  mechanicId: string,
+  from: Date,
+  to: Date
+): Promise<WorkingWindow[]> {
+  const { data } = await supabase.rpc('get_mechanic_working_windows', {
+    p_mechanic_id: mechanicId,
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+  });
+
+  return data ? toWorkingWindows(data) : [];
+}
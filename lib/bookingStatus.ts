@@ -0,0 +1,68 @@
+import { supabase } from '@/lib/supabase';
+import { syncBookingPayment } from '@/lib/payments';
+
+export type BookingStatus = 'pending' | 'accepted' | 'in_progress' | 'completed' | 'cancelled';
+
+export type BookingActor = 'customer' | 'mechanic' | 'system';
+
+export interface BookingTransition {
+  from: BookingStatus;
+  to: BookingStatus;
+  actors: BookingActor[];
+}
+
+/**
+ * Every status change a booking may go through and who may make it.
+ * The `booking_status_transitions` table seeded in
+ * supabase/migrations/20260219110000_booking_status_state_machine.sql holds
+ * the same rows and is what the database trigger enforces; keep them in sync.
+ */
+export const BOOKING_TRANSITIONS: BookingTransition[] = [
+  { from: 'pending', to: 'accepted', actors: ['mechanic'] },
+  { from: 'pending', to: 'cancelled', actors: ['customer', 'mechanic', 'system'] },
+  { from: 'accepted', to: 'in_progress', actors: ['mechanic'] },
+  { from: 'accepted', to: 'cancelled', actors: ['customer', 'mechanic', 'system'] },
+  { from: 'in_progress', to: 'completed', actors: ['mechanic'] },
+];
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = ['pending', 'accepted', 'in_progress'];
+
+export function canTransition(from: string, to: string, actor: BookingActor) {
+  return BOOKING_TRANSITIONS.some(
+    (transition) =>
+      transition.from === from && transition.to === to && transition.actors.includes(actor)
+  );
+}
+
+export function getAvailableTransitions(from: string, actor: BookingActor) {
+  return BOOKING_TRANSITIONS.filter(
+    (transition) => transition.from === from && transition.actors.includes(actor)
+  ).map((transition) => transition.to);
+}
+
+/**
+ * Changes the booking status, then settles its payment for the new status.
+ * A payment problem doesn't undo the transition; it is returned separately.
+ */
+export async function transitionBooking(bookingId: string, status: BookingStatus, reason?: string) {
+  const { error } = await supabase.rpc('transition_booking', {
+    p_booking_id: bookingId,
+    p_status: status,
+    p_reason: reason ?? null,
+  });
+
+  if (error) {
+    return { error, paymentError: null };
+  }
+
+  const { error: paymentError } = await syncBookingPayment(bookingId);
+  return { error: null, paymentError };
+}
@@ -0,0 +1,79 @@
+import { supabase } from '@/lib/supabase';
+
+export interface CancellationPolicy {
+  free_window_hours: number;
+  late_fee_percent: number;
+  en_route_fee_percent: number;
+}
+
+export interface CancellableBooking {
+  status: string;
+  mechanic_id: string | null;
+  scheduled_time: string;
+  total_price: number;
+  en_route_at: string | null;
+}
+
+export type CancellationFeeReason = 'free' | 'late' | 'en_route';
+
+export const CANCELLABLE_STATUSES = ['pending', 'accepted'];
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  free_window_hours: 24,
+  late_fee_percent: 25,
+  en_route_fee_percent: 50,
+};
+
+/**
+ * Loads the policy row the database uses to charge cancellation fees, so the
+ * fee shown to the customer matches what `calculate_cancellation_fee` stores.
+ */
+export async function fetchCancellationPolicy(): Promise<CancellationPolicy> {
+  const { data } = await supabase
+    .from('cancellation_policy')
+    .select('free_window_hours, late_fee_percent, en_route_fee_percent')
+    .maybeSingle();
+
+  return data ?? DEFAULT_CANCELLATION_POLICY;
+}
+
+export function isCancellable(status: string) {
+  return CANCELLABLE_STATUSES.includes(status);
+}
+
+export function calculateCancellationFee(
+  booking: CancellableBooking,
+  policy: CancellationPolicy,
+  now: Date = new Date()
+): { fee: number; percent: number; reason: CancellationFeeReason } {
+  let percent = 0;
+  let reason: CancellationFeeReason = 'free';
+
+  // Emergency requests are free to cancel until a mechanic takes them.
+  if (!booking.mechanic_id) {
+    return { fee: 0, percent, reason };
+  }
+
+  if (booking.en_route_at) {
+    percent = policy.en_route_fee_percent;
+    reason = 'en_route';
+  } else {
+    const hoursUntilService =
+      (new Date(booking.scheduled_time).getTime() - now.getTime()) / (60 * 60 * 1000);
+    if (hoursUntilService < policy.free_window_hours) {
+      percent = policy.late_fee_percent;
+      reason = 'late';
+    }
+  }
+
+  const fee = Math.round(booking.total_price * percent) / 100;
+  return { fee, percent, reason };
+}
+
+export function describeCancellationPolicy(policy: CancellationPolicy) {
+  return (
+    `Free cancellation up to ${policy.free_window_hours} hours before your appointment. ` +
+    `After that a ${policy.late_fee_percent}% fee applies, rising to ` +
+    `${policy.en_route_fee_percent}% once your mechanic is on the way.`
+  );
+}
@@ -0,0 +1,88 @@
+import { supabase } from '@/lib/supabase';
+import { syncBookingPayment } from '@/lib/payments';
+
+export type DispatchStatus = 'searching' | 'assigned' | 'exhausted';
+
+export interface DispatchOffer {
+  booking_id: string;
+  mechanic_id: string;
+  wave: number;
+  distance_km: number;
+  offered_at: string;
+  declined_at: string | null;
+  closed_at: string | null;
+}
+
+export interface OfferedBooking extends DispatchOffer {
+  booking: {
+    id: string;
+    vehicle_make: string;
+    vehicle_model: string;
+    vehicle_year: number;
+    location_address: string;
+    total_price: number;
+    notes: string;
+    service: { name: string } | null;
+  } | null;
+}
+
+/** Search radius of each wave, as in `dispatch_next_wave`. */
+export const DISPATCH_WAVE_RADII_KM = [5, 15, 40];
+
+export const DISPATCH_STATUS_LABELS: Record<DispatchStatus, string> = {
+  searching: 'Finding a mechanic',
+  assigned: 'Mechanic assigned',
+  exhausted: 'No mechanic available',
+};
+
+/** Only emergency services are dispatched; everything else is booked with a chosen mechanic. */
+export function isDispatchService(service: { category: string } | null | undefined) {
+  return service?.category === 'emergency';
+}
+
+/** Offers the mechanic can still answer, newest first. */
+export async function fetchOpenOffers(mechanicId: string): Promise<OfferedBooking[]> {
+  const { data } = await supabase
+    .from('dispatch_offers')
+    .select(
+      '*, booking:bookings(id, vehicle_make, vehicle_model, vehicle_year, location_address, total_price, notes, service:services(name))'
+    )
+    .eq('mechanic_id', mechanicId)
+    .is('declined_at', null)
+    .is('closed_at', null)
+    .order('offered_at', { ascending: false });
+
+  return (data as unknown as OfferedBooking[] | null) ?? [];
+}
+
+/**
+ * Takes the job if nobody else has yet, then authorizes the customer's
+ * payment as an accepted booking would. A payment problem doesn't undo
+ * the claim; it is returned separately.
+ */
+export async function claimDispatch(bookingId: string) {
+  const { error } = await supabase.rpc('claim_dispatch', { p_booking_id: bookingId });
+
+  if (error) {
+    return { error: error.message, paymentError: null };
+  }
+
+  const { error: paymentError } = await syncBookingPayment(bookingId);
+  return { error: null, paymentError };
+}
+
+export async function declineDispatch(bookingId: string) {
+  const { error } = await supabase.rpc('decline_dispatch', { p_booking_id: bookingId });
+  return { error: error?.message ?? null };
+}
+
+/** Widens the search if the current wave has gone unanswered for a minute. */
+export async function advanceDispatch(bookingId: string) {
+  const { error } = await supabase.rpc('advance_dispatch', { p_booking_id: bookingId });
+  return { error: error?.message ?? null };
+}
+
+export async function restartDispatch(bookingId: string) {
+  const { error } = await supabase.rpc('restart_dispatch', { p_booking_id: bookingId });
+  return { error: error?.message ?? null };
+}
@@ -0,0 +1,143 @@
+import { supabase } from '@/lib/supabase';
+import { LocalPhoto, uploadBookingPhoto } from '@/lib/attachments';
+
+export type InspectionStatus = 'pass' | 'attention' | 'fail';
+
+export interface InspectionTemplateItem {
+  id: string;
+  service_id: string;
+  position: number;
+  label: string;
+  unit: string | null;
+  follow_up_service_id: string | null;
+}
+
+export interface InspectionResult {
+  report_id: string;
+  item_id: string;
+  status: InspectionStatus;
+  measurement: number | null;
+  photo_path: string | null;
+}
+
+export interface InspectionReport {
+  id: string;
+  booking_id: string;
+  summary: string;
+  submitted_at: string | null;
+  results: InspectionResult[];
+}
+
+export interface FollowUpService {
+  id: string;
+  name: string;
+  base_price: number;
+  /** Checklist items that led to the recommendation. */
+  reasons: string[];
+}
+
+export const INSPECTION_STATUSES: InspectionStatus[] = ['pass', 'attention', 'fail'];
+
+export const INSPECTION_STATUS_LABELS: Record<InspectionStatus, string> = {
+  pass: 'Pass',
+  attention: 'Attention',
+  fail: 'Fail',
+};
+
+export function isInspectionService(category: string | null | undefined) {
+  return category === 'inspection';
+}
+
+export async function fetchInspectionTemplate(
+  serviceId: string
+): Promise<InspectionTemplateItem[]> {
+  const { data } = await supabase
+    .from('inspection_template_items')
+    .select('*')
+    .eq('service_id', serviceId)
+    .order('position', { ascending: true });
+
+  return data ?? [];
+}
+
+/** The booking's report, or null if none was started (or, for customers, shared). */
+export async function fetchInspectionReport(bookingId: string): Promise<InspectionReport | null> {
+  const { data } = await supabase
+    .from('inspection_reports')
+    .select('id, booking_id, summary, submitted_at, results:inspection_results(*)')
+    .eq('booking_id', bookingId)
+    .maybeSingle();
+
+  return data;
+}
+
+export async function startInspectionReport(
+  bookingId: string
+): Promise<{ report: InspectionReport | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from('inspection_reports')
+    .insert({ booking_id: bookingId })
+    .select('id, booking_id, summary, submitted_at, results:inspection_results(*)')
+    .single();
+
+  return { report: data, error: error?.message ?? null };
+}
+
+export async function saveInspectionResult(
+  result: Omit<InspectionResult, 'photo_path'> & { photo_path?: string | null }
+) {
+  const { error } = await supabase
+    .from('inspection_results')
+    .upsert({ ...result, updated_at: new Date().toISOString() });
+
+  return { error: error?.message ?? null };
+}
+
+export async function uploadInspectionPhoto(bookingId: string, photo: LocalPhoto) {
+  return uploadBookingPhoto(bookingId, 'inspection', photo);
+}
+
+export async function submitInspectionReport(reportId: string, summary: string) {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('inspection_reports')
+    .update({ summary: summary.trim(), submitted_at: now, updated_at: now })
+    .eq('id', reportId);
+
+  return { error: error?.message ?? null };
+}
+
+/**
+ * Follow-up services recommended by the items rated attention or fail,
+ * most urgent first.
+ */
+export async function fetchFollowUpServices(
+  items: InspectionTemplateItem[],
+  results: InspectionResult[]
+): Promise<FollowUpService[]> {
+  const reasons = new Map<string, { labels: string[]; failed: boolean }>();
+
+  for (const item of items) {
+    const result = results.find((entry) => entry.item_id === item.id);
+    if (!item.follow_up_service_id || !result || result.status === 'pass') continue;
+
+    const entry = reasons.get(item.follow_up_service_id) ?? { labels: [], failed: false };
+    entry.labels.push(item.label);
+    entry.failed = entry.failed || result.status === 'fail';
+    reasons.set(item.follow_up_service_id, entry);
+  }
+
+  if (reasons.size === 0) return [];
+
+  const { data } = await supabase
+    .from('services')
+    .select('id, name, base_price')
+    .in('id', [...reasons.keys()])
+    .eq('is_active', true);
+
+  return (data ?? [])
+    .map((service) => ({ ...service, reasons: reasons.get(service.id)!.labels }))
+    .sort(
+      (a, b) => Number(reasons.get(b.id)!.failed) - Number(reasons.get(a.id)!.failed)
+    );
+}
@@ -0,0 +1,206 @@
+import { Platform } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { supabase } from '@/lib/supabase';
+import { LineItem, describeLineItem, formatCurrency, summarizeLineItems } from '@/lib/pricing';
+
+export interface InvoiceSnapshot {
+  business_name: string;
+  customer_name: string;
+  customer_email: string;
+  service_name: string | null;
+  vehicle: {
+    make: string;
+    model: string;
+    year: number;
+    vin: string | null;
+    license_plate: string | null;
+    mileage: number | null;
+  };
+  location_address: string;
+  scheduled_time: string;
+  total_price: number;
+  line_items: LineItem[];
+}
+
+export interface Invoice {
+  id: string;
+  booking_id: string;
+  invoice_number: number;
+  total: number;
+  issued_at: string;
+  snapshot: InvoiceSnapshot;
+}
+
+/** Mechanics file it as an invoice; customers keep it as a receipt. */
+export type InvoiceAudience = 'mechanic' | 'customer';
+
+export async function fetchInvoice(bookingId: string): Promise<Invoice | null> {
+  const { data } = await supabase
+    .from('invoices')
+    .select('id, booking_id, invoice_number, total, issued_at, snapshot')
+    .eq('booking_id', bookingId)
+    .maybeSingle();
+
+  return data;
+}
+
+export function formatInvoiceNumber(invoiceNumber: number) {
+  return `INV-${String(invoiceNumber).padStart(5, '0')}`;
+}
+
+export function invoiceTitle(audience: InvoiceAudience) {
+  return audience === 'mechanic' ? 'Invoice' : 'Receipt';
+}
+
+/** Older bookings were priced before line items existed; show them as one line. */
+export function invoiceLineItems(snapshot: InvoiceSnapshot): LineItem[] {
+  if (snapshot.line_items.length > 0) {
+    return snapshot.line_items;
+  }
+
+  return [
+    {
+      kind: 'labor',
+      description: snapshot.service_name ?? 'Service',
+      quantity: 1,
+      unit_price: snapshot.total_price,
+      amount: snapshot.total_price,
+    },
+  ];
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+export function renderInvoiceHtml(invoice: Invoice, audience: InvoiceAudience) {
+  const { snapshot } = invoice;
+  const lineItems = invoiceLineItems(snapshot);
+  const { subtotal, tax } = summarizeLineItems(lineItems);
+  const title = invoiceTitle(audience);
+  const vehicle = snapshot.vehicle;
+  const vehicleDetails = [
+    vehicle.vin ? `VIN ${vehicle.vin}` : null,
+    vehicle.license_plate ? `Plate ${vehicle.license_plate}` : null,
+    vehicle.mileage !== null ? `${vehicle.mileage.toLocaleString('en-US')} km` : null,
+  ].filter(Boolean);
+
+  const rows = lineItems
+    .map(
+      (item) => `
+        <tr>
+          <td>${escapeHtml(describeLineItem(item))}</td>
+          <td class="amount">${formatCurrency(Number(item.amount))}</td>
+        </tr>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${title} ${formatInvoiceNumber(invoice.invoice_number)}</title>
+    <style>
+      body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1a1a1a; padding: 32px; }
+      h1 { font-size: 28px; margin: 0 0 4px; }
+      .muted { color: #6b7280; font-size: 14px; }
+      .header { display: flex; justify-content: space-between; margin-bottom: 32px; }
+      .parties { display: flex; gap: 48px; margin-bottom: 24px; }
+      .label { font-size: 12px; font-weight: 600; color: #6b7280; text-transform: uppercase; margin-bottom: 4px; }
+      table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+      td { padding: 10px 0; border-bottom: 1px solid #e5e7eb; font-size: 14px; }
+      .amount { text-align: right; white-space: nowrap; }
+      .summary td { border-bottom: none; padding: 4px 0; }
+      .total td { font-size: 18px; font-weight: 700; border-top: 2px solid #1a1a1a; padding-top: 12px; }
+    </style>
+  </head>
+  <body>
+    <div class="header">
+      <div>
+        <h1>${escapeHtml(snapshot.business_name)}</h1>
+        <div class="muted">${title} ${formatInvoiceNumber(invoice.invoice_number)}</div>
+      </div>
+      <div class="muted">Issued ${formatDate(invoice.issued_at)}</div>
+    </div>
+
+    <div class="parties">
+      <div>
+        <div class="label">Billed to</div>
+        <div>${escapeHtml(snapshot.customer_name)}</div>
+        <div class="muted">${escapeHtml(snapshot.customer_email)}</div>
+      </div>
+      <div>
+        <div class="label">Vehicle</div>
+        <div>${escapeHtml(`${vehicle.year} ${vehicle.make} ${vehicle.model}`)}</div>
+        <div class="muted">${escapeHtml(vehicleDetails.join(' · '))}</div>
+      </div>
+      <div>
+        <div class="label">Service</div>
+        <div>${escapeHtml(snapshot.service_name ?? 'Service')}</div>
+        <div class="muted">${formatDate(snapshot.scheduled_time)}</div>
+        <div class="muted">${escapeHtml(snapshot.location_address)}</div>
+      </div>
+    </div>
+
+    <table>
+      ${rows}
+      <tr class="summary"><td>Subtotal</td><td class="amount">${formatCurrency(subtotal)}</td></tr>
+      <tr class="summary"><td>Tax</td><td class="amount">${formatCurrency(tax)}</td></tr>
+      <tr class="total"><td>Total</td><td class="amount">${formatCurrency(Number(invoice.total))}</td></tr>
+    </table>
+  </body>
+</html>`;
+}
+
+/**
+ * Renders the invoice to a PDF and opens the share sheet. On web, where
+ * files can't be shared, the browser print dialog handles "save as PDF".
+ */
+export async function shareInvoice(
+  invoice: Invoice,
+  audience: InvoiceAudience
+): Promise<{ error: string | null }> {
+  const html = renderInvoiceHtml(invoice, audience);
+
+  try {
+    if (Platform.OS === 'web' || !(await Sharing.isAvailableAsync())) {
+      await Print.printAsync({ html });
+      return { error: null };
+    }
+
+    const { uri } = await Print.printToFileAsync({ html });
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle: `${invoiceTitle(audience)} ${formatInvoiceNumber(invoice.invoice_number)}`,
+    });
+    return { error: null };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Could not share this invoice' };
+  }
+}
+
+export async function printInvoice(
+  invoice: Invoice,
+  audience: InvoiceAudience
+): Promise<{ error: string | null }> {
+  try {
+    await Print.printAsync({ html: renderInvoiceHtml(invoice, audience) });
+    return { error: null };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Could not print this invoice' };
+  }
+}
@@ -0,0 +1,34 @@
+import { Coordinates } from './types';
+
+const EARTH_RADIUS_KM = 6371;
+
+export const AVERAGE_TRAVEL_SPEED_KMH = 35;
+export const MIN_TRAVEL_MINUTES = 5;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function distanceKm(from: Coordinates, to: Coordinates) {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return EARTH_RADIUS_KM * 2 * Math.asin(Math.sqrt(a));
+}
+
+export function estimateTravelMinutes(distance: number) {
+  return Math.max(MIN_TRAVEL_MINUTES, Math.round((distance / AVERAGE_TRAVEL_SPEED_KMH) * 60));
+}
+
+export function formatDistance(distance: number) {
+  if (distance < 1) return `${Math.round(distance * 1000)} m`;
+  return `${distance.toFixed(1)} km`;
+}
+
+export function formatTravelTime(minutes: number) {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  return remainder ? `${hours} h ${remainder} min` : `${hours} h`;
+}
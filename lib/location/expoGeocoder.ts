@@ -0,0 +1,27 @@
+import * as Location from 'expo-location';
+import { Coordinates, Geocoder } from './types';
+
+const formatAddress = (address: Location.LocationGeocodedAddress) => {
+  if (address.formattedAddress) return address.formattedAddress;
+
+  const street = [address.streetNumber, address.street].filter(Boolean).join(' ');
+  const parts = [street || address.name, address.city, address.region, address.postalCode];
+  return parts.filter(Boolean).join(', ');
+};
+
+export const expoGeocoder: Geocoder = {
+  async geocode(address: string) {
+    const results = await Location.geocodeAsync(address);
+    if (results.length === 0) return null;
+
+    const { latitude, longitude } = results[0];
+    return { latitude, longitude };
+  },
+
+  async reverseGeocode(coordinates: Coordinates) {
+    const results = await Location.reverseGeocodeAsync(coordinates);
+    if (results.length === 0) return null;
+
+    return formatAddress(results[0]) || null;
+  },
+};
@@ -0,0 +1,106 @@
+import * as Location from 'expo-location';
+import { expoGeocoder } from './expoGeocoder';
+import { stubGeocoder } from './stubGeocoder';
+import { Coordinates, Geocoder, ResolvedLocation } from './types';
+
+export * from './types';
+export * from './distance';
+
+let geocoder: Geocoder =
+  process.env.EXPO_PUBLIC_GEOCODER === 'stub' ? stubGeocoder : expoGeocoder;
+
+export function getGeocoder() {
+  return geocoder;
+}
+
+export function setGeocoder(next: Geocoder) {
+  geocoder = next;
+}
+
+export async function getCurrentCoordinates(): Promise<{
+  coordinates: Coordinates | null;
+  error: string | null;
+}> {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') {
+    return { coordinates: null, error: 'Location permission was denied' };
+  }
+
+  try {
+    const position = await Location.getCurrentPositionAsync({
+      accuracy: Location.Accuracy.Balanced,
+    });
+    const { latitude, longitude } = position.coords;
+    return { coordinates: { latitude, longitude }, error: null };
+  } catch (error: any) {
+    return { coordinates: null, error: error?.message || 'Unable to get your current location' };
+  }
+}
+
+/**
+ * Calls `onChange` as the device moves, at most every `intervalMs` and
+ * `distanceMeters`. Foreground only; call `remove()` on the result to stop.
+ */
+export async function watchCoordinates(
+  intervalMs: number,
+  distanceMeters: number,
+  onChange: (coordinates: Coordinates, accuracy: number | null) => void
+): Promise<{ subscription: { remove(): void } | null; error: string | null }> {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') {
+    return { subscription: null, error: 'Location permission was denied' };
+  }
+
+  try {
+    const subscription = await Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.High,
+        timeInterval: intervalMs,
+        distanceInterval: distanceMeters,
+      },
+      (position) => {
+        const { latitude, longitude, accuracy } = position.coords;
+        onChange({ latitude, longitude }, accuracy);
+      }
+    );
+    return { subscription, error: null };
+  } catch (error: any) {
+    return { subscription: null, error: error?.message || 'Unable to follow your location' };
+  }
+}
+
+export async function getCurrentLocation(): Promise<{
+  location: ResolvedLocation | null;
+  error: string | null;
+}> {
+  const { coordinates, error } = await getCurrentCoordinates();
+  if (!coordinates) return { location: null, error };
+
+  const address = await reverseGeocode(coordinates);
+  return { location: { address, coordinates }, error: null };
+}
+
+export async function geocodeAddress(address: string): Promise<{
+  coordinates: Coordinates | null;
+  error: string | null;
+}> {
+  try {
+    const coordinates = await geocoder.geocode(address);
+    if (!coordinates) {
+      return { coordinates: null, error: 'We could not find that address' };
+    }
+    return { coordinates, error: null };
+  } catch (error: any) {
+    return { coordinates: null, error: error?.message || 'Unable to look up that address' };
+  }
+}
+
+export async function reverseGeocode(coordinates: Coordinates) {
+  try {
+    const address = await geocoder.reverseGeocode(coordinates);
+    if (address) return address;
+  } catch {
+    // Fall through to the raw coordinates below.
+  }
+  return `${coordinates.latitude.toFixed(5)}, ${coordinates.longitude.toFixed(5)}`;
+}
@@ -0,0 +1,37 @@
+import { Coordinates, Geocoder } from './types';
+
+const STUB_CENTER: Coordinates = { latitude: 37.7749, longitude: -122.4194 };
+const STUB_SPREAD_DEGREES = 0.1;
+
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+/**
+ * Offline geocoder for development. The same address always maps to the same
+ * point within roughly 10 km of STUB_CENTER, so distance-based features behave
+ * consistently without a network geocoding service.
+ */
+export const stubGeocoder: Geocoder = {
+  async geocode(address: string) {
+    const normalized = address.trim().toLowerCase();
+    if (!normalized) return null;
+
+    const hash = hashString(normalized);
+    const latitudeOffset = ((hash % 1000) / 1000 - 0.5) * STUB_SPREAD_DEGREES;
+    const longitudeOffset = ((Math.floor(hash / 1000) % 1000) / 1000 - 0.5) * STUB_SPREAD_DEGREES;
+
+    return {
+      latitude: STUB_CENTER.latitude + latitudeOffset,
+      longitude: STUB_CENTER.longitude + longitudeOffset,
+    };
+  },
+
+  async reverseGeocode(coordinates: Coordinates) {
+    return `${coordinates.latitude.toFixed(5)}, ${coordinates.longitude.toFixed(5)}`;
+  },
+};
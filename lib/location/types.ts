@@ -0,0 +1,14 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ResolvedLocation {
+  address: string;
+  coordinates: Coordinates;
+}
+
+export interface Geocoder {
+  geocode(address: string): Promise<Coordinates | null>;
+  reverseGeocode(coordinates: Coordinates): Promise<string | null>;
+}
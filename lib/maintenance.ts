@@ -0,0 +1,174 @@
+import { supabase } from '@/lib/supabase';
+
+export interface MaintenanceRule {
+  id: string;
+  service_id: string;
+  name: string;
+  interval_km: number | null;
+  interval_months: number | null;
+}
+
+export interface ServiceHistoryEntry {
+  id: string;
+  service_id: string;
+  service_name: string;
+  category: string;
+  serviced_at: string;
+  mileage: number | null;
+  total_price: number;
+  mechanic_name: string | null;
+}
+
+export type MaintenanceStatus = 'overdue' | 'due_soon' | 'upcoming';
+
+export interface MaintenanceDueItem {
+  rule: MaintenanceRule;
+  status: MaintenanceStatus;
+  lastService: ServiceHistoryEntry | null;
+  dueDate: Date | null;
+  dueMileage: number | null;
+  kmRemaining: number | null;
+}
+
+export const DUE_SOON_DAYS = 30;
+export const DUE_SOON_KM = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_ORDER: Record<MaintenanceStatus, number> = {
+  overdue: 0,
+  due_soon: 1,
+  upcoming: 2,
+};
+
+export async function fetchMaintenanceRules(): Promise<MaintenanceRule[]> {
+  const { data } = await supabase
+    .from('maintenance_rules')
+    .select('id, service_id, name, interval_km, interval_months')
+    .order('name', { ascending: true });
+
+  return data ?? [];
+}
+
+/** Completed bookings for a saved vehicle, most recent first. */
+export async function fetchServiceHistory(vehicleId: string): Promise<ServiceHistoryEntry[]> {
+  const { data } = await supabase
+    .from('bookings')
+    .select(
+      'id, service_id, scheduled_time, vehicle_mileage, total_price, service:services(name, category), mechanic:mechanics(business_name)'
+    )
+    .eq('vehicle_id', vehicleId)
+    .eq('status', 'completed')
+    .order('scheduled_time', { ascending: false });
+
+  return (data ?? []).map((booking: any) => ({
+    id: booking.id,
+    service_id: booking.service_id,
+    service_name: booking.service?.name ?? 'Service',
+    category: booking.service?.category ?? 'maintenance',
+    serviced_at: booking.scheduled_time,
+    mileage: booking.vehicle_mileage,
+    total_price: booking.total_price,
+    mechanic_name: booking.mechanic?.business_name ?? null,
+  }));
+}
+
+export function addMonths(date: Date, months: number) {
+  const result = new Date(date);
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+}
+
+/**
+ * Works out when each rule is next due from the most recent matching service.
+ * A rule is due at whichever interval (distance or time) comes first; rules
+ * with no service on record are treated as due soon.
+ */
+export function getDueItems(
+  rules: MaintenanceRule[],
+  history: ServiceHistoryEntry[],
+  currentMileage: number | null,
+  now: Date = new Date()
+): MaintenanceDueItem[] {
+  const items = rules.map((rule): MaintenanceDueItem => {
+    const lastService =
+      history
+        .filter((entry) => entry.service_id === rule.service_id)
+        .sort((a, b) => new Date(b.serviced_at).getTime() - new Date(a.serviced_at).getTime())[0] ??
+      null;
+
+    if (!lastService) {
+      return { rule, status: 'due_soon', lastService, dueDate: null, dueMileage: null, kmRemaining: null };
+    }
+
+    const dueDate = rule.interval_months
+      ? addMonths(new Date(lastService.serviced_at), rule.interval_months)
+      : null;
+    const dueMileage =
+      rule.interval_km && lastService.mileage !== null ? lastService.mileage + rule.interval_km : null;
+    const kmRemaining =
+      dueMileage !== null && currentMileage !== null ? dueMileage - currentMileage : null;
+    const daysRemaining = dueDate ? (dueDate.getTime() - now.getTime()) / DAY_MS : null;
+
+    let status: MaintenanceStatus = 'upcoming';
+    if ((daysRemaining !== null && daysRemaining <= 0) || (kmRemaining !== null && kmRemaining <= 0)) {
+      status = 'overdue';
+    } else if (
+      (daysRemaining !== null && daysRemaining <= DUE_SOON_DAYS) ||
+      (kmRemaining !== null && kmRemaining <= DUE_SOON_KM)
+    ) {
+      status = 'due_soon';
+    }
+
+    return { rule, status, lastService, dueDate, dueMileage, kmRemaining };
+  });
+
+  return items.sort(
+    (a, b) =>
+      STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+      (a.dueDate?.getTime() ?? 0) - (b.dueDate?.getTime() ?? 0)
+  );
+}
+
+export function formatKm(km: number) {
+  return `${km.toLocaleString('en-US')} km`;
+}
+
+export function describeRule(rule: MaintenanceRule) {
+  const intervals = [
+    rule.interval_km ? formatKm(rule.interval_km) : null,
+    rule.interval_months ? `${rule.interval_months} months` : null,
+  ].filter(Boolean);
+
+  return `Every ${intervals.join(' or ')}`;
+}
+
+export function describeDueItem(item: MaintenanceDueItem, now: Date = new Date()) {
+  if (!item.lastService) {
+    return 'No service on record';
+  }
+
+  const dueDate = item.dueDate?.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  if (item.status === 'overdue') {
+    const reasons = [
+      item.kmRemaining !== null && item.kmRemaining <= 0 ? `by ${formatKm(-item.kmRemaining)}` : null,
+      item.dueDate && item.dueDate <= now ? `since ${dueDate}` : null,
+    ].filter(Boolean);
+    return `Overdue ${reasons.join(' · ')}`;
+  }
+
+  const limits = [
+    item.kmRemaining !== null ? `in ${formatKm(item.kmRemaining)}` : null,
+    dueDate ? `by ${dueDate}` : null,
+  ].filter(Boolean);
+  return limits.length > 0 ? `Due ${limits.join(' or ')}` : 'Due';
+}
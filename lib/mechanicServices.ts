@@ -0,0 +1,78 @@
+import { supabase } from '@/lib/supabase';
+import { Service, durationBounds, priceBounds } from '@/lib/services';
+
+export interface MechanicService {
+  mechanic_id: string;
+  service_id: string;
+  /** Null means the standard labor charge. */
+  price: number | null;
+  /** Null means the service's standard duration. */
+  estimated_duration: number | null;
+}
+
+export interface ServiceTermsInput {
+  price: string;
+  duration: string;
+}
+
+export async function fetchMechanicServices(mechanicId: string): Promise<MechanicService[]> {
+  const { data } = await supabase
+    .from('mechanic_services')
+    .select('mechanic_id, service_id, price, estimated_duration')
+    .eq('mechanic_id', mechanicId);
+
+  return data ?? [];
+}
+
+export async function setServiceOffered(mechanicId: string, serviceId: string, offered: boolean) {
+  const { error } = offered
+    ? await supabase
+        .from('mechanic_services')
+        .insert({ mechanic_id: mechanicId, service_id: serviceId })
+    : await supabase
+        .from('mechanic_services')
+        .delete()
+        .eq('mechanic_id', mechanicId)
+        .eq('service_id', serviceId);
+
+  return { error: error?.message ?? null };
+}
+
+/** Blank fields fall back to the service's standard price or duration. */
+export function validateServiceTerms(service: Service, input: ServiceTermsInput) {
+  if (input.price.trim()) {
+    const price = Number(input.price);
+    const { min, max } = priceBounds(service);
+    if (!Number.isFinite(price) || price < min || price > max) {
+      return `Price must be between $${min} and $${max}`;
+    }
+  }
+
+  if (input.duration.trim()) {
+    const duration = Number(input.duration);
+    const { min, max } = durationBounds(service);
+    if (!Number.isInteger(duration) || duration < min || duration > max) {
+      return `Duration must be between ${min} and ${max} minutes`;
+    }
+  }
+
+  return '';
+}
+
+export async function saveServiceTerms(
+  mechanicId: string,
+  serviceId: string,
+  input: ServiceTermsInput
+) {
+  const { error } = await supabase
+    .from('mechanic_services')
+    .update({
+      price: input.price.trim() ? Number(input.price) : null,
+      estimated_duration: input.duration.trim() ? Number(input.duration) : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('mechanic_id', mechanicId)
+    .eq('service_id', serviceId);
+
+  return { error: error?.message ?? null };
+}
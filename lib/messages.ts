@@ -0,0 +1,130 @@
+import * as ImagePicker from 'expo-image-picker';
+import { supabase } from '@/lib/supabase';
+
+export interface BookingMessage {
+  id: string;
+  booking_id: string;
+  sender_id: string;
+  recipient_id: string;
+  body: string;
+  image_path: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface ChatImage {
+  uri: string;
+  mimeType: string;
+}
+
+export const CHAT_IMAGE_BUCKET = 'booking-chat';
+export const MAX_MESSAGE_LENGTH = 2000;
+
+const CLOSED_CHAT_STATUSES = ['completed', 'cancelled'];
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export function isChatOpen(status: string) {
+  return !CLOSED_CHAT_STATUSES.includes(status);
+}
+
+export async function fetchMessages(bookingId: string): Promise<BookingMessage[]> {
+  const { data } = await supabase
+    .from('booking_messages')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: true });
+
+  return data ?? [];
+}
+
+export async function pickChatImage(): Promise<{ image: ChatImage | null; error: string | null }> {
+  const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (status !== 'granted') {
+    return { image: null, error: 'Photo library permission was denied' };
+  }
+
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    quality: 0.7,
+  });
+
+  if (result.canceled || result.assets.length === 0) {
+    return { image: null, error: null };
+  }
+
+  const asset = result.assets[0];
+  return { image: { uri: asset.uri, mimeType: asset.mimeType ?? 'image/jpeg' }, error: null };
+}
+
+async function uploadChatImage(bookingId: string, image: ChatImage) {
+  const extension = image.mimeType.split('/')[1] ?? 'jpg';
+  const path = `${bookingId}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${extension}`;
+
+  const response = await fetch(image.uri);
+  const { error } = await supabase.storage
+    .from(CHAT_IMAGE_BUCKET)
+    .upload(path, await response.arrayBuffer(), { contentType: image.mimeType });
+
+  return { path: error ? null : path, error };
+}
+
+export async function sendMessage(
+  bookingId: string,
+  body: string,
+  image?: ChatImage | null
+): Promise<{ message: BookingMessage | null; error: string | null }> {
+  let imagePath: string | null = null;
+
+  if (image) {
+    const { path, error } = await uploadChatImage(bookingId, image);
+    if (error) {
+      return { message: null, error: error.message };
+    }
+    imagePath = path;
+  }
+
+  const { data, error } = await supabase
+    .from('booking_messages')
+    .insert({ booking_id: bookingId, body: body.trim(), image_path: imagePath })
+    .select()
+    .single();
+
+  return { message: data, error: error?.message ?? null };
+}
+
+/** Signed URLs for the given image paths, keyed by path. */
+export async function getChatImageUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+
+  const { data } = await supabase.storage
+    .from(CHAT_IMAGE_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  return Object.fromEntries(
+    (data ?? [])
+      .filter((item) => item.path && item.signedUrl)
+      .map((item) => [item.path as string, item.signedUrl])
+  );
+}
+
+export async function markMessagesRead(bookingId: string) {
+  const { error } = await supabase.rpc('mark_booking_messages_read', {
+    p_booking_id: bookingId,
+  });
+
+  return { error };
+}
+
+/** Unread message counts for the user, keyed by booking id. */
+export async function fetchUnreadCounts(userId: string): Promise<Record<string, number>> {
+  const { data } = await supabase
+    .from('booking_messages')
+    .select('booking_id')
+    .eq('recipient_id', userId)
+    .is('read_at', null);
+
+  return (data ?? []).reduce<Record<string, number>>((counts, message) => {
+    counts[message.booking_id] = (counts[message.booking_id] ?? 0) + 1;
+    return counts;
+  }, {});
+}
@@ -0,0 +1,171 @@
+import { Platform } from 'react-native';
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+import { supabase } from '@/lib/supabase';
+import { localDelivery } from './localDelivery';
+import { pushDelivery } from './pushDelivery';
+import {
+  AppNotification,
+  NotificationDelivery,
+  NotificationEventType,
+  NotificationPreferences,
+} from './types';
+
+export * from './types';
+
+export const NOTIFICATION_EVENT_LABELS: Record<
+  NotificationEventType,
+  { label: string; description: string }
+> = {
+  booking_created: {
+    label: 'New bookings',
+    description: 'When a customer books you',
+  },
+  booking_accepted: {
+    label: 'Booking confirmed',
+    description: 'When a mechanic accepts your booking',
+  },
+  booking_started: {
+    label: 'Service started',
+    description: 'When work on your vehicle begins',
+  },
+  booking_completed: {
+    label: 'Service completed',
+    description: 'When the job is done and your receipt is ready',
+  },
+  booking_cancelled: {
+    label: 'Cancellations',
+    description: 'When the other party cancels a booking',
+  },
+  booking_reminder: {
+    label: 'Reminders',
+    description: 'An hour before a scheduled booking',
+  },
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  booking_created: true,
+  booking_accepted: true,
+  booking_started: true,
+  booking_completed: true,
+  booking_cancelled: true,
+  booking_reminder: true,
+  push_enabled: true,
+};
+
+/** Pending notifications older than this are only listed, never popped up. */
+const PENDING_DELIVERY_WINDOW_MS = 60 * 60 * 1000;
+
+if (Platform.OS !== 'web') {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+let delivery: NotificationDelivery =
+  Platform.OS !== 'web' && Device.isDevice ? pushDelivery : localDelivery;
+
+export function getNotificationDelivery() {
+  return delivery;
+}
+
+export function setNotificationDelivery(next: NotificationDelivery) {
+  delivery = next;
+}
+
+/** Event types a user of the given kind can receive. */
+export function getNotificationEvents(
+  userType: 'customer' | 'mechanic' | 'admin'
+): NotificationEventType[] {
+  return userType === 'mechanic'
+    ? ['booking_created', 'booking_cancelled', 'booking_reminder']
+    : [
+        'booking_accepted',
+        'booking_started',
+        'booking_completed',
+        'booking_cancelled',
+        'booking_reminder',
+      ];
+}
+
+export async function fetchNotifications(userId: string): Promise<AppNotification[]> {
+  const { data } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  return data ?? [];
+}
+
+export async function fetchNotificationPreferences(
+  userId: string
+): Promise<NotificationPreferences> {
+  const { data } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return data ?? DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+export async function updateNotificationPreferences(
+  userId: string,
+  preferences: NotificationPreferences
+) {
+  const { error } = await supabase.from('notification_preferences').upsert({
+    user_id: userId,
+    ...preferences,
+    updated_at: new Date().toISOString(),
+  });
+
+  return { error };
+}
+
+export async function markNotificationsRead(ids?: string[]) {
+  const { error } = await supabase.rpc('mark_notifications_read', {
+    p_ids: ids ?? null,
+  });
+
+  return { error };
+}
+
+/**
+ * Shows notifications the server has not pushed and records them as
+ * delivered. Old ones are marked delivered without popping up, and so are
+ * ones the device failed to show, so one bad alert doesn't come back forever.
+ */
+export async function deliverPendingNotifications(
+  notifications: AppNotification[],
+  now = new Date()
+): Promise<{ error: string | null }> {
+  const pending = notifications.filter((notification) => !notification.delivered_at);
+  if (pending.length === 0) return { error: null };
+
+  let deliveryError: string | null = null;
+  for (const notification of pending) {
+    const age = now.getTime() - new Date(notification.created_at).getTime();
+    if (age > PENDING_DELIVERY_WINDOW_MS) continue;
+
+    try {
+      await delivery.deliver(notification);
+    } catch (error: any) {
+      if (!deliveryError) {
+        deliveryError = error?.message || 'Unable to show notifications';
+      }
+    }
+  }
+
+  const { error } = await supabase.rpc('mark_notifications_delivered', {
+    p_ids: pending.map((notification) => notification.id),
+  });
+
+  return { error: deliveryError ?? error?.message ?? null };
+}
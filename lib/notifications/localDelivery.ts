@@ -0,0 +1,46 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { AppNotification, NotificationDelivery } from './types';
+
+export async function requestNotificationPermission() {
+  const { status } = await Notifications.getPermissionsAsync();
+  if (status === 'granted') return true;
+
+  const request = await Notifications.requestPermissionsAsync();
+  return request.status === 'granted';
+}
+
+export async function presentNotification(notification: AppNotification) {
+  if (Platform.OS === 'web') return false;
+
+  await Notifications.scheduleNotificationAsync({
+    content: {
+      title: notification.title,
+      body: notification.body,
+      data: { notificationId: notification.id, bookingId: notification.booking_id },
+    },
+    trigger: null,
+  });
+  return true;
+}
+
+/**
+ * Shows notifications as local notifications while the app is running. Used
+ * where push is unavailable (simulators, web) and in development.
+ */
+export const localDelivery: NotificationDelivery = {
+  name: 'local',
+
+  async register() {
+    if (Platform.OS === 'web') return { error: null };
+
+    const granted = await requestNotificationPermission();
+    return { error: granted ? null : 'Notification permission was denied' };
+  },
+
+  async unregister() {
+    return { error: null };
+  },
+
+  deliver: presentNotification,
+};
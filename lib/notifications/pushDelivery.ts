@@ -0,0 +1,60 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+import { supabase } from '@/lib/supabase';
+import { presentNotification, requestNotificationPermission } from './localDelivery';
+import { NotificationDelivery } from './types';
+
+/** The token registered for the signed-in user, removed again on sign-out. */
+let registeredToken: string | null = null;
+
+/**
+ * Registers the device's Expo push token so the server pushes notifications
+ * as they are written to the outbox. Notifications the server could not push
+ * are shown locally once they reach the running app.
+ */
+export const pushDelivery: NotificationDelivery = {
+  name: 'push',
+
+  async register() {
+    try {
+      if (!(await requestNotificationPermission())) {
+        return { error: 'Notification permission was denied' };
+      }
+
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync('default', {
+          name: 'Bookings',
+          importance: Notifications.AndroidImportance.HIGH,
+        });
+      }
+
+      const projectId =
+        Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+      const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+
+      const { error } = await supabase.rpc('register_push_token', {
+        p_token: token,
+        p_platform: Platform.OS,
+      });
+      if (!error) {
+        registeredToken = token;
+      }
+      return { error: error?.message ?? null };
+    } catch (error: any) {
+      return { error: error?.message || 'Unable to register for push notifications' };
+    }
+  },
+
+  async unregister() {
+    if (!registeredToken) return { error: null };
+
+    const { error } = await supabase.from('push_tokens').delete().eq('token', registeredToken);
+    if (!error) {
+      registeredToken = null;
+    }
+    return { error: error?.message ?? null };
+  },
+
+  deliver: presentNotification,
+};
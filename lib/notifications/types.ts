@@ -0,0 +1,34 @@
+export type NotificationEventType =
+  | 'booking_created'
+  | 'booking_accepted'
+  | 'booking_started'
+  | 'booking_completed'
+  | 'booking_cancelled'
+  | 'booking_reminder';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  booking_id: string | null;
+  event_type: NotificationEventType;
+  title: string;
+  body: string;
+  delivered_at: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export type NotificationPreferences = Record<NotificationEventType, boolean> & {
+  push_enabled: boolean;
+};
+
+/** Shows outbox notifications on this device. */
+export interface NotificationDelivery {
+  name: string;
+  /** Asks for permission and, for push, registers the device with the server. */
+  register(): Promise<{ error: string | null }>;
+  /** Stops pushing to this device, before the user signs out. */
+  unregister(): Promise<{ error: string | null }>;
+  /** Presents a notification that reached the app without being pushed. */
+  deliver(notification: AppNotification): Promise<boolean>;
+}
@@ -0,0 +1,313 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDatabase } from '@/test/supabase';
+import { syncBookingPayment } from './index';
+import { Payment } from './types';
+
+const BOOKING_ID = 'booking-1';
+const REFERENCE = `mock_pay_${BOOKING_ID}`;
+
+type Booking = {
+  id: string;
+  status: string;
+  total_price: number;
+  cancellation_fee: number;
+  payment: Payment | null;
+};
+
+const payment = (changes: Partial<Payment>): Payment => ({
+  id: 'payment-1',
+  booking_id: BOOKING_ID,
+  provider: 'mock',
+  provider_reference: REFERENCE,
+  status: 'authorized',
+  amount: 120,
+  captured_amount: 0,
+  refunded_amount: 0,
+  currency: 'usd',
+  failure_reason: null,
+  ...changes,
+});
+
+let booking: Booking;
+let recordedEvents: Set<string>;
+
+/** A cut-down `record_mock_payment_event` that settles the booking's payment. */
+const recordMockPaymentEvent = (args: Record<string, any>) => {
+  const fail = (message: string) => ({ data: null, error: { message } });
+  const current = booking.payment;
+
+  if (current && recordedEvents.has(args.p_event_id)) {
+    return { data: current, error: null };
+  }
+
+  let next: Payment;
+  switch (args.p_type) {
+    case 'payment.authorized':
+      if (current && current.status !== 'failed' && current.status !== 'voided') {
+        return fail(`Payment is already ${current.status}`);
+      }
+      next = payment({
+        amount: booking.status === 'cancelled' ? booking.cancellation_fee : booking.total_price,
+      });
+      break;
+    case 'payment.failed':
+      if (current && current.status !== 'failed') {
+        return { data: current, error: null };
+      }
+      next = payment({ status: 'failed', amount: 0, failure_reason: args.p_failure_reason });
+      break;
+    case 'payment.captured': {
+      const amount = Math.min(
+        current?.amount ?? 0,
+        booking.status === 'completed' ? booking.total_price : booking.cancellation_fee
+      );
+      if (current?.status !== 'authorized' || amount <= 0) {
+        return fail(`Cannot capture payment for a ${booking.status} booking`);
+      }
+      next = { ...current, status: 'captured', captured_amount: amount };
+      break;
+    }
+    case 'payment.refunded': {
+      if (!current || current.captured_amount - current.refunded_amount < args.p_amount) {
+        return fail('Cannot refund this payment');
+      }
+      const refunded = current.refunded_amount + args.p_amount;
+      next = {
+        ...current,
+        refunded_amount: refunded,
+        status: refunded >= current.captured_amount ? 'refunded' : 'partially_refunded',
+      };
+      break;
+    }
+    case 'payment.voided':
+      if (current?.status !== 'authorized') {
+        return fail('Cannot void this payment');
+      }
+      next = { ...current, status: 'voided' };
+      break;
+    default:
+      return fail(`Unknown payment event ${args.p_type}`);
+  }
+
+  recordedEvents.add(args.p_event_id);
+  booking.payment = next;
+  return { data: next, error: null };
+};
+
+const setBooking = (changes: Partial<Booking>) => {
+  booking = {
+    id: BOOKING_ID,
+    status: 'accepted',
+    total_price: 120,
+    cancellation_fee: 0,
+    payment: null,
+    ...changes,
+  };
+  fakeDatabase.tables.bookings = [booking];
+};
+
+const sentEvents = () =>
+  fakeDatabase.rpcCalls.map(({ args }) => [args.p_type, args.p_amount] as const);
+
+beforeEach(() => {
+  fakeDatabase.reset();
+  fakeDatabase.rpcs.record_mock_payment_event = recordMockPaymentEvent;
+  recordedEvents = new Set();
+});
+
+describe('syncBookingPayment', () => {
+  describe('authorize', () => {
+    it('authorizes the total once the booking is accepted', async () => {
+      setBooking({ status: 'accepted' });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), [['payment.authorized', 120]]);
+      assert.equal(booking.payment?.status, 'authorized');
+      assert.equal(booking.payment?.amount, 120);
+    });
+
+    it('leaves an existing authorization alone', async () => {
+      setBooking({ status: 'in_progress', payment: payment({ status: 'authorized' }) });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), []);
+    });
+
+    it('does nothing for a pending booking', async () => {
+      setBooking({ status: 'pending' });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), []);
+    });
+
+    it('authorizes again after a payment was voided on a live booking', async () => {
+      setBooking({ status: 'in_progress', payment: payment({ status: 'voided' }) });
+      recordedEvents.add(`${REFERENCE}:payment.authorized:12000`);
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.equal(booking.payment?.status, 'authorized');
+      assert.notEqual(
+        fakeDatabase.rpcCalls[0].args.p_event_id,
+        `${REFERENCE}:payment.authorized:12000`
+      );
+    });
+
+    it('reports a missing booking', async () => {
+      setBooking({});
+      fakeDatabase.tables.bookings = [];
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: 'Booking not found' });
+    });
+
+    it('reports errors recording the event', async () => {
+      setBooking({ status: 'accepted' });
+      fakeDatabase.rpcs.record_mock_payment_event = () => ({
+        data: null,
+        error: { message: 'Booking not found' },
+      });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: 'Booking not found' });
+    });
+  });
+
+  describe('capture', () => {
+    it('captures the total when the booking is completed', async () => {
+      setBooking({ status: 'completed', payment: payment({ status: 'authorized' }) });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), [['payment.captured', 120]]);
+      assert.equal(booking.payment?.status, 'captured');
+      assert.equal(booking.payment?.captured_amount, 120);
+    });
+
+    it('authorizes and captures a completed booking that was never authorized', async () => {
+      setBooking({ status: 'completed' });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), [
+        ['payment.authorized', 120],
+        ['payment.captured', 120],
+      ]);
+      assert.equal(booking.payment?.status, 'captured');
+    });
+
+    it('does not capture a payment twice', async () => {
+      setBooking({
+        status: 'completed',
+        payment: payment({ status: 'captured', captured_amount: 120 }),
+      });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), []);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('captures only the fee from an authorization', async () => {
+      setBooking({
+        status: 'cancelled',
+        cancellation_fee: 30,
+        payment: payment({ status: 'authorized' }),
+      });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), [['payment.captured', 30]]);
+      assert.equal(booking.payment?.captured_amount, 30);
+    });
+
+    it('voids the authorization when there is no fee', async () => {
+      setBooking({ status: 'cancelled', payment: payment({ status: 'authorized' }) });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), [['payment.voided', 0]]);
+      assert.equal(booking.payment?.status, 'voided');
+    });
+
+    it('refunds everything but the fee from a captured payment', async () => {
+      setBooking({
+        status: 'cancelled',
+        cancellation_fee: 30,
+        payment: payment({ status: 'captured', captured_amount: 120 }),
+      });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), [['payment.refunded', 90]]);
+      assert.equal(booking.payment?.status, 'partially_refunded');
+      assert.equal(booking.payment?.refunded_amount, 90);
+    });
+
+    it('refunds only what is left of a partly refunded payment', async () => {
+      setBooking({
+        status: 'cancelled',
+        cancellation_fee: 30,
+        payment: payment({
+          status: 'partially_refunded',
+          captured_amount: 120,
+          refunded_amount: 40,
+        }),
+      });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), [['payment.refunded', 50]]);
+    });
+
+    it('charges the fee when nothing was authorized', async () => {
+      setBooking({ status: 'cancelled', cancellation_fee: 30 });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), [
+        ['payment.authorized', 30],
+        ['payment.captured', 30],
+      ]);
+      assert.equal(booking.payment?.status, 'captured');
+      assert.equal(booking.payment?.captured_amount, 30);
+    });
+
+    it('does nothing for a free cancellation without a payment', async () => {
+      setBooking({ status: 'cancelled' });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), []);
+    });
+  });
+
+  describe('declined card', () => {
+    it('records the failure instead of authorizing', async () => {
+      setBooking({ status: 'accepted', total_price: 120.02 });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), [['payment.failed', 120.02]]);
+      assert.equal(booking.payment?.status, 'failed');
+      assert.equal(booking.payment?.failure_reason, 'Card declined');
+    });
+
+    it('does not capture a completed booking whose card was declined', async () => {
+      setBooking({ status: 'completed', total_price: 120.02 });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), [['payment.failed', 120.02]]);
+      assert.equal(booking.payment?.status, 'failed');
+    });
+
+    it('authorizes again once the amount goes through', async () => {
+      setBooking({
+        status: 'accepted',
+        payment: payment({ status: 'failed', amount: 0, failure_reason: 'Card declined' }),
+      });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), [['payment.authorized', 120]]);
+      assert.equal(booking.payment?.status, 'authorized');
+      assert.equal(booking.payment?.failure_reason, null);
+    });
+
+    it('does not charge a declined cancellation fee', async () => {
+      setBooking({ status: 'cancelled', cancellation_fee: 30.02 });
+
+      assert.deepEqual(await syncBookingPayment(BOOKING_ID), { error: null });
+      assert.deepEqual(sentEvents(), [['payment.failed', 30.02]]);
+      assert.equal(booking.payment?.status, 'failed');
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { supabase } from '@/lib/supabase';
+import { mockPaymentProvider } from './mockProvider';
+import { Payment, PaymentEvent, PaymentProvider, PaymentStatus } from './types';
+
+export * from './types';
+export { MOCK_DECLINED_CENTS } from './mockProvider';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  authorized: 'Authorized',
+  captured: 'Paid',
+  partially_refunded: 'Partly refunded',
+  refunded: 'Refunded',
+  voided: 'Released',
+  failed: 'Payment failed',
+};
+
+let provider: PaymentProvider = mockPaymentProvider;
+let unsubscribe = provider.onEvent(handlePaymentEvent);
+
+export function getPaymentProvider() {
+  return provider;
+}
+
+export function setPaymentProvider(next: PaymentProvider) {
+  unsubscribe();
+  provider = next;
+  unsubscribe = provider.onEvent(handlePaymentEvent);
+}
+
+/**
+ * Webhook handler: records a provider event against the booking's payment.
+ * Events are keyed by their id, so delivering one twice is harmless. Only
+ * mock events can be recorded from the app; a real provider's webhook
+ * records its events with the service role, and the server works out the
+ * amounts from the booking either way.
+ */
+export async function handlePaymentEvent(
+  event: PaymentEvent
+): Promise<{ payment: Payment | null; error: string | null }> {
+  if (provider.name !== mockPaymentProvider.name) {
+    return { payment: null, error: null };
+  }
+
+  const { data, error } = await supabase.rpc('record_mock_payment_event', {
+    p_event_id: event.id,
+    p_booking_id: event.bookingId,
+    p_reference: event.reference,
+    p_type: event.type,
+    p_amount: event.amount,
+    p_failure_reason: event.failureReason ?? null,
+  });
+
+  if (error) {
+    return { payment: null, error: error.message };
+  }
+
+  return { payment: data, error: null };
+}
+
+/**
+ * Brings a booking's payment in line with its status: authorize once it is
+ * accepted, capture when completed, and on cancellation keep only the
+ * cancellation fee (partial capture of an authorization, or a refund of the
+ * rest of a captured payment). A fee on a booking that was never
+ * authorized is authorized and captured on its own.
+ */
+export async function syncBookingPayment(bookingId: string): Promise<{ error: string | null }> {
+  const { data: booking, error: bookingError } = await supabase
+    .from('bookings')
+    .select('id, status, total_price, cancellation_fee, payment:payments(*)')
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (bookingError || !booking) {
+    return { error: bookingError?.message ?? 'Booking not found' };
+  }
+
+  let payment = booking.payment as unknown as Payment | null;
+
+  const apply = async (request: Promise<PaymentEvent>) => {
+    const result = await handlePaymentEvent(await request);
+    if (result.payment) {
+      payment = result.payment;
+    }
+    return result.error;
+  };
+
+  // A voided authorization only counts once the booking is cancelled; on a
+  // live booking the job still has to be paid for.
+  const needsAuthorization =
+    !payment ||
+    payment.status === 'failed' ||
+    (payment.status === 'voided' && booking.status !== 'cancelled');
+  const totalPrice = Number(booking.total_price);
+  // Authorizing again after a void is a new authorization, not a retry of
+  // the first one.
+  const authorize = (amount: number) =>
+    apply(
+      provider.authorize({
+        bookingId,
+        amount,
+        currency: 'usd',
+        idempotencyKey: payment?.status === 'voided' ? 'after_void' : undefined,
+      })
+    );
+
+  switch (booking.status) {
+    case 'accepted':
+    case 'in_progress':
+      if (needsAuthorization) {
+        return { error: await authorize(totalPrice) };
+      }
+      return { error: null };
+
+    case 'completed': {
+      if (needsAuthorization) {
+        const error = await authorize(totalPrice);
+        if (error) return { error };
+      }
+      if (payment?.status === 'authorized') {
+        return {
+          error: await apply(
+            provider.capture(
+              bookingId,
+              payment.provider_reference,
+              Math.min(totalPrice, Number(payment.amount))
+            )
+          ),
+        };
+      }
+      return { error: null };
+    }
+
+    case 'cancelled': {
+      const fee = Number(booking.cancellation_fee);
+
+      // Cancelled before any payment was authorized: charge just the fee.
+      if (fee > 0 && needsAuthorization) {
+        const error = await authorize(fee);
+        if (error) return { error };
+      }
+      if (!payment) return { error: null };
+
+      if (payment.status === 'authorized') {
+        return {
+          error: await apply(
+            fee > 0
+              ? provider.capture(
+                  bookingId,
+                  payment.provider_reference,
+                  Math.min(fee, Number(payment.amount))
+                )
+              : provider.void(bookingId, payment.provider_reference)
+          ),
+        };
+      }
+      if (payment.status === 'captured' || payment.status === 'partially_refunded') {
+        const refundable =
+          Math.round(
+            (Number(payment.captured_amount) - Number(payment.refunded_amount) - fee) * 100
+          ) / 100;
+        if (refundable > 0) {
+          return {
+            error: await apply(provider.refund(bookingId, payment.provider_reference, refundable)),
+          };
+        }
+      }
+      return { error: null };
+    }
+
+    default:
+      return { error: null };
+  }
+}
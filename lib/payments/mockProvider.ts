@@ -0,0 +1,86 @@
+import { PaymentEvent, PaymentEventType, PaymentProvider } from './types';
+
+/** Authorizing an amount with these cents is declined, like a test card. */
+export const MOCK_DECLINED_CENTS = 2;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+const listeners = new Set<(event: PaymentEvent) => void>();
+
+const createEvent = (
+  type: PaymentEventType,
+  bookingId: string,
+  reference: string,
+  amount: number,
+  failureReason?: string,
+  idempotencyKey?: string
+): PaymentEvent => ({
+  id: [reference, type, toCents(amount), idempotencyKey]
+    .filter((part) => part !== undefined)
+    .join(':'),
+  type,
+  bookingId,
+  reference,
+  amount,
+  failureReason,
+});
+
+/**
+ * Offline payment provider for development. It never touches the network and
+ * its results depend only on the input: references derive from the booking
+ * id, event ids from the reference, type, amount and idempotency key (so
+ * retries are idempotent), and amounts ending in MOCK_DECLINED_CENTS are declined.
+ */
+export const mockPaymentProvider: PaymentProvider & {
+  emit(event: PaymentEvent): void;
+} = {
+  name: 'mock',
+
+  async authorize({ bookingId, amount, idempotencyKey }) {
+    const reference = `mock_pay_${bookingId}`;
+
+    if (toCents(amount) % 100 === MOCK_DECLINED_CENTS) {
+      return createEvent(
+        'payment.failed',
+        bookingId,
+        reference,
+        amount,
+        'Card declined',
+        idempotencyKey
+      );
+    }
+
+    return createEvent(
+      'payment.authorized',
+      bookingId,
+      reference,
+      amount,
+      undefined,
+      idempotencyKey
+    );
+  },
+
+  async capture(bookingId, reference, amount) {
+    return createEvent('payment.captured', bookingId, reference, amount);
+  },
+
+  async refund(bookingId, reference, amount) {
+    return createEvent('payment.refunded', bookingId, reference, amount);
+  },
+
+  async void(bookingId, reference) {
+    return createEvent('payment.voided', bookingId, reference, 0);
+  },
+
+  onEvent(listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /** Simulates an out-of-band webhook delivery. */
+  emit(event) {
+    listeners.forEach((listener) => listener(event));
+  },
+};
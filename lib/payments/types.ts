@@ -0,0 +1,55 @@
+export type PaymentStatus =
+  | 'authorized'
+  | 'captured'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'voided'
+  | 'failed';
+
+export type PaymentEventType =
+  | 'payment.authorized'
+  | 'payment.captured'
+  | 'payment.refunded'
+  | 'payment.voided'
+  | 'payment.failed';
+
+export interface Payment {
+  id: string;
+  booking_id: string;
+  provider: string;
+  provider_reference: string;
+  status: PaymentStatus;
+  amount: number;
+  captured_amount: number;
+  refunded_amount: number;
+  currency: string;
+  failure_reason: string | null;
+}
+
+/** Webhook-style notification a provider sends for every payment outcome. */
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  bookingId: string;
+  reference: string;
+  amount: number;
+  failureReason?: string;
+}
+
+export interface AuthorizeRequest {
+  bookingId: string;
+  amount: number;
+  currency: string;
+  /** Tells a new authorization apart from a retry of an earlier one. */
+  idempotencyKey?: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  authorize(request: AuthorizeRequest): Promise<PaymentEvent>;
+  capture(bookingId: string, reference: string, amount: number): Promise<PaymentEvent>;
+  refund(bookingId: string, reference: string, amount: number): Promise<PaymentEvent>;
+  void(bookingId: string, reference: string): Promise<PaymentEvent>;
+  /** Subscribes to events the provider sends outside of a request, e.g. disputes. */
+  onEvent(listener: (event: PaymentEvent) => void): () => void;
+}
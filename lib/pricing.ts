@@ -0,0 +1,75 @@
+import { supabase } from '@/lib/supabase';
+
+export type LineItemKind = 'labor' | 'parts' | 'travel' | 'surcharge' | 'discount' | 'tax';
+
+export interface LineItem {
+  kind: LineItemKind;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+export interface QuoteRequest {
+  serviceId: string;
+  mechanicId: string | null;
+  coordinates: { latitude: number; longitude: number } | null;
+  scheduledTime: Date;
+  promoCode?: string;
+}
+
+export interface Quote {
+  lineItems: LineItem[];
+  subtotal: number;
+  tax: number;
+  total: number;
+}
+
+/**
+ * Asks the server for the itemized quote `quote_booking` will also use to
+ * price the booking on insert, so the preview always matches `total_price`.
+ */
+export async function fetchQuote(
+  request: QuoteRequest
+): Promise<{ quote: Quote | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('quote_booking', {
+    p_service_id: request.serviceId,
+    p_mechanic_id: request.mechanicId,
+    p_latitude: request.coordinates?.latitude ?? null,
+    p_longitude: request.coordinates?.longitude ?? null,
+    p_scheduled_time: request.scheduledTime.toISOString(),
+    p_promo_code: request.promoCode?.trim() || null,
+  });
+
+  if (error) {
+    return { quote: null, error: error.message };
+  }
+
+  return { quote: summarizeLineItems(data ?? []), error: null };
+}
+
+export function summarizeLineItems(lineItems: LineItem[]): Quote {
+  const sum = (items: LineItem[]) =>
+    Math.round(items.reduce((total, item) => total + Number(item.amount), 0) * 100) / 100;
+
+  const tax = sum(lineItems.filter((item) => item.kind === 'tax'));
+  const total = sum(lineItems);
+
+  return { lineItems, subtotal: Math.round((total - tax) * 100) / 100, tax, total };
+}
+
+export function formatCurrency(amount: number) {
+  const value = `$${Math.abs(amount).toFixed(2)}`;
+  return amount < 0 ? `-${value}` : value;
+}
+
+export function describeLineItem(item: LineItem) {
+  switch (item.kind) {
+    case 'labor':
+      return `${item.description} (${Number(item.quantity)} h × ${formatCurrency(item.unit_price)})`;
+    case 'travel':
+      return `${item.description} (${Number(item.quantity)} km × ${formatCurrency(item.unit_price)})`;
+    default:
+      return item.description;
+  }
+}
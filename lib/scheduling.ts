@@ -0,0 +1,94 @@
+export interface BusyPeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+  available: boolean;
+}
+
+/** A stretch of time the mechanic works, from their weekly schedule. */
+export interface WorkingWindow {
+  start: Date;
+  end: Date;
+}
+
+export const SLOT_INTERVAL_MINUTES = 30;
+export const BOOKING_LEAD_MINUTES = 60;
+export const BOOKING_WINDOW_DAYS = 14;
+
+const MINUTE = 60 * 1000;
+
+export function addMinutes(date: Date, minutes: number) {
+  return new Date(date.getTime() + minutes * MINUTE);
+}
+
+export function startOfDay(date: Date) {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+export function isSameDay(a: Date, b: Date) {
+  return startOfDay(a).getTime() === startOfDay(b).getTime();
+}
+
+export function overlaps(a: BusyPeriod, b: BusyPeriod) {
+  return a.start < b.end && b.start < a.end;
+}
+
+export function getBookableDays(from: Date = new Date(), count: number = BOOKING_WINDOW_DAYS) {
+  const first = startOfDay(from);
+  return Array.from({ length: count }, (_, index) => {
+    const day = new Date(first);
+    day.setDate(first.getDate() + index);
+    return day;
+  });
+}
+
+export function toBusyPeriods(rows: { scheduled_time: string; estimated_duration: number }[]) {
+  return rows.map((row) => {
+    const start = new Date(row.scheduled_time);
+    return { start, end: addMinutes(start, row.estimated_duration) };
+  });
+}
+
+export function toWorkingWindows(rows: { starts_at: string; ends_at: string }[]) {
+  return rows.map((row) => ({ start: new Date(row.starts_at), end: new Date(row.ends_at) }));
+}
+
+/**
+ * Builds the slots for one day that a job of `durationMinutes` could start in.
+ * Slots only start inside the mechanic's working windows and must finish
+ * before the window closes. A slot is unavailable if it starts inside the
+ * booking lead time or overlaps one of the mechanic's busy periods.
+ */
+export function generateTimeSlots(
+  day: Date,
+  durationMinutes: number,
+  busy: BusyPeriod[],
+  windows: WorkingWindow[],
+  now: Date = new Date()
+): TimeSlot[] {
+  const earliestStart = addMinutes(now, BOOKING_LEAD_MINUTES);
+  const slots: TimeSlot[] = [];
+
+  for (const window of windows) {
+    for (
+      let start = window.start;
+      addMinutes(start, durationMinutes) <= window.end;
+      start = addMinutes(start, SLOT_INTERVAL_MINUTES)
+    ) {
+      if (!isSameDay(start, day)) continue;
+
+      const slot = { start, end: addMinutes(start, durationMinutes) };
+      const available =
+        start >= earliestStart && !busy.some((period) => overlaps(slot, period));
+      slots.push({ ...slot, available });
+    }
+  }
+
+  return slots.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
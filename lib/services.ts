@@ -0,0 +1,235 @@
+import { supabase } from '@/lib/supabase';
+
+export interface Service {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  base_price: number;
+  parts_price: number;
+  estimated_duration: number;
+  /** False once an admin archives the service; it stays readable for old bookings. */
+  is_active: boolean;
+  /** Limits on mechanics' own terms; null means no change on that side. */
+  min_price: number | null;
+  max_price: number | null;
+  min_duration: number | null;
+  max_duration: number | null;
+}
+
+export interface ServiceInput {
+  name: string;
+  description: string;
+  category: string;
+  basePrice: string;
+  partsPrice: string;
+  duration: string;
+  minPrice: string;
+  maxPrice: string;
+  minDuration: string;
+  maxDuration: string;
+}
+
+export const SERVICE_CATEGORIES = ['maintenance', 'repair', 'inspection', 'emergency'];
+
+export interface ValueRange {
+  label: string;
+  min?: number;
+  max?: number;
+}
+
+export const PRICE_RANGES: ValueRange[] = [
+  { label: 'Under $50', max: 50 },
+  { label: '$50 – $100', min: 50, max: 100 },
+  { label: '$100+', min: 100 },
+];
+
+export const DURATION_RANGES: ValueRange[] = [
+  { label: 'Up to 30 min', max: 30 },
+  { label: '30 – 60 min', min: 30, max: 60 },
+  { label: 'Over 1 hour', min: 60 },
+];
+
+export type ServiceSort = 'recommended' | 'price_asc' | 'price_desc' | 'duration_asc';
+
+export const SERVICE_SORT_LABELS: Record<ServiceSort, string> = {
+  recommended: 'Recommended',
+  price_asc: 'Price: Low to High',
+  price_desc: 'Price: High to Low',
+  duration_asc: 'Quickest',
+};
+
+export interface ServiceFilters {
+  search: string;
+  category: string | null;
+  price: ValueRange | null;
+  duration: ValueRange | null;
+  sort: ServiceSort;
+}
+
+export const DEFAULT_SERVICE_FILTERS: ServiceFilters = {
+  search: '',
+  category: null,
+  price: null,
+  duration: null,
+  sort: 'recommended',
+};
+
+export function hasActiveFilters(filters: ServiceFilters) {
+  return (
+    filters.search.trim() !== '' ||
+    filters.category !== null ||
+    filters.price !== null ||
+    filters.duration !== null
+  );
+}
+
+/**
+ * Turns free text into a quoted PostgREST `ilike` pattern: LIKE wildcards in
+ * the text match literally, and commas or parentheses can't break out of the
+ * `or` filter.
+ */
+function toSearchPattern(text: string) {
+  const pattern = `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+  return `"${pattern.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/** Runs the search, filters and sort on the server. */
+export async function searchServices(
+  filters: ServiceFilters
+): Promise<{ services: Service[]; error: string | null }> {
+  let query = supabase.from('services').select('*').eq('is_active', true);
+
+  const search = filters.search.trim();
+  if (search) {
+    const pattern = toSearchPattern(search);
+    query = query.or(`name.ilike.${pattern},description.ilike.${pattern}`);
+  }
+  if (filters.category) {
+    query = query.eq('category', filters.category);
+  }
+  if (filters.price?.min !== undefined) {
+    query = query.gte('base_price', filters.price.min);
+  }
+  if (filters.price?.max !== undefined) {
+    query = query.lt('base_price', filters.price.max);
+  }
+  if (filters.duration?.min !== undefined) {
+    query = query.gt('estimated_duration', filters.duration.min);
+  }
+  if (filters.duration?.max !== undefined) {
+    query = query.lte('estimated_duration', filters.duration.max);
+  }
+
+  switch (filters.sort) {
+    case 'price_asc':
+      query = query.order('base_price', { ascending: true });
+      break;
+    case 'price_desc':
+      query = query.order('base_price', { ascending: false });
+      break;
+    case 'duration_asc':
+      query = query.order('estimated_duration', { ascending: true });
+      break;
+    default:
+      query = query.order('category', { ascending: true });
+  }
+
+  const { data, error } = await query.order('name', { ascending: true });
+  return { services: data ?? [], error: error?.message ?? null };
+}
+
+export async function fetchEmergencyServices(): Promise<Service[]> {
+  const { data } = await supabase
+    .from('services')
+    .select('*')
+    .eq('category', 'emergency')
+    .eq('is_active', true)
+    .order('base_price', { ascending: true });
+
+  return data ?? [];
+}
+
+/** The whole catalog, archived services included, for the admin screens. */
+export async function fetchAllServices(): Promise<Service[]> {
+  const { data } = await supabase
+    .from('services')
+    .select('*')
+    .order('is_active', { ascending: false })
+    .order('category', { ascending: true })
+    .order('name', { ascending: true });
+
+  return data ?? [];
+}
+
+export function validateService(input: ServiceInput) {
+  if (!input.name.trim() || !input.description.trim()) {
+    return 'Please enter a name and description';
+  }
+
+  if (!SERVICE_CATEGORIES.includes(input.category)) {
+    return 'Please choose a category';
+  }
+
+  const basePrice = Number(input.basePrice);
+  const partsPrice = Number(input.partsPrice || 0);
+  if (!input.basePrice.trim() || !Number.isFinite(basePrice) || basePrice < 0) {
+    return 'Labor price must be a positive amount';
+  }
+  if (!Number.isFinite(partsPrice) || partsPrice < 0) {
+    return 'Parts price must be a positive amount';
+  }
+
+  const duration = Number(input.duration);
+  if (!Number.isInteger(duration) || duration <= 0) {
+    return 'Duration must be a whole number of minutes';
+  }
+
+  // Blank bounds default to the standard price and duration.
+  const minPrice = Number(input.minPrice || basePrice);
+  const maxPrice = Number(input.maxPrice || basePrice);
+  if (!Number.isFinite(minPrice) || minPrice < 0 || minPrice > basePrice) {
+    return "Lowest mechanic price can't be above the labor price";
+  }
+  if (!Number.isFinite(maxPrice) || maxPrice < basePrice) {
+    return "Highest mechanic price can't be below the labor price";
+  }
+
+  const minDuration = Number(input.minDuration || duration);
+  const maxDuration = Number(input.maxDuration || duration);
+  if (!Number.isInteger(minDuration) || minDuration <= 0 || minDuration > duration) {
+    return "Shortest mechanic duration can't be above the standard duration";
+  }
+  if (!Number.isInteger(maxDuration) || maxDuration < duration) {
+    return "Longest mechanic duration can't be below the standard duration";
+  }
+
+  return '';
+}
+
+export function priceBounds(service: Service) {
+  return {
+    min: service.min_price ?? service.base_price,
+    max: service.max_price ?? service.base_price,
+  };
+}
+
+export function durationBounds(service: Service) {
+  return {
+    min: service.min_duration ?? service.estimated_duration,
+    max: service.max_duration ?? service.estimated_duration,
+  };
+}
+
+/**
+ * Archived services disappear from the catalog and can't be booked.
+ * Bookings already made keep their service and price.
+ */
+export async function setServiceArchived(serviceId: string, archived: boolean) {
+  const { error } = await supabase
+    .from('services')
+    .update({ is_active: !archived, updated_at: new Date().toISOString() })
+    .eq('id', serviceId);
+
+  return { error: error?.message ?? null };
+}
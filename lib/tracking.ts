@@ -0,0 +1,57 @@
+import { supabase } from '@/lib/supabase';
+import { Coordinates, distanceKm, estimateTravelMinutes } from '@/lib/location';
+
+export interface JobLocation {
+  booking_id: string;
+  mechanic_id: string;
+  customer_id: string;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  recorded_at: string;
+}
+
+/** How often, and after how much movement, a mechanic on a job sends their position. */
+export const TRACKING_INTERVAL_MS = 30 * 1000;
+export const TRACKING_DISTANCE_METERS = 50;
+
+/**
+ * Whether the mechanic's position is shared on this booking; matches
+ * `record_mechanic_location`. Tracking starts once they are on the way and
+ * stops when the job is completed or cancelled.
+ */
+export function isTrackedBooking(booking: { status: string; en_route_at: string | null }) {
+  return (
+    booking.status === 'in_progress' || (booking.status === 'accepted' && !!booking.en_route_at)
+  );
+}
+
+/** Stores the position on the mechanic's tracked bookings and returns how many there were. */
+export async function recordLocation(coordinates: Coordinates, accuracy: number | null) {
+  const { data, error } = await supabase.rpc('record_mechanic_location', {
+    p_latitude: coordinates.latitude,
+    p_longitude: coordinates.longitude,
+    p_accuracy: accuracy,
+  });
+
+  return { tracked: (data as number | null) ?? 0, error: error?.message ?? null };
+}
+
+export async function fetchJobLocations(customerId: string): Promise<JobLocation[]> {
+  const { data } = await supabase
+    .from('booking_tracking')
+    .select('*')
+    .eq('customer_id', customerId);
+
+  return data ?? [];
+}
+
+/** Straight-line distance from the mechanic to the job and the drive time it suggests. */
+export function estimateArrival(location: JobLocation, destination: Coordinates) {
+  const distance = distanceKm(
+    { latitude: Number(location.latitude), longitude: Number(location.longitude) },
+    destination
+  );
+
+  return { distance, minutes: estimateTravelMinutes(distance) };
+}
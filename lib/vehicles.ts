@@ -0,0 +1,62 @@
+import { validateVin } from '@/lib/vin';
+
+export interface Vehicle {
+  id: string;
+  owner_id: string;
+  make: string;
+  model: string;
+  year: number;
+  vin: string | null;
+  license_plate: string | null;
+  mileage: number | null;
+  nickname: string | null;
+}
+
+export interface VehicleInput {
+  make: string;
+  model: string;
+  year: string;
+  vin?: string;
+  mileage?: string;
+}
+
+export const MIN_VEHICLE_YEAR = 1886;
+
+export function maxVehicleYear() {
+  return new Date().getFullYear() + 1;
+}
+
+export function formatVehicle(vehicle: { make: string; model: string; year: number }) {
+  return `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+}
+
+export function vehicleLabel(vehicle: Vehicle) {
+  return vehicle.nickname ? `${vehicle.nickname} (${formatVehicle(vehicle)})` : formatVehicle(vehicle);
+}
+
+export function validateVehicle(input: VehicleInput) {
+  if (!input.make.trim() || !input.model.trim() || !input.year.trim()) {
+    return 'Please enter the vehicle make, model and year';
+  }
+
+  const year = Number(input.year);
+  if (!Number.isInteger(year) || year < MIN_VEHICLE_YEAR || year > maxVehicleYear()) {
+    return `Vehicle year must be between ${MIN_VEHICLE_YEAR} and ${maxVehicleYear()}`;
+  }
+
+  if (input.vin?.trim()) {
+    const vinError = validateVin(input.vin);
+    if (vinError) {
+      return vinError;
+    }
+  }
+
+  if (input.mileage) {
+    const mileage = Number(input.mileage);
+    if (!Number.isInteger(mileage) || mileage < 0) {
+      return 'Mileage must be a whole number of kilometers';
+    }
+  }
+
+  return '';
+}
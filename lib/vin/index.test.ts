@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeCheckDigit, decodeVin, normalizeVin, validateVin } from './index';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+// Real VINs whose check digits are known to be correct.
+const VALID_VINS = [
+  '1HGCM82633A004352', // 2003 Honda Accord
+  'JH4KA7561PC008269', // 1993 Acura Legend
+  '1M8GDM9AXKP042788', // 1989 MCI coach, check digit X
+  '1N4AL3AP8JC231503', // 2018 Nissan Altima
+  '1G1ZT53826F109149', // 2006 Chevrolet Malibu
+  '11111111111111111',
+];
+
+describe('validateVin', () => {
+  for (const vin of VALID_VINS) {
+    it(`accepts ${vin}`, () => {
+      assert.equal(validateVin(vin), '');
+    });
+  }
+
+  it('accepts lowercase input with spaces and dashes', () => {
+    assert.equal(normalizeVin(' 1hgcm826-33a004352 '), '1HGCM82633A004352');
+    assert.equal(validateVin(' 1hgcm826-33a004352 '), '');
+  });
+
+  it('rejects the wrong length', () => {
+    assert.equal(validateVin('1HGCM82633A00435'), 'VIN must be 17 characters');
+    assert.equal(validateVin('1HGCM82633A0043521'), 'VIN must be 17 characters');
+    assert.equal(validateVin(''), 'VIN must be 17 characters');
+  });
+
+  it('rejects I, O and Q', () => {
+    for (const vin of ['1HGCM82633A00435I', '1HGCM82633A0O4352', 'QHGCM82633A004352']) {
+      assert.equal(validateVin(vin), 'VINs never contain the letters I, O or Q');
+    }
+  });
+
+  it('rejects other characters', () => {
+    assert.equal(validateVin('1HGCM82633A00435*'), 'VIN can only contain letters and numbers');
+  });
+
+  it('rejects a wrong check digit', () => {
+    for (const vin of ['1HGCM82643A004352', 'JH4KA7560PC008269', '1M8GDM9A1KP042788']) {
+      assert.equal(validateVin(vin), 'This VIN is not valid. Please check it for typos');
+    }
+  });
+
+  it('catches a typo elsewhere in the VIN', () => {
+    assert.notEqual(validateVin('1HGCM82633A004325'), '');
+    assert.notEqual(validateVin('1HGCN82633A004352'), '');
+  });
+});
+
+describe('computeCheckDigit', () => {
+  it('matches position 9 of real VINs', () => {
+    for (const vin of VALID_VINS) {
+      assert.equal(computeCheckDigit(vin), vin[8]);
+    }
+  });
+
+  it('returns X for a remainder of 10', () => {
+    assert.equal(computeCheckDigit('1M8GDM9AXKP042788'), 'X');
+  });
+});
+
+describe('decodeVin', () => {
+  it('decodes the make, region, plant and serial number', () => {
+    const { decoded, error } = decodeVin('1HGCM82633A004352', NOW);
+
+    assert.equal(error, null);
+    assert.deepEqual(decoded, {
+      vin: '1HGCM82633A004352',
+      wmi: '1HG',
+      make: 'Honda',
+      region: 'United States',
+      modelYear: 2003,
+      plantCode: 'A',
+      plant: 'Marysville, Ohio',
+      serialNumber: '004352',
+    });
+  });
+
+  it('leaves unknown makes and plants empty', () => {
+    const { decoded } = decodeVin('11111111111111111', NOW);
+
+    assert.equal(decoded?.make, null);
+    assert.equal(decoded?.plant, null);
+  });
+
+  it('returns the validation error for an invalid VIN', () => {
+    assert.deepEqual(decodeVin('1HGCM82643A004352', NOW), {
+      decoded: null,
+      error: 'This VIN is not valid. Please check it for typos',
+    });
+  });
+
+  describe('model year', () => {
+    it('uses the 2010 cycle when position 7 is a letter', () => {
+      assert.equal(decodeVin('1N4AL3AP8JC231503', NOW).decoded?.modelYear, 2018);
+    });
+
+    it('uses the 1980 cycle for North American VINs with a digit in position 7', () => {
+      assert.equal(decodeVin('1M8GDM9AXKP042788', NOW).decoded?.modelYear, 1989);
+      assert.equal(decodeVin('JH4KA7561PC008269', NOW).decoded?.modelYear, 1993);
+      assert.equal(decodeVin('1G1ZT53826F109149', NOW).decoded?.modelYear, 2006);
+    });
+
+    it('otherwise picks the latest year no more than a year ahead', () => {
+      // Year codes S, V and W repeat 30 years apart: 1995/2025, 1997/2027, 1998/2028.
+      assert.equal(decodeVin('WDBRF52H5SF000001', NOW).decoded?.modelYear, 2025);
+      assert.equal(decodeVin('WDBRF52HXVF000001', NOW).decoded?.modelYear, 2027);
+      assert.equal(decodeVin('WDBRF52H8WF000001', NOW).decoded?.modelYear, 1998);
+      assert.equal(
+        decodeVin('WDBRF52H8WF000001', new Date('2027-03-01T12:00:00Z')).decoded?.modelYear,
+        2028
+      );
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { MODEL_YEAR_CODES, PLANT_CODES, REGION_BY_FIRST_CHAR, WMI_MAKES } from './tables';
+
+export interface DecodedVin {
+  vin: string;
+  wmi: string;
+  make: string | null;
+  region: string | null;
+  modelYear: number | null;
+  plantCode: string;
+  plant: string | null;
+  serialNumber: string;
+}
+
+export const VIN_LENGTH = 17;
+
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const CHECK_DIGIT_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const MODEL_YEAR_CYCLE_START = 1980;
+const MODEL_YEAR_CYCLE_LENGTH = 30;
+
+export function normalizeVin(input: string) {
+  return input.replace(/[\s-]/g, '').toUpperCase();
+}
+
+const characterValue = (character: string) =>
+  /[0-9]/.test(character) ? Number(character) : TRANSLITERATION[character];
+
+/** The ISO 3779 / 49 CFR 565 check digit for position 9 ('0'-'9' or 'X'). */
+export function computeCheckDigit(vin: string) {
+  const total = vin
+    .split('')
+    .reduce((sum, character, index) => sum + characterValue(character) * CHECK_DIGIT_WEIGHTS[index], 0);
+  const remainder = total % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+/** Returns an error message for an invalid VIN, or '' when it is valid. */
+export function validateVin(input: string) {
+  const vin = normalizeVin(input);
+
+  if (vin.length !== VIN_LENGTH) {
+    return `VIN must be ${VIN_LENGTH} characters`;
+  }
+
+  if (/[IOQ]/.test(vin)) {
+    return 'VINs never contain the letters I, O or Q';
+  }
+
+  if (!VIN_PATTERN.test(vin)) {
+    return 'VIN can only contain letters and numbers';
+  }
+
+  if (computeCheckDigit(vin) !== vin[8]) {
+    return 'This VIN is not valid. Please check it for typos';
+  }
+
+  return '';
+}
+
+/**
+ * Position 7 tells the two 30-year cycles apart for North American market
+ * vehicles: a letter there means 2010 or later, a digit means 1980-2009.
+ * Otherwise pick the latest candidate no more than a year in the future.
+ */
+function decodeModelYear(vin: string, now: Date) {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9]);
+  if (index === -1) return null;
+
+  const earlier = MODEL_YEAR_CYCLE_START + index;
+  const later = earlier + MODEL_YEAR_CYCLE_LENGTH;
+
+  if (/[A-Z]/.test(vin[6])) return later;
+  if (/[0-9]/.test(vin[6]) && 'JK12345'.includes(vin[0])) return earlier;
+
+  return later <= now.getFullYear() + 1 ? later : earlier;
+}
+
+export function decodeVin(
+  input: string,
+  now: Date = new Date()
+): { decoded: DecodedVin | null; error: string | null } {
+  const error = validateVin(input);
+  if (error) return { decoded: null, error };
+
+  const vin = normalizeVin(input);
+  const wmi = vin.slice(0, 3);
+  const make = WMI_MAKES[wmi] ?? null;
+  const plantCode = vin[10];
+
+  return {
+    decoded: {
+      vin,
+      wmi,
+      make,
+      region: REGION_BY_FIRST_CHAR[vin[0]] ?? null,
+      modelYear: decodeModelYear(vin, now),
+      plantCode,
+      plant: make ? PLANT_CODES[make]?.[plantCode] ?? null : null,
+      serialNumber: vin.slice(11),
+    },
+    error: null,
+  };
+}
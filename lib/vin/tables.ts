@@ -0,0 +1,153 @@
+/**
+ * World Manufacturer Identifiers (VIN positions 1-3) for the makes we see
+ * most often. Not exhaustive: unknown WMIs decode with a null make and the
+ * customer types it in as before.
+ */
+export const WMI_MAKES: Record<string, string> = {
+  '19U': 'Acura',
+  '19X': 'Honda',
+  '1C3': 'Chrysler',
+  '1C4': 'Jeep',
+  '1C6': 'Ram',
+  '1D7': 'Dodge',
+  '1FA': 'Ford',
+  '1FM': 'Ford',
+  '1FT': 'Ford',
+  '1G1': 'Chevrolet',
+  '1G6': 'Cadillac',
+  '1GC': 'Chevrolet',
+  '1GK': 'GMC',
+  '1GN': 'Chevrolet',
+  '1GT': 'GMC',
+  '1GY': 'Cadillac',
+  '1HG': 'Honda',
+  '1J4': 'Jeep',
+  '1LN': 'Lincoln',
+  '1N4': 'Nissan',
+  '1N6': 'Nissan',
+  '1VW': 'Volkswagen',
+  '1YV': 'Mazda',
+  '2C3': 'Chrysler',
+  '2FA': 'Ford',
+  '2G1': 'Chevrolet',
+  '2HG': 'Honda',
+  '2HK': 'Honda',
+  '2LM': 'Lincoln',
+  '2T1': 'Toyota',
+  '2T3': 'Toyota',
+  '3C4': 'Chrysler',
+  '3C6': 'Ram',
+  '3FA': 'Ford',
+  '3GC': 'Chevrolet',
+  '3GN': 'Chevrolet',
+  '3MZ': 'Mazda',
+  '3N1': 'Nissan',
+  '3TM': 'Toyota',
+  '3VW': 'Volkswagen',
+  '4JG': 'Mercedes-Benz',
+  '4S3': 'Subaru',
+  '4S4': 'Subaru',
+  '4T1': 'Toyota',
+  '4T3': 'Toyota',
+  '55S': 'Mercedes-Benz',
+  '5FN': 'Honda',
+  '5J6': 'Honda',
+  '5LM': 'Lincoln',
+  '5N1': 'Nissan',
+  '5NP': 'Hyundai',
+  '5TD': 'Toyota',
+  '5TF': 'Toyota',
+  '5UX': 'BMW',
+  '5YJ': 'Tesla',
+  '7SA': 'Tesla',
+  JA3: 'Mitsubishi',
+  JF1: 'Subaru',
+  JF2: 'Subaru',
+  JH4: 'Acura',
+  JHM: 'Honda',
+  JM1: 'Mazda',
+  JN1: 'Nissan',
+  JN8: 'Nissan',
+  JT2: 'Toyota',
+  JTD: 'Toyota',
+  JTE: 'Toyota',
+  JTH: 'Lexus',
+  JTJ: 'Lexus',
+  KM8: 'Hyundai',
+  KMH: 'Hyundai',
+  KMT: 'Genesis',
+  KNA: 'Kia',
+  KND: 'Kia',
+  SAJ: 'Jaguar',
+  SAL: 'Land Rover',
+  SCC: 'Lotus',
+  TRU: 'Audi',
+  VF1: 'Renault',
+  VF3: 'Peugeot',
+  VF7: 'Citroën',
+  WAU: 'Audi',
+  WBA: 'BMW',
+  WBS: 'BMW',
+  WDB: 'Mercedes-Benz',
+  WDD: 'Mercedes-Benz',
+  WMW: 'MINI',
+  WP0: 'Porsche',
+  WUA: 'Audi',
+  WVG: 'Volkswagen',
+  WVW: 'Volkswagen',
+  YV1: 'Volvo',
+  ZAR: 'Alfa Romeo',
+  ZFA: 'Fiat',
+  ZFF: 'Ferrari',
+};
+
+/** Country or region of manufacture by the first VIN character. */
+export const REGION_BY_FIRST_CHAR: Record<string, string> = {
+  '1': 'United States',
+  '2': 'Canada',
+  '3': 'Mexico',
+  '4': 'United States',
+  '5': 'United States',
+  '7': 'United States',
+  '9': 'Brazil',
+  J: 'Japan',
+  K: 'South Korea',
+  L: 'China',
+  S: 'United Kingdom',
+  T: 'Europe',
+  V: 'France / Spain',
+  W: 'Germany',
+  Y: 'Sweden / Finland',
+  Z: 'Italy',
+};
+
+/** Assembly plants by make and VIN position 11, where we know them. */
+export const PLANT_CODES: Record<string, Record<string, string>> = {
+  Honda: {
+    A: 'Marysville, Ohio',
+    C: 'Sayama, Japan',
+    H: 'Alliston, Ontario',
+    L: 'East Liberty, Ohio',
+  },
+  Ford: {
+    '5': 'Flat Rock, Michigan',
+    F: 'Dearborn, Michigan',
+    G: 'Chicago, Illinois',
+    K: 'Kansas City, Missouri',
+  },
+  Tesla: {
+    A: 'Austin, Texas',
+    B: 'Berlin, Germany',
+    C: 'Shanghai, China',
+    F: 'Fremont, California',
+  },
+  Volkswagen: {
+    C: 'Chattanooga, Tennessee',
+  },
+};
+
+/**
+ * Model year codes (VIN position 10). The 30-code cycle repeats, so each code
+ * maps to two candidate years: 1980-2009 and 2010-2039.
+ */
+export const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
@@ -0,0 +1,28 @@
+/*
+  # Mechanic Job Queue Access
+
+  ## Overview
+  Lets mechanics see who they are working for in the Bookings tab job queue.
+
+  ## Changes
+
+  1. **profiles**
+     - New SELECT policy so a mechanic can read the profile of any customer
+       who has a booking assigned to them (name and phone for the job card)
+
+  ## Notes
+  - Status changes made from the job queue (accept, decline, start, complete)
+    go through the existing "Mechanics can update assigned bookings" policy
+*/
+
+CREATE POLICY "Mechanics can view assigned customers"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (
+    id IN (
+      SELECT customer_id FROM bookings
+      WHERE mechanic_id IN (
+        SELECT id FROM mechanics WHERE user_id = auth.uid()
+      )
+    )
+  );
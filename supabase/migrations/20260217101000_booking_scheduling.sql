@@ -0,0 +1,82 @@
+/*
+  # Booking Scheduling
+
+  ## Overview
+  Supports booking a service for a chosen date and time slot instead of "now".
+
+  ## Functions
+
+  1. **get_mechanic_busy_times(p_mechanic_id, p_from, p_to)**
+     - Returns `scheduled_time` and the service `estimated_duration` of every
+       active (not cancelled or completed) booking for a mechanic in a window
+     - SECURITY DEFINER so customers can see when a mechanic is busy without
+       being able to read other customers' bookings
+
+  2. **prevent_overlapping_bookings()**
+     - BEFORE INSERT trigger on bookings that rejects a booking whose time
+       range overlaps an active booking for the same mechanic
+
+  ## Indexes
+  - `bookings (mechanic_id, scheduled_time)` for the lookups above
+*/
+
+CREATE INDEX IF NOT EXISTS bookings_mechanic_scheduled_time_idx
+  ON bookings (mechanic_id, scheduled_time);
+
+CREATE OR REPLACE FUNCTION get_mechanic_busy_times(
+  p_mechanic_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (scheduled_time timestamptz, estimated_duration integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.scheduled_time, s.estimated_duration
+  FROM bookings b
+  JOIN services s ON s.id = b.service_id
+  WHERE b.mechanic_id = p_mechanic_id
+    AND b.status IN ('pending', 'accepted', 'in_progress')
+    AND b.scheduled_time < p_to
+    AND b.scheduled_time + make_interval(mins => s.estimated_duration) > p_from
+  ORDER BY b.scheduled_time;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_mechanic_busy_times(uuid, timestamptz, timestamptz) TO authenticated;
+
+CREATE OR REPLACE FUNCTION prevent_overlapping_bookings()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_duration integer;
+BEGIN
+  IF NEW.mechanic_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT estimated_duration INTO v_duration FROM services WHERE id = NEW.service_id;
+
+  IF EXISTS (
+    SELECT 1
+    FROM get_mechanic_busy_times(
+      NEW.mechanic_id,
+      NEW.scheduled_time,
+      NEW.scheduled_time + make_interval(mins => v_duration)
+    )
+  ) THEN
+    RAISE EXCEPTION 'This mechanic is already booked at the selected time';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_prevent_overlap
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_overlapping_bookings();
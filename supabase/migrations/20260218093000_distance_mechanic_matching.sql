@@ -0,0 +1,97 @@
+/*
+  # Distance-Aware Mechanic Matching
+
+  ## Overview
+  Only offers customers mechanics whose `service_radius` covers the booking
+  location, ranked by how close, well rated and experienced they are.
+
+  ## Functions
+
+  1. **distance_km(lat1, lon1, lat2, lon2)**
+     - Great-circle (haversine) distance in kilometers between two points
+
+  2. **match_mechanics(p_latitude, p_longitude, p_limit)**
+     - Returns available mechanics with a known position whose service radius
+       reaches the given point, with `distance_km` and `match_score`
+     - `match_score` blends proximity (50%), rating (35%) and completed jobs
+       (15%, saturating at 100 jobs); results are ordered by it
+
+  ## Indexes
+  - Partial index on available mechanics' coordinates
+*/
+
+CREATE OR REPLACE FUNCTION distance_km(
+  lat1 numeric,
+  lon1 numeric,
+  lat2 numeric,
+  lon2 numeric
+)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (
+    6371 * 2 * asin(
+      sqrt(
+        power(sin(radians(lat2 - lat1) / 2), 2)
+        + cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lon2 - lon1) / 2), 2)
+      )
+    )
+  )::numeric;
+$$;
+
+CREATE INDEX IF NOT EXISTS mechanics_available_location_idx
+  ON mechanics (current_latitude, current_longitude)
+  WHERE is_available = true;
+
+CREATE OR REPLACE FUNCTION match_mechanics(
+  p_latitude numeric,
+  p_longitude numeric,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  business_name text,
+  rating numeric,
+  total_jobs integer,
+  years_experience integer,
+  service_radius integer,
+  is_available boolean,
+  distance_km numeric,
+  match_score numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      m.*,
+      distance_km(p_latitude, p_longitude, m.current_latitude, m.current_longitude) AS distance
+    FROM mechanics m
+    WHERE m.is_available = true
+      AND m.current_latitude IS NOT NULL
+      AND m.current_longitude IS NOT NULL
+  )
+  SELECT
+    c.id,
+    c.business_name,
+    c.rating,
+    c.total_jobs,
+    c.years_experience,
+    c.service_radius,
+    c.is_available,
+    round(c.distance, 2) AS distance_km,
+    round(
+      0.5 * (1 - c.distance / greatest(c.service_radius, 1))
+      + 0.35 * (coalesce(c.rating, 0) / 5)
+      + 0.15 * (least(coalesce(c.total_jobs, 0), 100)::numeric / 100),
+      4
+    ) AS match_score
+  FROM candidates c
+  WHERE c.distance <= c.service_radius
+  ORDER BY match_score DESC, c.distance ASC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION distance_km(numeric, numeric, numeric, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION match_mechanics(numeric, numeric, integer) TO authenticated;
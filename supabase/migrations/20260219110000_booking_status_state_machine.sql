@@ -0,0 +1,221 @@
+/*
+  # Booking Status State Machine
+
+  ## Overview
+  Restricts booking status changes to an explicit set of transitions, each
+  limited to the roles allowed to perform it, and records every change in an
+  audit trail for disputes. The same transitions are defined for the client in
+  `lib/bookingStatus.ts`.
+
+  ## Tables Created
+
+  1. **booking_status_transitions**
+     - `from_status` (text)
+     - `to_status` (text)
+     - `actor_role` (text: 'customer', 'mechanic' or 'system')
+
+  2. **booking_events**
+     - `id` (uuid, primary key)
+     - `booking_id` (uuid, references bookings)
+     - `from_status` (text, null for the creation event)
+     - `to_status` (text)
+     - `actor_id` (uuid, references profiles, null for system changes)
+     - `actor_role` (text)
+     - `reason` (text)
+     - `created_at` (timestamptz)
+
+  ## Functions
+
+  1. **booking_actor_role(booking)** - role of the current user for a booking
+  2. **enforce_booking_status_transition()** - BEFORE UPDATE trigger that
+     rejects transitions not listed in `booking_status_transitions`
+  3. **record_booking_event()** - AFTER INSERT/UPDATE trigger that writes
+     `booking_events`
+  4. **transition_booking(p_booking_id, p_status, p_reason)** - RPC used by the
+     app to change status with a reason
+
+  ## Security
+  - Both tables have RLS enabled
+  - Transitions are readable by all authenticated users
+  - Events are readable by the booking's customer and assigned mechanic and
+    are only ever written by the trigger
+*/
+
+-- Allowed transitions
+CREATE TABLE IF NOT EXISTS booking_status_transitions (
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  actor_role text NOT NULL,
+  PRIMARY KEY (from_status, to_status, actor_role),
+  CONSTRAINT valid_actor_role CHECK (actor_role IN ('customer', 'mechanic', 'system'))
+);
+
+ALTER TABLE booking_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view booking status transitions"
+  ON booking_status_transitions FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO booking_status_transitions (from_status, to_status, actor_role) VALUES
+  ('pending', 'accepted', 'mechanic'),
+  ('pending', 'cancelled', 'customer'),
+  ('pending', 'cancelled', 'mechanic'),
+  ('pending', 'cancelled', 'system'),
+  ('accepted', 'in_progress', 'mechanic'),
+  ('accepted', 'cancelled', 'customer'),
+  ('accepted', 'cancelled', 'mechanic'),
+  ('accepted', 'cancelled', 'system'),
+  ('in_progress', 'completed', 'mechanic')
+ON CONFLICT DO NOTHING;
+
+-- Audit trail
+CREATE TABLE IF NOT EXISTS booking_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  from_status text,
+  to_status text NOT NULL,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  actor_role text NOT NULL,
+  reason text DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS booking_events_booking_id_idx
+  ON booking_events (booking_id, created_at);
+
+ALTER TABLE booking_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view events for own bookings"
+  ON booking_events FOR SELECT
+  TO authenticated
+  USING (
+    booking_id IN (
+      SELECT id FROM bookings WHERE customer_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Mechanics can view events for assigned bookings"
+  ON booking_events FOR SELECT
+  TO authenticated
+  USING (
+    booking_id IN (
+      SELECT id FROM bookings
+      WHERE mechanic_id IN (
+        SELECT id FROM mechanics WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION booking_actor_role(p_booking bookings)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN 'system'
+    WHEN auth.uid() = p_booking.customer_id THEN 'customer'
+    WHEN EXISTS (
+      SELECT 1 FROM mechanics
+      WHERE id = p_booking.mechanic_id AND user_id = auth.uid()
+    ) THEN 'mechanic'
+    ELSE NULL
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_booking_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role text;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  v_role := booking_actor_role(OLD);
+
+  IF v_role IS NULL OR NOT EXISTS (
+    SELECT 1 FROM booking_status_transitions
+    WHERE from_status = OLD.status
+      AND to_status = NEW.status
+      AND actor_role = v_role
+  ) THEN
+    RAISE EXCEPTION 'Cannot change booking from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_enforce_status_transition
+  BEFORE UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_booking_status_transition();
+
+CREATE OR REPLACE FUNCTION record_booking_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO booking_events (booking_id, from_status, to_status, actor_id, actor_role, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    coalesce(booking_actor_role(NEW), 'system'),
+    coalesce(current_setting('app.booking_transition_reason', true), '')
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_record_event
+  AFTER INSERT OR UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION record_booking_event();
+
+CREATE OR REPLACE FUNCTION transition_booking(
+  p_booking_id uuid,
+  p_status text,
+  p_reason text DEFAULT NULL
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+BEGIN
+  PERFORM set_config('app.booking_transition_reason', coalesce(p_reason, ''), true);
+
+  UPDATE bookings
+  SET status = p_status
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  PERFORM set_config('app.booking_transition_reason', '', true);
+  RETURN v_booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transition_booking(uuid, text, text) TO authenticated;
@@ -0,0 +1,115 @@
+/*
+  # Reviews and Mechanic Stats
+
+  ## Overview
+  Makes the review flow work end to end: one review per completed booking,
+  and mechanic `rating` / `total_jobs` kept up to date from real data.
+
+  ## Changes
+
+  1. **reviews**
+     - Unique constraint on `booking_id` (one review per booking)
+     - Insert policy now also requires the booking to belong to the customer,
+       be `completed`, and be assigned to the reviewed mechanic
+     - Customers can update their own review
+
+  ## Functions
+
+  1. **refresh_mechanic_stats(p_mechanic_id)**
+     - Sets `rating` to the average review rating (0 with no reviews) and
+       `total_jobs` to the number of completed bookings
+  2. **reviews_refresh_mechanic_stats()** - trigger after review changes
+  3. **bookings_refresh_mechanic_stats()** - trigger after a booking is completed
+
+  ## Notes
+  - Existing mechanics are backfilled at the end of this migration
+*/
+
+ALTER TABLE reviews
+  ADD CONSTRAINT reviews_booking_id_key UNIQUE (booking_id);
+
+DROP POLICY IF EXISTS "Customers can create reviews for their bookings" ON reviews;
+
+CREATE POLICY "Customers can create reviews for their bookings"
+  ON reviews FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    customer_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.id = reviews.booking_id
+        AND b.customer_id = auth.uid()
+        AND b.mechanic_id = reviews.mechanic_id
+        AND b.status = 'completed'
+    )
+  );
+
+CREATE POLICY "Customers can update own reviews"
+  ON reviews FOR UPDATE
+  TO authenticated
+  USING (customer_id = auth.uid())
+  WITH CHECK (customer_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION refresh_mechanic_stats(p_mechanic_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE mechanics m
+  SET
+    rating = coalesce(
+      (SELECT round(avg(r.rating), 2) FROM reviews r WHERE r.mechanic_id = m.id),
+      0
+    ),
+    total_jobs = (
+      SELECT count(*) FROM bookings b
+      WHERE b.mechanic_id = m.id AND b.status = 'completed'
+    )
+  WHERE m.id = p_mechanic_id;
+$$;
+
+CREATE OR REPLACE FUNCTION reviews_refresh_mechanic_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_mechanic_stats(OLD.mechanic_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM refresh_mechanic_stats(NEW.mechanic_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER reviews_refresh_mechanic_stats
+  AFTER INSERT OR UPDATE OR DELETE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION reviews_refresh_mechanic_stats();
+
+CREATE OR REPLACE FUNCTION bookings_refresh_mechanic_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.mechanic_id IS NOT NULL
+    AND NEW.status = 'completed'
+    AND OLD.status IS DISTINCT FROM 'completed' THEN
+    PERFORM refresh_mechanic_stats(NEW.mechanic_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER bookings_refresh_mechanic_stats
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION bookings_refresh_mechanic_stats();
+
+SELECT refresh_mechanic_stats(id) FROM mechanics;
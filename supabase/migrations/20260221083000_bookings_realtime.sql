@@ -0,0 +1,13 @@
+/*
+  # Bookings Realtime
+
+  ## Overview
+  Publishes `bookings` changes over Supabase Realtime so the Bookings tab can
+  show new bookings and status changes without a manual refresh.
+
+  ## Changes
+  - Adds `bookings` to the `supabase_realtime` publication
+  - Existing SELECT policies decide which changes each user receives
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE bookings;
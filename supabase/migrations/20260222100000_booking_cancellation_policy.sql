@@ -0,0 +1,122 @@
+/*
+  # Booking Cancellation Policy
+
+  ## Overview
+  Lets customers cancel pending and accepted bookings and charges a fee based
+  on a single cancellation policy. The policy numbers live in the
+  `cancellation_policy` table; the app reads the same row through
+  `lib/cancellationPolicy.ts` to show the fee before the customer confirms,
+  and the trigger below computes the fee that is actually stored.
+
+  ## Tables Created
+
+  1. **cancellation_policy** (single row)
+     - `id` (boolean, always true)
+     - `free_window_hours` (integer) - free if cancelled at least this long
+       before `scheduled_time`
+     - `late_fee_percent` (numeric) - fee inside the free window
+     - `en_route_fee_percent` (numeric) - fee once the mechanic is en route
+
+  ## Changes
+
+  1. **bookings**
+     - `en_route_at` (timestamptz) - set by the mechanic when leaving for the job
+     - `cancellation_fee` (numeric)
+     - `cancellation_reason` (text)
+     - `cancelled_at` (timestamptz)
+     - `cancelled_by` (uuid, references profiles)
+
+  ## Functions
+
+  1. **calculate_cancellation_fee(booking)** - fee the policy charges now
+  2. **apply_booking_cancellation()** - BEFORE UPDATE trigger that fills the
+     cancellation columns when a booking is cancelled and stops users from
+     editing them (or `en_route_at`) directly
+
+  ## Notes
+  - Only customers are charged; mechanic and system cancellations are free
+*/
+
+CREATE TABLE IF NOT EXISTS cancellation_policy (
+  id boolean PRIMARY KEY DEFAULT true,
+  free_window_hours integer NOT NULL DEFAULT 24,
+  late_fee_percent numeric NOT NULL DEFAULT 25,
+  en_route_fee_percent numeric NOT NULL DEFAULT 50,
+  CONSTRAINT single_row CHECK (id),
+  CONSTRAINT valid_fee_percents CHECK (
+    late_fee_percent BETWEEN 0 AND 100 AND en_route_fee_percent BETWEEN 0 AND 100
+  )
+);
+
+ALTER TABLE cancellation_policy ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view the cancellation policy"
+  ON cancellation_policy FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO cancellation_policy (id) VALUES (true)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS en_route_at timestamptz,
+  ADD COLUMN IF NOT EXISTS cancellation_fee numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cancellation_reason text DEFAULT '',
+  ADD COLUMN IF NOT EXISTS cancelled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS cancelled_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION calculate_cancellation_fee(p_booking bookings)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT round(
+    p_booking.total_price * CASE
+      WHEN p_booking.en_route_at IS NOT NULL THEN p.en_route_fee_percent
+      WHEN p_booking.scheduled_time - now() < make_interval(hours => p.free_window_hours)
+        THEN p.late_fee_percent
+      ELSE 0
+    END / 100,
+    2
+  )
+  FROM cancellation_policy p;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_booking_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role text := booking_actor_role(OLD);
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.cancellation_reason := coalesce(current_setting('app.booking_transition_reason', true), '');
+    NEW.cancellation_fee := CASE
+      WHEN v_role = 'customer' THEN coalesce(calculate_cancellation_fee(OLD), 0)
+      ELSE 0
+    END;
+  ELSE
+    NEW.cancelled_at := OLD.cancelled_at;
+    NEW.cancelled_by := OLD.cancelled_by;
+    NEW.cancellation_reason := OLD.cancellation_reason;
+    NEW.cancellation_fee := OLD.cancellation_fee;
+  END IF;
+
+  IF NEW.en_route_at IS DISTINCT FROM OLD.en_route_at
+    AND (v_role IS DISTINCT FROM 'mechanic' OR OLD.status <> 'accepted') THEN
+    NEW.en_route_at := OLD.en_route_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_apply_cancellation
+  BEFORE UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_booking_cancellation();
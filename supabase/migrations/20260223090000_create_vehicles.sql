@@ -0,0 +1,108 @@
+/*
+  # My Garage: Saved Vehicles
+
+  ## Overview
+  Lets customers save their vehicles once and reuse them across bookings.
+  Bookings keep the denormalized `vehicle_make`, `vehicle_model` and
+  `vehicle_year` columns so history is unaffected if a vehicle is edited or
+  removed.
+
+  ## Tables Created
+
+  1. **vehicles**
+     - `id` (uuid, primary key)
+     - `owner_id` (uuid, references profiles)
+     - `make` (text)
+     - `model` (text)
+     - `year` (integer; the app limits it to next model year)
+     - `vin` (text, optional, 17 characters)
+     - `license_plate` (text, optional)
+     - `mileage` (integer, optional, kilometers)
+     - `nickname` (text, optional)
+     - `created_at` (timestamptz)
+     - `updated_at` (timestamptz)
+
+  ## Changes
+
+  1. **bookings**
+     - `vehicle_id` (uuid, references vehicles, set null on delete)
+     - `valid_vehicle_year` CHECK on `vehicle_year` for new rows
+     - Insert policy only accepts vehicles owned by the customer
+
+  ## Security
+  - Owners have full access to their vehicles
+  - Mechanics can view vehicles on bookings assigned to them
+*/
+
+CREATE TABLE IF NOT EXISTS vehicles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  make text NOT NULL,
+  model text NOT NULL,
+  year integer NOT NULL,
+  vin text,
+  license_plate text,
+  mileage integer,
+  nickname text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_year CHECK (year >= 1886 AND year <= 2100),
+  CONSTRAINT valid_vin CHECK (vin IS NULL OR vin ~ '^[A-HJ-NPR-Z0-9]{17}$'),
+  CONSTRAINT valid_mileage CHECK (mileage IS NULL OR mileage >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS vehicles_owner_id_idx ON vehicles (owner_id);
+
+ALTER TABLE vehicles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view own vehicles"
+  ON vehicles FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Owners can insert own vehicles"
+  ON vehicles FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners can update own vehicles"
+  ON vehicles FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners can delete own vehicles"
+  ON vehicles FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS vehicle_id uuid REFERENCES vehicles(id) ON DELETE SET NULL;
+
+ALTER TABLE bookings
+  ADD CONSTRAINT valid_vehicle_year CHECK (vehicle_year >= 1886 AND vehicle_year <= 2100) NOT VALID;
+
+CREATE POLICY "Mechanics can view vehicles on assigned bookings"
+  ON vehicles FOR SELECT
+  TO authenticated
+  USING (
+    id IN (
+      SELECT vehicle_id FROM bookings
+      WHERE mechanic_id IN (
+        SELECT id FROM mechanics WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Customers can create bookings" ON bookings;
+
+CREATE POLICY "Customers can create bookings"
+  ON bookings FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    customer_id = auth.uid()
+    AND (
+      vehicle_id IS NULL
+      OR vehicle_id IN (SELECT id FROM vehicles WHERE owner_id = auth.uid())
+    )
+  );
@@ -0,0 +1,92 @@
+/*
+  # Vehicle Service History and Maintenance Rules
+
+  ## Overview
+  Completed bookings linked to a saved vehicle form that vehicle's service
+  history. Bookings now record the odometer reading at the time of service,
+  and maintenance rules describe how often each service should be repeated
+  ("oil change every 8,000 km or 6 months") so the app can work out what is
+  due next.
+
+  ## Tables Created
+
+  1. **maintenance_rules**
+     - `id` (uuid, primary key)
+     - `service_id` (uuid, references services)
+     - `name` (text)
+     - `interval_km` (integer, optional)
+     - `interval_months` (integer, optional)
+     - `created_at` (timestamptz)
+
+  ## Changes
+
+  1. **bookings**
+     - `vehicle_mileage` (integer, optional, kilometers at time of booking)
+     - Index on (vehicle_id, scheduled_time) for history lookups
+
+  ## Functions
+  - `sync_vehicle_mileage()` trigger keeps `vehicles.mileage` at the highest
+    reading recorded on a booking
+
+  ## Security
+  - All authenticated users can read maintenance rules
+*/
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS vehicle_mileage integer,
+  ADD CONSTRAINT valid_vehicle_mileage CHECK (vehicle_mileage IS NULL OR vehicle_mileage >= 0);
+
+CREATE INDEX IF NOT EXISTS bookings_vehicle_id_scheduled_time_idx
+  ON bookings (vehicle_id, scheduled_time);
+
+CREATE TABLE IF NOT EXISTS maintenance_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id uuid REFERENCES services(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  interval_km integer,
+  interval_months integer,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT has_interval CHECK (interval_km IS NOT NULL OR interval_months IS NOT NULL),
+  CONSTRAINT valid_interval_km CHECK (interval_km IS NULL OR interval_km > 0),
+  CONSTRAINT valid_interval_months CHECK (interval_months IS NULL OR interval_months > 0)
+);
+
+ALTER TABLE maintenance_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view maintenance rules"
+  ON maintenance_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO maintenance_rules (service_id, name, interval_km, interval_months)
+SELECT services.id, rule.name, rule.interval_km, rule.interval_months
+FROM (VALUES
+  ('Oil Change', 'Oil change', 8000, 6),
+  ('Tire Rotation', 'Tire rotation', 10000, 6),
+  ('Brake Inspection', 'Brake inspection', 20000, 12),
+  ('Engine Diagnostic', 'Engine check-up', NULL, 24)
+) AS rule (service_name, name, interval_km, interval_months)
+JOIN services ON services.name = rule.service_name;
+
+CREATE OR REPLACE FUNCTION sync_vehicle_mileage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.vehicle_id IS NOT NULL AND NEW.vehicle_mileage IS NOT NULL THEN
+    UPDATE vehicles
+    SET mileage = NEW.vehicle_mileage, updated_at = now()
+    WHERE id = NEW.vehicle_id
+      AND (mileage IS NULL OR mileage < NEW.vehicle_mileage);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_sync_vehicle_mileage
+  AFTER INSERT OR UPDATE OF vehicle_mileage ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_vehicle_mileage();
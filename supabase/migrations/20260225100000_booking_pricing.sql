@@ -0,0 +1,390 @@
+/*
+  # Itemized Booking Pricing
+
+  ## Overview
+  Replaces `total_price = services.base_price` with an itemized quote. The
+  server builds the quote from the service, the mechanic's distance to the
+  customer, the appointment time and an optional promo code, stores it as
+  booking line items and derives `bookings.total_price` from them, so the
+  client cannot choose its own price. The app previews the same quote via
+  `quote_booking` before the customer confirms.
+
+  ## Tables Created
+
+  1. **pricing_config** (single row)
+     - `id` (boolean, always true)
+     - `labor_rate_per_hour` (numeric)
+     - `travel_free_km` (numeric) - distance included at no charge
+     - `travel_fee_per_km` (numeric) - charged beyond the free distance
+     - `after_hours_surcharge_percent` (numeric) - on labor outside business hours
+     - `emergency_surcharge_percent` (numeric) - on labor for emergency services
+     - `tax_percent` (numeric)
+     - `business_hours_start` / `business_hours_end` (integer, local hour)
+     - `time_zone` (text) - used to decide what counts as after hours
+
+  2. **promo_codes**
+     - `code` (text, primary key, uppercase)
+     - `percent_off` (numeric)
+     - `is_active` (boolean)
+     - `expires_at` (timestamptz, optional)
+
+  3. **booking_line_items**
+     - `id` (uuid, primary key)
+     - `booking_id` (uuid, references bookings)
+     - `position` (integer) - display order
+     - `kind` (text: 'labor', 'parts', 'travel', 'surcharge', 'discount', 'tax')
+     - `description` (text)
+     - `quantity` (numeric)
+     - `unit_price` (numeric)
+     - `amount` (numeric, negative for discounts)
+     - `created_at` (timestamptz)
+
+  ## Changes
+
+  1. **services**
+     - `parts_price` (numeric) - parts included with the service
+  2. **bookings**
+     - `promo_code` (text, optional)
+     - `total_price` is set from the quote on insert and always equals the
+       sum of the booking's line items afterwards
+
+  ## Functions
+
+  1. **quote_booking(...)** - itemized quote for a prospective booking
+  2. **price_new_booking()** - BEFORE INSERT trigger that sets `total_price`
+  3. **create_booking_line_items()** - AFTER INSERT trigger that stores the quote
+  4. **protect_booking_total()** - BEFORE UPDATE trigger that keeps
+     `total_price` in line with the stored items
+
+  ## Security
+  - Everyone can read the pricing config
+  - Promo codes are not readable; they are only checked inside `quote_booking`
+  - Customers and mechanics can view line items on their own bookings
+  - Line items are only written by the triggers above
+
+  ## Notes
+  - `services.base_price` stays as the advertised starting price
+  - Emergency services take the emergency surcharge instead of the
+    after-hours one; weekends count as after hours
+*/
+
+CREATE TABLE IF NOT EXISTS pricing_config (
+  id boolean PRIMARY KEY DEFAULT true,
+  labor_rate_per_hour numeric NOT NULL DEFAULT 90,
+  travel_free_km numeric NOT NULL DEFAULT 10,
+  travel_fee_per_km numeric NOT NULL DEFAULT 1.5,
+  after_hours_surcharge_percent numeric NOT NULL DEFAULT 20,
+  emergency_surcharge_percent numeric NOT NULL DEFAULT 30,
+  tax_percent numeric NOT NULL DEFAULT 8.5,
+  business_hours_start integer NOT NULL DEFAULT 8,
+  business_hours_end integer NOT NULL DEFAULT 18,
+  time_zone text NOT NULL DEFAULT 'America/Los_Angeles',
+  CONSTRAINT single_row CHECK (id),
+  CONSTRAINT valid_rates CHECK (
+    labor_rate_per_hour >= 0 AND travel_free_km >= 0 AND travel_fee_per_km >= 0
+  ),
+  CONSTRAINT valid_percents CHECK (
+    after_hours_surcharge_percent >= 0
+    AND emergency_surcharge_percent >= 0
+    AND tax_percent BETWEEN 0 AND 100
+  ),
+  CONSTRAINT valid_business_hours CHECK (
+    business_hours_start BETWEEN 0 AND 23
+    AND business_hours_end BETWEEN 1 AND 24
+    AND business_hours_start < business_hours_end
+  )
+);
+
+ALTER TABLE pricing_config ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view the pricing config"
+  ON pricing_config FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO pricing_config (id) VALUES (true)
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  code text PRIMARY KEY,
+  percent_off numeric NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  expires_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT uppercase_code CHECK (code = upper(code)),
+  CONSTRAINT valid_percent_off CHECK (percent_off > 0 AND percent_off <= 100)
+);
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE services
+  ADD COLUMN IF NOT EXISTS parts_price numeric NOT NULL DEFAULT 0,
+  ADD CONSTRAINT valid_parts_price CHECK (parts_price >= 0);
+
+UPDATE services SET parts_price = 25 WHERE name = 'Oil Change';
+UPDATE services SET parts_price = 110 WHERE name = 'Battery Replacement';
+UPDATE services SET parts_price = 15 WHERE name = 'Flat Tire Repair';
+UPDATE services SET parts_price = 85 WHERE name = 'Brake Pad Replacement';
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS promo_code text;
+
+CREATE TABLE IF NOT EXISTS booking_line_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL,
+  kind text NOT NULL,
+  description text NOT NULL,
+  quantity numeric NOT NULL DEFAULT 1,
+  unit_price numeric NOT NULL,
+  amount numeric NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_line_item_kind CHECK (
+    kind IN ('labor', 'parts', 'travel', 'surcharge', 'discount', 'tax')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS booking_line_items_booking_id_idx
+  ON booking_line_items (booking_id, position);
+
+ALTER TABLE booking_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view own booking line items"
+  ON booking_line_items FOR SELECT
+  TO authenticated
+  USING (
+    booking_id IN (SELECT id FROM bookings WHERE customer_id = auth.uid())
+  );
+
+CREATE POLICY "Mechanics can view assigned booking line items"
+  ON booking_line_items FOR SELECT
+  TO authenticated
+  USING (
+    booking_id IN (
+      SELECT id FROM bookings
+      WHERE mechanic_id IN (
+        SELECT id FROM mechanics WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION quote_booking(
+  p_service_id uuid,
+  p_mechanic_id uuid,
+  p_latitude numeric,
+  p_longitude numeric,
+  p_scheduled_time timestamptz,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS TABLE (
+  kind text,
+  description text,
+  quantity numeric,
+  unit_price numeric,
+  amount numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config pricing_config;
+  v_service services;
+  v_mechanic mechanics;
+  v_promo promo_codes;
+  v_labor numeric;
+  v_local_time timestamp;
+  v_billable_km numeric;
+  v_subtotal numeric := 0;
+BEGIN
+  SELECT * INTO v_config FROM pricing_config LIMIT 1;
+  SELECT * INTO v_service FROM services WHERE id = p_service_id;
+
+  IF v_service.id IS NULL THEN
+    RAISE EXCEPTION 'Service not found';
+  END IF;
+
+  v_labor := round(v_config.labor_rate_per_hour * v_service.estimated_duration / 60.0, 2);
+  kind := 'labor';
+  description := 'Labor: ' || v_service.name;
+  quantity := round(v_service.estimated_duration / 60.0, 2);
+  unit_price := v_config.labor_rate_per_hour;
+  amount := v_labor;
+  v_subtotal := v_subtotal + amount;
+  RETURN NEXT;
+
+  IF v_service.parts_price > 0 THEN
+    kind := 'parts';
+    description := 'Parts';
+    quantity := 1;
+    unit_price := v_service.parts_price;
+    amount := v_service.parts_price;
+    v_subtotal := v_subtotal + amount;
+    RETURN NEXT;
+  END IF;
+
+  SELECT * INTO v_mechanic FROM mechanics WHERE id = p_mechanic_id;
+
+  IF v_mechanic.current_latitude IS NOT NULL
+    AND v_mechanic.current_longitude IS NOT NULL
+    AND p_latitude IS NOT NULL
+    AND p_longitude IS NOT NULL
+  THEN
+    v_billable_km := round(
+      greatest(
+        distance_km(
+          v_mechanic.current_latitude,
+          v_mechanic.current_longitude,
+          p_latitude,
+          p_longitude
+        ) - v_config.travel_free_km,
+        0
+      ),
+      1
+    );
+
+    IF v_billable_km > 0 AND v_config.travel_fee_per_km > 0 THEN
+      kind := 'travel';
+      description := 'Travel beyond ' || trim_scale(v_config.travel_free_km) || ' km';
+      quantity := v_billable_km;
+      unit_price := v_config.travel_fee_per_km;
+      amount := round(v_billable_km * v_config.travel_fee_per_km, 2);
+      v_subtotal := v_subtotal + amount;
+      RETURN NEXT;
+    END IF;
+  END IF;
+
+  v_local_time := p_scheduled_time AT TIME ZONE v_config.time_zone;
+
+  IF v_service.category = 'emergency' AND v_config.emergency_surcharge_percent > 0 THEN
+    kind := 'surcharge';
+    description := 'Emergency surcharge';
+    quantity := 1;
+    unit_price := round(v_labor * v_config.emergency_surcharge_percent / 100, 2);
+    amount := unit_price;
+    v_subtotal := v_subtotal + amount;
+    RETURN NEXT;
+  ELSIF v_config.after_hours_surcharge_percent > 0 AND (
+    EXTRACT(ISODOW FROM v_local_time) IN (6, 7)
+    OR EXTRACT(HOUR FROM v_local_time) < v_config.business_hours_start
+    OR EXTRACT(HOUR FROM v_local_time) >= v_config.business_hours_end
+  ) THEN
+    kind := 'surcharge';
+    description := 'After-hours surcharge';
+    quantity := 1;
+    unit_price := round(v_labor * v_config.after_hours_surcharge_percent / 100, 2);
+    amount := unit_price;
+    v_subtotal := v_subtotal + amount;
+    RETURN NEXT;
+  END IF;
+
+  IF p_promo_code IS NOT NULL AND p_promo_code <> '' THEN
+    SELECT * INTO v_promo
+    FROM promo_codes
+    WHERE code = upper(trim(p_promo_code))
+      AND is_active
+      AND (expires_at IS NULL OR expires_at > now());
+
+    IF v_promo.code IS NULL THEN
+      RAISE EXCEPTION 'Promo code % is not valid', upper(trim(p_promo_code));
+    END IF;
+
+    kind := 'discount';
+    description := 'Promo ' || v_promo.code || ' (' || trim_scale(v_promo.percent_off) || '% off)';
+    quantity := 1;
+    unit_price := -round(v_subtotal * v_promo.percent_off / 100, 2);
+    amount := unit_price;
+    v_subtotal := v_subtotal + amount;
+    RETURN NEXT;
+  END IF;
+
+  IF v_config.tax_percent > 0 THEN
+    kind := 'tax';
+    description := 'Tax (' || trim_scale(v_config.tax_percent) || '%)';
+    quantity := 1;
+    unit_price := round(v_subtotal * v_config.tax_percent / 100, 2);
+    amount := unit_price;
+    RETURN NEXT;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION quote_booking(uuid, uuid, numeric, numeric, timestamptz, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION price_new_booking()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.promo_code := nullif(upper(trim(NEW.promo_code)), '');
+
+  SELECT coalesce(sum(q.amount), 0) INTO NEW.total_price
+  FROM quote_booking(
+    NEW.service_id,
+    NEW.mechanic_id,
+    NEW.location_latitude,
+    NEW.location_longitude,
+    NEW.scheduled_time,
+    NEW.promo_code
+  ) AS q;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_price_new_booking
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION price_new_booking();
+
+CREATE OR REPLACE FUNCTION create_booking_line_items()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO booking_line_items (
+    booking_id, position, kind, description, quantity, unit_price, amount
+  )
+  SELECT NEW.id, q.position, q.kind, q.description, q.quantity, q.unit_price, q.amount
+  FROM quote_booking(
+    NEW.service_id,
+    NEW.mechanic_id,
+    NEW.location_latitude,
+    NEW.location_longitude,
+    NEW.scheduled_time,
+    NEW.promo_code
+  ) WITH ORDINALITY AS q (kind, description, quantity, unit_price, amount, position);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_create_line_items
+  AFTER INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION create_booking_line_items();
+
+CREATE OR REPLACE FUNCTION protect_booking_total()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.total_price := coalesce(
+    (SELECT sum(amount) FROM booking_line_items WHERE booking_id = NEW.id),
+    OLD.total_price
+  );
+  NEW.promo_code := OLD.promo_code;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_protect_total
+  BEFORE UPDATE OF total_price, promo_code ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_booking_total();
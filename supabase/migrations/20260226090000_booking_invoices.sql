@@ -0,0 +1,199 @@
+/*
+  # Invoices for Completed Bookings
+
+  ## Overview
+  Issues an invoice when a booking is completed. Each mechanic has their own
+  invoice number sequence, and each invoice stores a frozen snapshot of the
+  booking (price, line items, vehicle, mechanic and customer) so later edits
+  to services, vehicles or business names never change an issued invoice.
+  The app renders the snapshot to printable HTML: mechanics see it as an
+  invoice and customers as a receipt.
+
+  ## Tables Created
+
+  1. **invoice_counters**
+     - `mechanic_id` (uuid, primary key, references mechanics)
+     - `last_invoice_number` (integer)
+
+  2. **invoices**
+     - `id` (uuid, primary key)
+     - `booking_id` (uuid, unique, references bookings)
+     - `mechanic_id` (uuid, references mechanics)
+     - `customer_id` (uuid, references profiles)
+     - `invoice_number` (integer, unique per mechanic)
+     - `total` (numeric)
+     - `snapshot` (jsonb)
+     - `issued_at` (timestamptz)
+
+  ## Functions
+
+  1. **next_invoice_number(mechanic_id)** - atomically reserves the next number
+  2. **create_booking_invoice(booking_id)** - snapshots a completed booking
+     into a new invoice (no-op if it already has one)
+  3. **issue_booking_invoice()** - AFTER UPDATE trigger on bookings that
+     creates the invoice when the status becomes 'completed'
+
+  ## Security
+  - Customers and mechanics can view invoices for their own bookings
+  - Invoices and counters are only written by the functions above, which
+    clients cannot call directly
+
+  ## Notes
+  - Existing completed bookings are invoiced in `scheduled_time` order
+*/
+
+CREATE TABLE IF NOT EXISTS invoice_counters (
+  mechanic_id uuid PRIMARY KEY REFERENCES mechanics(id) ON DELETE CASCADE,
+  last_invoice_number integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE invoice_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  mechanic_id uuid REFERENCES mechanics(id) ON DELETE CASCADE NOT NULL,
+  customer_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  invoice_number integer NOT NULL,
+  total numeric NOT NULL,
+  snapshot jsonb NOT NULL,
+  issued_at timestamptz DEFAULT now(),
+  CONSTRAINT unique_invoice_number_per_mechanic UNIQUE (mechanic_id, invoice_number)
+);
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view own invoices"
+  ON invoices FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "Mechanics can view own invoices"
+  ON invoices FOR SELECT
+  TO authenticated
+  USING (
+    mechanic_id IN (
+      SELECT id FROM mechanics WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION next_invoice_number(p_mechanic_id uuid)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO invoice_counters (mechanic_id, last_invoice_number)
+  VALUES (p_mechanic_id, 1)
+  ON CONFLICT (mechanic_id)
+  DO UPDATE SET last_invoice_number = invoice_counters.last_invoice_number + 1
+  RETURNING last_invoice_number;
+$$;
+
+CREATE OR REPLACE FUNCTION create_booking_invoice(p_booking_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+  v_snapshot jsonb;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF v_booking.id IS NULL
+    OR v_booking.status <> 'completed'
+    OR v_booking.mechanic_id IS NULL
+    OR EXISTS (SELECT 1 FROM invoices WHERE booking_id = p_booking_id)
+  THEN
+    RETURN;
+  END IF;
+
+  SELECT jsonb_build_object(
+    'business_name', m.business_name,
+    'customer_name', p.full_name,
+    'customer_email', p.email,
+    'service_name', s.name,
+    'vehicle', jsonb_build_object(
+      'make', v_booking.vehicle_make,
+      'model', v_booking.vehicle_model,
+      'year', v_booking.vehicle_year,
+      'vin', v.vin,
+      'license_plate', v.license_plate,
+      'mileage', v_booking.vehicle_mileage
+    ),
+    'location_address', v_booking.location_address,
+    'scheduled_time', v_booking.scheduled_time,
+    'total_price', v_booking.total_price,
+    'line_items', coalesce(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'kind', li.kind,
+            'description', li.description,
+            'quantity', li.quantity,
+            'unit_price', li.unit_price,
+            'amount', li.amount
+          )
+          ORDER BY li.position
+        )
+        FROM booking_line_items li
+        WHERE li.booking_id = v_booking.id
+      ),
+      '[]'::jsonb
+    )
+  )
+  INTO v_snapshot
+  FROM mechanics m
+  JOIN profiles p ON p.id = v_booking.customer_id
+  LEFT JOIN services s ON s.id = v_booking.service_id
+  LEFT JOIN vehicles v ON v.id = v_booking.vehicle_id
+  WHERE m.id = v_booking.mechanic_id;
+
+  INSERT INTO invoices (booking_id, mechanic_id, customer_id, invoice_number, total, snapshot)
+  VALUES (
+    v_booking.id,
+    v_booking.mechanic_id,
+    v_booking.customer_id,
+    next_invoice_number(v_booking.mechanic_id),
+    v_booking.total_price,
+    v_snapshot
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION next_invoice_number(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_booking_invoice(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION issue_booking_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    PERFORM create_booking_invoice(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_issue_invoice
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION issue_booking_invoice();
+
+DO $$
+DECLARE
+  v_booking_id uuid;
+BEGIN
+  FOR v_booking_id IN
+    SELECT id FROM bookings WHERE status = 'completed' ORDER BY scheduled_time
+  LOOP
+    PERFORM create_booking_invoice(v_booking_id);
+  END LOOP;
+END;
+$$;
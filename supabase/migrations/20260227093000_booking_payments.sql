@@ -0,0 +1,237 @@
+/*
+  # Booking Payments
+
+  ## Overview
+  Tracks the payment for each booking through a pluggable payment provider:
+  the charge is authorized when a mechanic accepts the booking, captured when
+  the job is completed, and voided or refunded (less any cancellation fee)
+  when the booking is cancelled. Providers report every outcome as a
+  webhook-style event, and `record_payment_event` is the single place those
+  events update the `payments` table.
+
+  ## Tables Created
+
+  1. **payments** (one per booking)
+     - `id` (uuid, primary key)
+     - `booking_id` (uuid, unique, references bookings)
+     - `customer_id` (uuid, references profiles)
+     - `mechanic_id` (uuid, references mechanics)
+     - `provider` (text)
+     - `provider_reference` (text)
+     - `status` (text: 'authorized', 'captured', 'partially_refunded',
+       'refunded', 'voided', 'failed')
+     - `amount` (numeric) - authorized amount
+     - `captured_amount` (numeric)
+     - `refunded_amount` (numeric)
+     - `currency` (text)
+     - `failure_reason` (text, optional)
+     - `created_at` / `updated_at` (timestamptz)
+
+  2. **payment_events**
+     - `id` (text, primary key) - provider event id, makes delivery idempotent
+     - `payment_id` (uuid, references payments)
+     - `type` (text: 'payment.authorized', 'payment.captured',
+       'payment.refunded', 'payment.voided', 'payment.failed')
+     - `amount` (numeric)
+     - `failure_reason` (text, optional)
+     - `created_at` (timestamptz)
+
+  ## Functions
+
+  1. **record_payment_event(...)** - applies a provider event to the booking's
+     payment; events that were already recorded are ignored
+
+  ## Security
+  - Customers and mechanics can view payments and events for their bookings
+  - Rows are only written by `record_payment_event`, which only accepts
+    events from the booking's customer or assigned mechanic
+  - `payments` is published over Realtime so booking cards stay current
+
+  ## Notes
+  - With the in-app mock provider the events are delivered by the client; a
+    real gateway would deliver them from a server-side webhook instead
+*/
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  customer_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  mechanic_id uuid REFERENCES mechanics(id) ON DELETE SET NULL,
+  provider text NOT NULL,
+  provider_reference text NOT NULL,
+  status text NOT NULL,
+  amount numeric NOT NULL DEFAULT 0,
+  captured_amount numeric NOT NULL DEFAULT 0,
+  refunded_amount numeric NOT NULL DEFAULT 0,
+  currency text NOT NULL DEFAULT 'usd',
+  failure_reason text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_payment_status CHECK (
+    status IN ('authorized', 'captured', 'partially_refunded', 'refunded', 'voided', 'failed')
+  ),
+  CONSTRAINT valid_payment_amounts CHECK (
+    amount >= 0 AND captured_amount >= 0 AND refunded_amount BETWEEN 0 AND captured_amount
+  )
+);
+
+CREATE INDEX IF NOT EXISTS payments_customer_id_idx ON payments (customer_id);
+CREATE INDEX IF NOT EXISTS payments_mechanic_id_idx ON payments (mechanic_id);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view own payments"
+  ON payments FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "Mechanics can view assigned payments"
+  ON payments FOR SELECT
+  TO authenticated
+  USING (
+    mechanic_id IN (
+      SELECT id FROM mechanics WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE TABLE IF NOT EXISTS payment_events (
+  id text PRIMARY KEY,
+  payment_id uuid REFERENCES payments(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL,
+  amount numeric NOT NULL DEFAULT 0,
+  failure_reason text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_payment_event_type CHECK (
+    type IN (
+      'payment.authorized',
+      'payment.captured',
+      'payment.refunded',
+      'payment.voided',
+      'payment.failed'
+    )
+  )
+);
+
+CREATE INDEX IF NOT EXISTS payment_events_payment_id_idx ON payment_events (payment_id);
+
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Booking parties can view payment events"
+  ON payment_events FOR SELECT
+  TO authenticated
+  USING (payment_id IN (SELECT id FROM payments));
+
+CREATE OR REPLACE FUNCTION record_payment_event(
+  p_event_id text,
+  p_booking_id uuid,
+  p_provider text,
+  p_reference text,
+  p_type text,
+  p_amount numeric,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+  v_payment payments;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF v_booking.id IS NULL OR booking_actor_role(v_booking) IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  SELECT * INTO v_payment FROM payments WHERE booking_id = p_booking_id FOR UPDATE;
+
+  IF v_payment.id IS NOT NULL AND EXISTS (SELECT 1 FROM payment_events WHERE id = p_event_id) THEN
+    RETURN v_payment;
+  END IF;
+
+  IF v_payment.id IS NULL THEN
+    IF p_type NOT IN ('payment.authorized', 'payment.failed') THEN
+      RAISE EXCEPTION 'Payment for this booking has not been authorized';
+    END IF;
+
+    INSERT INTO payments (
+      booking_id, customer_id, mechanic_id, provider, provider_reference, status,
+      amount, failure_reason
+    )
+    VALUES (
+      v_booking.id,
+      v_booking.customer_id,
+      v_booking.mechanic_id,
+      p_provider,
+      p_reference,
+      CASE WHEN p_type = 'payment.authorized' THEN 'authorized' ELSE 'failed' END,
+      CASE WHEN p_type = 'payment.authorized' THEN p_amount ELSE 0 END,
+      p_failure_reason
+    )
+    RETURNING * INTO v_payment;
+  ELSE
+    CASE p_type
+      WHEN 'payment.authorized' THEN
+        IF v_payment.status <> 'failed' THEN
+          RAISE EXCEPTION 'Payment is already %', v_payment.status;
+        END IF;
+        UPDATE payments
+        SET status = 'authorized', provider = p_provider, provider_reference = p_reference,
+            amount = p_amount, failure_reason = NULL, updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      WHEN 'payment.captured' THEN
+        IF v_payment.status <> 'authorized' OR p_amount > v_payment.amount THEN
+          RAISE EXCEPTION 'Cannot capture % on a % payment', p_amount, v_payment.status;
+        END IF;
+        UPDATE payments
+        SET status = 'captured', captured_amount = p_amount, updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      WHEN 'payment.refunded' THEN
+        IF v_payment.status NOT IN ('captured', 'partially_refunded')
+          OR v_payment.refunded_amount + p_amount > v_payment.captured_amount
+        THEN
+          RAISE EXCEPTION 'Cannot refund % on a % payment', p_amount, v_payment.status;
+        END IF;
+        UPDATE payments
+        SET refunded_amount = refunded_amount + p_amount,
+            status = CASE
+              WHEN refunded_amount + p_amount >= captured_amount THEN 'refunded'
+              ELSE 'partially_refunded'
+            END,
+            updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      WHEN 'payment.voided' THEN
+        IF v_payment.status <> 'authorized' THEN
+          RAISE EXCEPTION 'Cannot void a % payment', v_payment.status;
+        END IF;
+        UPDATE payments
+        SET status = 'voided', updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      WHEN 'payment.failed' THEN
+        UPDATE payments
+        SET status = CASE WHEN status = 'authorized' THEN status ELSE 'failed' END,
+            failure_reason = p_failure_reason,
+            updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      ELSE
+        RAISE EXCEPTION 'Unknown payment event %', p_type;
+    END CASE;
+  END IF;
+
+  INSERT INTO payment_events (id, payment_id, type, amount, failure_reason)
+  VALUES (p_event_id, v_payment.id, p_type, coalesce(p_amount, 0), p_failure_reason);
+
+  RETURN v_payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_payment_event(text, uuid, text, text, text, numeric, text) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE payments;
@@ -0,0 +1,167 @@
+/*
+  # Booking Chat
+
+  ## Overview
+  Lets the customer and the assigned mechanic message each other about a
+  booking, including photos. Conversations become read-only once the booking
+  is completed or cancelled.
+
+  ## Tables Created
+
+  1. **booking_messages**
+     - `id` (uuid, primary key)
+     - `booking_id` (uuid, references bookings)
+     - `sender_id` (uuid, references profiles)
+     - `recipient_id` (uuid, references profiles) - the other participant,
+       filled in by trigger
+     - `body` (text)
+     - `image_path` (text, optional) - object path in the `booking-chat` bucket
+     - `read_at` (timestamptz, optional)
+     - `created_at` (timestamptz)
+
+  ## Storage
+  - Private `booking-chat` bucket; objects live under `<booking_id>/`
+
+  ## Functions
+
+  1. **is_booking_participant(booking_id)** - whether the current user is the
+     booking's customer or assigned mechanic
+  2. **prepare_booking_message()** - BEFORE INSERT trigger that sets the
+     recipient and rejects messages on closed bookings
+  3. **mark_booking_messages_read(booking_id)** - RPC that marks the current
+     user's unread messages on a booking as read
+
+  ## Security
+  - Only the booking's participants can read or send its messages and photos
+  - Messages can't be edited; read receipts go through the RPC above
+  - `booking_messages` is published over Realtime
+*/
+
+CREATE OR REPLACE FUNCTION is_booking_participant(p_booking_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM bookings
+    WHERE id = p_booking_id
+      AND (
+        customer_id = auth.uid()
+        OR mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+      )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_booking_participant(uuid) TO authenticated;
+
+CREATE TABLE IF NOT EXISTS booking_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  sender_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  recipient_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  body text NOT NULL DEFAULT '',
+  image_path text,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT message_has_content CHECK (length(trim(body)) > 0 OR image_path IS NOT NULL),
+  CONSTRAINT message_body_length CHECK (length(body) <= 2000)
+);
+
+CREATE INDEX IF NOT EXISTS booking_messages_booking_id_idx
+  ON booking_messages (booking_id, created_at);
+
+CREATE INDEX IF NOT EXISTS booking_messages_unread_idx
+  ON booking_messages (recipient_id)
+  WHERE read_at IS NULL;
+
+ALTER TABLE booking_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view booking messages"
+  ON booking_messages FOR SELECT
+  TO authenticated
+  USING (is_booking_participant(booking_id));
+
+CREATE POLICY "Participants can send booking messages"
+  ON booking_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (sender_id = auth.uid() AND is_booking_participant(booking_id));
+
+CREATE OR REPLACE FUNCTION prepare_booking_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+  v_mechanic_user_id uuid;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = NEW.booking_id;
+
+  IF v_booking.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'This conversation is closed because the booking is %', v_booking.status;
+  END IF;
+
+  SELECT user_id INTO v_mechanic_user_id FROM mechanics WHERE id = v_booking.mechanic_id;
+
+  NEW.recipient_id := CASE
+    WHEN NEW.sender_id = v_booking.customer_id THEN v_mechanic_user_id
+    ELSE v_booking.customer_id
+  END;
+  NEW.read_at := NULL;
+  NEW.created_at := now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER booking_messages_prepare
+  BEFORE INSERT ON booking_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_booking_message();
+
+CREATE OR REPLACE FUNCTION mark_booking_messages_read(p_booking_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE booking_messages
+  SET read_at = now()
+  WHERE booking_id = p_booking_id
+    AND recipient_id = auth.uid()
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_booking_messages_read(uuid) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE booking_messages;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('booking-chat', 'booking-chat', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can view booking chat images"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'booking-chat'
+    AND is_booking_participant(((storage.foldername(name))[1])::uuid)
+  );
+
+CREATE POLICY "Participants can upload booking chat images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'booking-chat'
+    AND is_booking_participant(((storage.foldername(name))[1])::uuid)
+  );
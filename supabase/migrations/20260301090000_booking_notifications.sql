@@ -0,0 +1,483 @@
+/*
+  # Booking Notifications
+
+  ## Overview
+  Tells customers and mechanics when something happens to their bookings.
+  Every notification is written to a `notifications` outbox first; from there
+  it is pushed to the user's devices (when push is available) and listed in
+  the in-app notification center. Users choose which events they receive.
+
+  ## Tables Created
+
+  1. **notification_preferences**
+     - `user_id` (uuid, primary key, references profiles)
+     - `booking_created`, `booking_accepted`, `booking_started`,
+       `booking_completed`, `booking_cancelled`, `booking_reminder`
+       (boolean) - one switch per event, all on by default
+     - `push_enabled` (boolean) - whether to alert the user's devices at
+       all; when off, notifications only appear in the notification center
+     - `updated_at` (timestamptz)
+
+  2. **push_tokens**
+     - `token` (text, primary key) - Expo push token of a device
+     - `user_id` (uuid, references profiles) - who is signed in on it
+     - `platform` (text)
+     - `updated_at` (timestamptz)
+
+  3. **notifications**
+     - `id` (uuid, primary key)
+     - `user_id` (uuid, references profiles) - the recipient
+     - `booking_id` (uuid, references bookings)
+     - `event_type` (text) - one of the preference names above
+     - `title`, `body` (text)
+     - `delivered_at` (timestamptz, optional) - set once it has been pushed or
+       shown on a device
+     - `read_at` (timestamptz, optional)
+     - `created_at` (timestamptz)
+
+  ## Functions
+
+  1. **enqueue_notification(...)** - writes a notification unless the user
+     turned that event off; duplicates (e.g. a second reminder) are ignored
+  2. **notify_booking_change()** - AFTER INSERT/UPDATE trigger on bookings:
+     - created -> mechanic
+     - accepted, started, completed -> customer
+     - cancelled -> whichever party did not cancel (both if neither did)
+  3. **enqueue_booking_reminders()** - reminds both parties of accepted
+     bookings starting within the next hour; run every five minutes by
+     pg_cron where it is installed
+  4. **push_notification()** - BEFORE INSERT trigger on notifications that
+     posts to the Expo push service through pg_net, when installed, and
+     marks the notification delivered (immediately, if device alerts are off)
+  5. **register_push_token(token, platform)** - RPC that assigns a device
+     token to the current user
+  6. **mark_notifications_delivered(ids)** / **mark_notifications_read(ids)**
+     - RPCs for the recipient; a null `ids` marks all of them read
+
+  ## Security
+  - Users can only see and change their own preferences, tokens and
+    notifications; the outbox is written by the functions above only
+  - `notifications` is published over Realtime so open apps show new ones
+    straight away
+
+  ## Notes
+  - Without pg_net nothing is pushed and `delivered_at` stays empty; the app
+    then shows pending notifications as local notifications when it is open
+*/
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  booking_created boolean NOT NULL DEFAULT true,
+  booking_accepted boolean NOT NULL DEFAULT true,
+  booking_started boolean NOT NULL DEFAULT true,
+  booking_completed boolean NOT NULL DEFAULT true,
+  booking_cancelled boolean NOT NULL DEFAULT true,
+  booking_reminder boolean NOT NULL DEFAULT true,
+  push_enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences"
+  ON notification_preferences FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own notification preferences"
+  ON notification_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notification preferences"
+  ON notification_preferences FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS push_tokens (
+  token text PRIMARY KEY,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  platform text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS push_tokens_user_id_idx ON push_tokens (user_id);
+
+ALTER TABLE push_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push tokens"
+  ON push_tokens FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can remove own push tokens"
+  ON push_tokens FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL,
+  delivered_at timestamptz,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_event_type CHECK (
+    event_type IN (
+      'booking_created',
+      'booking_accepted',
+      'booking_started',
+      'booking_completed',
+      'booking_cancelled',
+      'booking_reminder'
+    )
+  )
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx
+  ON notifications (user_id, created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS notifications_one_reminder_idx
+  ON notifications (booking_id, user_id)
+  WHERE event_type = 'booking_reminder';
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION enqueue_notification(
+  p_user_id uuid,
+  p_booking_id uuid,
+  p_event_type text,
+  p_title text,
+  p_body text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_enabled boolean;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT CASE p_event_type
+    WHEN 'booking_created' THEN booking_created
+    WHEN 'booking_accepted' THEN booking_accepted
+    WHEN 'booking_started' THEN booking_started
+    WHEN 'booking_completed' THEN booking_completed
+    WHEN 'booking_cancelled' THEN booking_cancelled
+    WHEN 'booking_reminder' THEN booking_reminder
+  END
+  INTO v_enabled
+  FROM notification_preferences
+  WHERE user_id = p_user_id;
+
+  -- No preferences row means the user kept the defaults, which are all on.
+  IF v_enabled IS FALSE THEN
+    RETURN;
+  END IF;
+
+  -- Checked up front so a repeated reminder is never pushed; the unique
+  -- index only backs this up for concurrent runs.
+  IF p_event_type = 'booking_reminder' AND EXISTS (
+    SELECT 1 FROM notifications
+    WHERE booking_id = p_booking_id
+      AND user_id = p_user_id
+      AND event_type = 'booking_reminder'
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (user_id, booking_id, event_type, title, body)
+  VALUES (p_user_id, p_booking_id, p_event_type, p_title, p_body)
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enqueue_notification(uuid, uuid, text, text, text)
+  FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION notify_booking_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mechanic mechanics;
+  v_customer_name text;
+  v_service_name text;
+  v_when text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_mechanic FROM mechanics WHERE id = NEW.mechanic_id;
+  SELECT full_name INTO v_customer_name FROM profiles WHERE id = NEW.customer_id;
+  SELECT name INTO v_service_name FROM services WHERE id = NEW.service_id;
+
+  v_when := to_char(
+    NEW.scheduled_time AT TIME ZONE COALESCE(
+      (SELECT time_zone FROM pricing_config LIMIT 1),
+      'UTC'
+    ),
+    'Mon FMDD "at" FMHH12:MI AM'
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM enqueue_notification(
+      v_mechanic.user_id,
+      NEW.id,
+      'booking_created',
+      'New booking request',
+      format('%s booked %s for %s.', v_customer_name, v_service_name, v_when)
+    );
+    RETURN NEW;
+  END IF;
+
+  CASE NEW.status
+    WHEN 'accepted' THEN
+      PERFORM enqueue_notification(
+        NEW.customer_id,
+        NEW.id,
+        'booking_accepted',
+        'Booking confirmed',
+        format('%s accepted your %s booking for %s.', v_mechanic.business_name, v_service_name, v_when)
+      );
+    WHEN 'in_progress' THEN
+      PERFORM enqueue_notification(
+        NEW.customer_id,
+        NEW.id,
+        'booking_started',
+        'Service started',
+        format('%s has started working on your %s.', v_mechanic.business_name, v_service_name)
+      );
+    WHEN 'completed' THEN
+      PERFORM enqueue_notification(
+        NEW.customer_id,
+        NEW.id,
+        'booking_completed',
+        'Service completed',
+        format('Your %s is done. Your receipt is ready in Bookings.', v_service_name)
+      );
+    WHEN 'cancelled' THEN
+      IF NEW.cancelled_by IS DISTINCT FROM NEW.customer_id THEN
+        PERFORM enqueue_notification(
+          NEW.customer_id,
+          NEW.id,
+          'booking_cancelled',
+          'Booking cancelled',
+          format('Your %s booking for %s was cancelled.', v_service_name, v_when)
+        );
+      END IF;
+      IF NEW.cancelled_by IS DISTINCT FROM v_mechanic.user_id THEN
+        PERFORM enqueue_notification(
+          v_mechanic.user_id,
+          NEW.id,
+          'booking_cancelled',
+          'Booking cancelled',
+          format('%s cancelled %s for %s.', v_customer_name, v_service_name, v_when)
+        );
+      END IF;
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_notify_change ON bookings;
+CREATE TRIGGER bookings_notify_change
+  AFTER INSERT OR UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_booking_change();
+
+CREATE OR REPLACE FUNCTION enqueue_booking_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking record;
+  v_count integer := 0;
+BEGIN
+  FOR v_booking IN
+    SELECT b.id, b.customer_id, b.scheduled_time, m.user_id AS mechanic_user_id,
+           p.full_name AS customer_name, s.name AS service_name
+    FROM bookings b
+    JOIN mechanics m ON m.id = b.mechanic_id
+    JOIN profiles p ON p.id = b.customer_id
+    JOIN services s ON s.id = b.service_id
+    WHERE b.status = 'accepted'
+      AND b.scheduled_time > now()
+      AND b.scheduled_time <= now() + interval '1 hour'
+  LOOP
+    PERFORM enqueue_notification(
+      v_booking.customer_id,
+      v_booking.id,
+      'booking_reminder',
+      'Upcoming service',
+      format(
+        'Your %s starts in %s minutes.',
+        v_booking.service_name,
+        ceil(extract(epoch FROM v_booking.scheduled_time - now()) / 60)
+      )
+    );
+    PERFORM enqueue_notification(
+      v_booking.mechanic_user_id,
+      v_booking.id,
+      'booking_reminder',
+      'Upcoming job',
+      format(
+        '%s for %s starts in %s minutes.',
+        v_booking.service_name,
+        v_booking.customer_name,
+        ceil(extract(epoch FROM v_booking.scheduled_time - now()) / 60)
+      )
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enqueue_booking_reminders() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'booking-reminders',
+      '*/5 * * * *',
+      'SELECT enqueue_booking_reminders()'
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION push_notification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_messages jsonb;
+BEGIN
+  -- Users who turned device alerts off only see the notification center, so
+  -- there is nothing left for their devices to deliver.
+  IF EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE user_id = NEW.user_id AND NOT push_enabled
+  ) THEN
+    NEW.delivered_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'to', token,
+      'title', NEW.title,
+      'body', NEW.body,
+      'sound', 'default',
+      'data', jsonb_build_object('notificationId', NEW.id, 'bookingId', NEW.booking_id)
+    )
+  )
+  INTO v_messages
+  FROM push_tokens
+  WHERE user_id = NEW.user_id;
+
+  IF v_messages IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := 'https://exp.host/--/api/v2/push/send',
+    body := v_messages,
+    headers := '{"Content-Type": "application/json"}'::jsonb
+  );
+  NEW.delivered_at := now();
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notifications_push ON notifications;
+CREATE TRIGGER notifications_push
+  BEFORE INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION push_notification();
+
+CREATE OR REPLACE FUNCTION register_push_token(p_token text, p_platform text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- A device belongs to whoever signed in on it last.
+  INSERT INTO push_tokens (token, user_id, platform, updated_at)
+  VALUES (p_token, auth.uid(), p_platform, now())
+  ON CONFLICT (token) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      platform = EXCLUDED.platform,
+      updated_at = now();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION register_push_token(text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION mark_notifications_delivered(p_ids uuid[])
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE notifications
+  SET delivered_at = now()
+  WHERE user_id = auth.uid()
+    AND id = ANY (p_ids)
+    AND delivered_at IS NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_notifications_delivered(uuid[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_ids uuid[] DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE notifications
+  SET read_at = now()
+  WHERE user_id = auth.uid()
+    AND (p_ids IS NULL OR id = ANY (p_ids))
+    AND read_at IS NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_notifications_read(uuid[]) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
@@ -0,0 +1,122 @@
+/*
+  # Booking Photo Attachments
+
+  ## Overview
+  Customers can photograph the problem (a warning light, a leak) when they
+  book, and mechanics can add before and after photos as proof of work.
+
+  ## Tables Created
+
+  1. **booking_attachments**
+     - `id` (uuid, primary key)
+     - `booking_id` (uuid, references bookings)
+     - `uploaded_by` (uuid, references profiles)
+     - `kind` (text) - 'issue' (customer), 'before' or 'after' (mechanic)
+     - `storage_path` (text) - object path in the `booking-attachments` bucket
+     - `created_at` (timestamptz)
+
+  ## Storage
+  - Private `booking-attachments` bucket; objects live under `<booking_id>/`
+
+  ## Security
+  - Visibility mirrors bookings: the booking's customer and its assigned
+    mechanic can see its photos
+  - Customers add 'issue' photos to their own bookings; mechanics add
+    'before' and 'after' photos to bookings assigned to them
+  - Uploaders can remove their own photos until the booking is closed
+*/
+
+CREATE TABLE IF NOT EXISTS booking_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  uploaded_by uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  kind text NOT NULL,
+  storage_path text NOT NULL UNIQUE,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_attachment_kind CHECK (kind IN ('issue', 'before', 'after'))
+);
+
+CREATE INDEX IF NOT EXISTS booking_attachments_booking_id_idx
+  ON booking_attachments (booking_id, created_at);
+
+ALTER TABLE booking_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view attachments on own bookings"
+  ON booking_attachments FOR SELECT
+  TO authenticated
+  USING (
+    booking_id IN (SELECT id FROM bookings WHERE customer_id = auth.uid())
+  );
+
+CREATE POLICY "Mechanics can view attachments on assigned bookings"
+  ON booking_attachments FOR SELECT
+  TO authenticated
+  USING (
+    booking_id IN (
+      SELECT id FROM bookings
+      WHERE mechanic_id IN (
+        SELECT id FROM mechanics WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Customers can add issue photos to own bookings"
+  ON booking_attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid()
+    AND kind = 'issue'
+    AND booking_id IN (SELECT id FROM bookings WHERE customer_id = auth.uid())
+  );
+
+CREATE POLICY "Mechanics can add work photos to assigned bookings"
+  ON booking_attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid()
+    AND kind IN ('before', 'after')
+    AND booking_id IN (
+      SELECT id FROM bookings
+      WHERE mechanic_id IN (
+        SELECT id FROM mechanics WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Uploaders can remove own attachments on open bookings"
+  ON booking_attachments FOR DELETE
+  TO authenticated
+  USING (
+    uploaded_by = auth.uid()
+    AND booking_id IN (
+      SELECT id FROM bookings WHERE status NOT IN ('completed', 'cancelled')
+    )
+  );
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('booking-attachments', 'booking-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can view booking attachment files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'booking-attachments'
+    AND is_booking_participant(((storage.foldername(name))[1])::uuid)
+  );
+
+CREATE POLICY "Participants can upload booking attachment files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'booking-attachments'
+    AND is_booking_participant(((storage.foldername(name))[1])::uuid)
+  );
+
+CREATE POLICY "Uploaders can remove own booking attachment files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'booking-attachments'
+    AND owner = auth.uid()
+  );
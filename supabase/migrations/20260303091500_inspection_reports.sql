@@ -0,0 +1,193 @@
+/*
+  # Inspection Reports
+
+  ## Overview
+  Inspection services (Brake Inspection, Engine Diagnostic, ...) now produce
+  a structured report. Each service has a checklist template; while the job
+  is in progress the mechanic rates every item as pass / attention / fail,
+  with an optional measurement and photo, and then shares the report with
+  the customer. Items that need attention can point at a follow-up service
+  the customer can book straight from the report.
+
+  ## Tables Created
+
+  1. **inspection_template_items**
+     - `id` (uuid, primary key)
+     - `service_id` (uuid, references services) - the inspection service
+     - `position` (integer) - display order
+     - `label` (text)
+     - `unit` (text, optional) - unit of the measurement, e.g. 'mm'; items
+       without a unit take no measurement
+     - `follow_up_service_id` (uuid, optional, references services) -
+       recommended when the item is rated attention or fail
+
+  2. **inspection_reports**
+     - `id` (uuid, primary key)
+     - `booking_id` (uuid, unique, references bookings)
+     - `summary` (text)
+     - `submitted_at` (timestamptz, optional) - when it was shared with the
+       customer
+     - `created_at`, `updated_at` (timestamptz)
+
+  3. **inspection_results**
+     - `report_id` (uuid, references inspection_reports)
+     - `item_id` (uuid, references inspection_template_items)
+     - `status` (text) - 'pass', 'attention' or 'fail'
+     - `measurement` (numeric, optional)
+     - `photo_path` (text, optional) - object path in the
+       `booking-attachments` bucket
+     - `updated_at` (timestamptz)
+
+  ## Functions
+
+  1. **can_edit_inspection(booking_id)** - whether the current user is the
+     assigned mechanic of a booking that is in progress
+
+  ## Security
+  - Templates are readable by every signed-in user
+  - The assigned mechanic can read the report at any time and edit it only
+    while the job is in progress
+  - Customers can read the report once it has been shared
+
+  ## Notes
+  - Templates are seeded for Brake Inspection and Engine Diagnostic
+*/
+
+CREATE TABLE IF NOT EXISTS inspection_template_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id uuid REFERENCES services(id) ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL,
+  label text NOT NULL,
+  unit text,
+  follow_up_service_id uuid REFERENCES services(id) ON DELETE SET NULL,
+  UNIQUE (service_id, position)
+);
+
+ALTER TABLE inspection_template_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view inspection templates"
+  ON inspection_template_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TABLE IF NOT EXISTS inspection_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  summary text NOT NULL DEFAULT '',
+  submitted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS inspection_results (
+  report_id uuid REFERENCES inspection_reports(id) ON DELETE CASCADE NOT NULL,
+  item_id uuid REFERENCES inspection_template_items(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL,
+  measurement numeric(8, 2),
+  photo_path text,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (report_id, item_id),
+  CONSTRAINT valid_inspection_status CHECK (status IN ('pass', 'attention', 'fail'))
+);
+
+CREATE OR REPLACE FUNCTION can_edit_inspection(p_booking_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM bookings
+    WHERE id = p_booking_id
+      AND status = 'in_progress'
+      AND mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_edit_inspection(uuid) TO authenticated;
+
+ALTER TABLE inspection_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Mechanics can view reports on assigned bookings"
+  ON inspection_reports FOR SELECT
+  TO authenticated
+  USING (
+    booking_id IN (
+      SELECT id FROM bookings
+      WHERE mechanic_id IN (
+        SELECT id FROM mechanics WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Customers can view shared reports on own bookings"
+  ON inspection_reports FOR SELECT
+  TO authenticated
+  USING (
+    submitted_at IS NOT NULL
+    AND booking_id IN (SELECT id FROM bookings WHERE customer_id = auth.uid())
+  );
+
+CREATE POLICY "Mechanics can start reports on jobs in progress"
+  ON inspection_reports FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_inspection(booking_id));
+
+CREATE POLICY "Mechanics can update reports on jobs in progress"
+  ON inspection_reports FOR UPDATE
+  TO authenticated
+  USING (can_edit_inspection(booking_id))
+  WITH CHECK (can_edit_inspection(booking_id));
+
+ALTER TABLE inspection_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view results of reports they can view"
+  ON inspection_results FOR SELECT
+  TO authenticated
+  USING (report_id IN (SELECT id FROM inspection_reports));
+
+CREATE POLICY "Mechanics can record results on jobs in progress"
+  ON inspection_results FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    report_id IN (
+      SELECT id FROM inspection_reports WHERE can_edit_inspection(booking_id)
+    )
+  );
+
+CREATE POLICY "Mechanics can update results on jobs in progress"
+  ON inspection_results FOR UPDATE
+  TO authenticated
+  USING (
+    report_id IN (
+      SELECT id FROM inspection_reports WHERE can_edit_inspection(booking_id)
+    )
+  )
+  WITH CHECK (
+    report_id IN (
+      SELECT id FROM inspection_reports WHERE can_edit_inspection(booking_id)
+    )
+  );
+
+INSERT INTO inspection_template_items (service_id, position, label, unit, follow_up_service_id)
+SELECT s.id, item.position, item.label, item.unit, follow_up.id
+FROM services s
+JOIN (
+  VALUES
+    ('Brake Inspection', 1, 'Front brake pad thickness', 'mm', 'Brake Pad Replacement'),
+    ('Brake Inspection', 2, 'Rear brake pad thickness', 'mm', 'Brake Pad Replacement'),
+    ('Brake Inspection', 3, 'Rotor condition', NULL, 'Brake Pad Replacement'),
+    ('Brake Inspection', 4, 'Brake fluid level and condition', NULL, NULL),
+    ('Brake Inspection', 5, 'Tire tread depth', 'mm', 'Tire Rotation'),
+    ('Brake Inspection', 6, 'Parking brake', NULL, NULL),
+    ('Engine Diagnostic', 1, 'Diagnostic trouble codes', NULL, NULL),
+    ('Engine Diagnostic', 2, 'Engine oil level and condition', NULL, 'Oil Change'),
+    ('Engine Diagnostic', 3, 'Coolant level', NULL, NULL),
+    ('Engine Diagnostic', 4, 'Battery voltage', 'V', 'Battery Replacement'),
+    ('Engine Diagnostic', 5, 'Belts and hoses', NULL, NULL),
+    ('Engine Diagnostic', 6, 'Transmission fluid level', NULL, NULL)
+) AS item (service_name, position, label, unit, follow_up_name)
+  ON item.service_name = s.name
+LEFT JOIN services follow_up ON follow_up.name = item.follow_up_name
+ON CONFLICT (service_id, position) DO NOTHING;
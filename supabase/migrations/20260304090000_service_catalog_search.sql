@@ -0,0 +1,29 @@
+/*
+  # Service Catalog Search
+
+  ## Overview
+  The Home screen now searches, filters and sorts the service catalog in the
+  database instead of loading every row. These indexes keep those queries
+  fast as the catalog grows.
+
+  ## Changes
+  - `pg_trgm` extension, for indexed `ILIKE '%term%'` matching
+  - Trigram indexes on `services.name` and `services.description`
+  - Indexes on `services (category, base_price)` and
+    `services (estimated_duration)` for the category, price and duration
+    filters and sorts
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS services_name_trgm_idx
+  ON services USING gin (name extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS services_description_trgm_idx
+  ON services USING gin (description extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS services_category_price_idx
+  ON services (category, base_price);
+
+CREATE INDEX IF NOT EXISTS services_duration_idx
+  ON services (estimated_duration);
@@ -0,0 +1,136 @@
+/*
+  # Admin Role and Service Catalog Management
+
+  ## Overview
+  Adds an `admin` account type whose holders maintain the service catalog
+  from the app: they can create services, edit and reprice them, and archive
+  services that are no longer offered.
+
+  ## Changes
+
+  1. **profiles**
+     - `valid_user_type` now also allows 'admin'
+     - Nobody can make themselves an admin: only an existing admin (or the
+       service role, e.g. from the SQL editor) can set or change `user_type`
+       to or from 'admin'
+
+  2. **services**
+     - `is_active` (boolean) - archived services are hidden from the catalog
+       and can't be booked, but stay readable for existing bookings
+     - `updated_at` (timestamptz)
+     - Price and duration checks, so admin edits can't save nonsense values
+
+  ## Functions
+
+  1. **is_admin()** - whether the current user is an admin
+  2. **protect_admin_role()** - trigger on profiles enforcing the rule above
+  3. **reject_archived_service_booking()** - BEFORE INSERT trigger on bookings
+
+  ## Security
+  - Admins can insert and update services; there is no DELETE policy, so
+    services are archived instead of deleted and old bookings keep their
+    service
+
+  ## Notes
+  - Existing bookings keep the price they were booked at: `total_price` and
+    `booking_line_items` are computed once when the booking is created and
+    `bookings_protect_total` stops later changes, so repricing a service only
+    affects new quotes
+  - To create the first admin, run
+    `UPDATE profiles SET user_type = 'admin' WHERE email = '...'` as the
+    service role
+*/
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS valid_user_type;
+ALTER TABLE profiles
+  ADD CONSTRAINT valid_user_type CHECK (user_type IN ('customer', 'mechanic', 'admin'));
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND user_type = 'admin'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+
+CREATE OR REPLACE FUNCTION protect_admin_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Requests without a user (service role, migrations) are trusted.
+  IF auth.uid() IS NULL OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.user_type = 'admin' THEN
+    RAISE EXCEPTION 'Admin accounts can only be created by an admin';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.user_type IS DISTINCT FROM OLD.user_type
+    AND 'admin' IN (NEW.user_type, OLD.user_type)
+  THEN
+    RAISE EXCEPTION 'Only an admin can change admin access';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_admin_role ON profiles;
+CREATE TRIGGER profiles_protect_admin_role
+  BEFORE INSERT OR UPDATE OF user_type ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_admin_role();
+
+ALTER TABLE services
+  ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+ALTER TABLE services
+  ADD CONSTRAINT valid_base_price CHECK (base_price >= 0),
+  ADD CONSTRAINT valid_estimated_duration CHECK (estimated_duration > 0);
+
+CREATE INDEX IF NOT EXISTS services_active_idx ON services (is_active);
+
+CREATE POLICY "Admins can create services"
+  ON services FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update services"
+  ON services FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE OR REPLACE FUNCTION reject_archived_service_booking()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM services WHERE id = NEW.service_id AND is_active) THEN
+    RAISE EXCEPTION 'This service is no longer offered';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_reject_archived_service ON bookings;
+CREATE TRIGGER bookings_reject_archived_service
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_archived_service_booking();
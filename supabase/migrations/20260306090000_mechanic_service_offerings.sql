@@ -0,0 +1,532 @@
+/*
+  # Mechanic Service Offerings
+
+  ## Overview
+  Mechanics choose which services they perform and may set their own price
+  and duration for each, within bounds set by an admin. The booking flow only
+  offers mechanics who perform the chosen service and quotes with their terms.
+
+  ## Tables Created
+
+  1. **mechanic_services**
+     - `mechanic_id` (uuid, references mechanics)
+     - `service_id` (uuid, references services)
+     - `price` (numeric, optional) - replaces the hourly labor charge
+     - `estimated_duration` (integer, optional) - minutes
+     - `created_at` / `updated_at` (timestamptz)
+     - Primary key on (mechanic_id, service_id)
+
+  ## Changes
+
+  1. **services**
+     - `min_price` / `max_price` (numeric, optional)
+     - `min_duration` / `max_duration` (integer, optional)
+     - A missing bound means mechanics can't go past `base_price` or
+       `estimated_duration` on that side
+  2. **bookings**
+     - `estimated_duration` (integer) - the mechanic's duration when booked,
+       so later changes to their terms don't move existing appointments
+
+  ## Functions
+
+  1. **mechanic_service_terms(p_mechanic_id, p_service_id)** - the mechanic's
+     price and duration for a service, clamped to the current bounds; no row
+     if they don't offer it
+  2. **match_mechanics(...)** - now takes `p_service_id`, skips mechanics who
+     don't offer it and returns their `price` and `estimated_duration`
+  3. **quote_booking(...)** - labor uses the mechanic's price or duration
+  4. **apply_mechanic_service_terms()** - BEFORE INSERT trigger on bookings
+  5. **validate_mechanic_service()** - keeps overrides within the bounds
+  6. **offer_all_services()** - new mechanics start out offering every
+     active service
+
+  ## Security
+  - Everyone signed in can see what mechanics offer
+  - Mechanics manage only their own offerings
+
+  ## Notes
+  - Existing mechanics are set up as offering every service, so nobody drops
+    out of the booking flow when this ships
+  - Bounds are applied when reading terms, so tightening them takes effect
+    for overrides saved earlier
+*/
+
+ALTER TABLE services
+  ADD COLUMN IF NOT EXISTS min_price numeric,
+  ADD COLUMN IF NOT EXISTS max_price numeric,
+  ADD COLUMN IF NOT EXISTS min_duration integer,
+  ADD COLUMN IF NOT EXISTS max_duration integer;
+
+UPDATE services
+SET
+  min_price = round(base_price * 0.8, 2),
+  max_price = round(base_price * 1.5, 2),
+  min_duration = greatest(round(estimated_duration * 0.75)::integer, 1),
+  max_duration = round(estimated_duration * 1.5)::integer;
+
+ALTER TABLE services
+  ADD CONSTRAINT valid_price_bounds CHECK (
+    (min_price IS NULL OR (min_price >= 0 AND min_price <= base_price))
+    AND (max_price IS NULL OR max_price >= base_price)
+  ),
+  ADD CONSTRAINT valid_duration_bounds CHECK (
+    (min_duration IS NULL OR (min_duration > 0 AND min_duration <= estimated_duration))
+    AND (max_duration IS NULL OR max_duration >= estimated_duration)
+  );
+
+CREATE TABLE IF NOT EXISTS mechanic_services (
+  mechanic_id uuid REFERENCES mechanics(id) ON DELETE CASCADE NOT NULL,
+  service_id uuid REFERENCES services(id) ON DELETE CASCADE NOT NULL,
+  price numeric,
+  estimated_duration integer,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (mechanic_id, service_id)
+);
+
+CREATE INDEX IF NOT EXISTS mechanic_services_service_idx ON mechanic_services (service_id);
+
+ALTER TABLE mechanic_services ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view mechanic services"
+  ON mechanic_services FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Mechanics can add own services"
+  ON mechanic_services FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Mechanics can update own services"
+  ON mechanic_services FOR UPDATE
+  TO authenticated
+  USING (
+    mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+  )
+  WITH CHECK (
+    mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Mechanics can remove own services"
+  ON mechanic_services FOR DELETE
+  TO authenticated
+  USING (
+    mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION validate_mechanic_service()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_service services;
+BEGIN
+  SELECT * INTO v_service FROM services WHERE id = NEW.service_id;
+
+  IF TG_OP = 'INSERT' AND NOT v_service.is_active THEN
+    RAISE EXCEPTION 'This service is no longer offered';
+  END IF;
+
+  IF NEW.price IS NOT NULL AND (
+    NEW.price < coalesce(v_service.min_price, v_service.base_price)
+    OR NEW.price > coalesce(v_service.max_price, v_service.base_price)
+  ) THEN
+    RAISE EXCEPTION 'Price for % must be between % and %',
+      v_service.name,
+      coalesce(v_service.min_price, v_service.base_price),
+      coalesce(v_service.max_price, v_service.base_price);
+  END IF;
+
+  IF NEW.estimated_duration IS NOT NULL AND (
+    NEW.estimated_duration < coalesce(v_service.min_duration, v_service.estimated_duration)
+    OR NEW.estimated_duration > coalesce(v_service.max_duration, v_service.estimated_duration)
+  ) THEN
+    RAISE EXCEPTION 'Duration for % must be between % and % minutes',
+      v_service.name,
+      coalesce(v_service.min_duration, v_service.estimated_duration),
+      coalesce(v_service.max_duration, v_service.estimated_duration);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mechanic_services_validate
+  BEFORE INSERT OR UPDATE ON mechanic_services
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_mechanic_service();
+
+CREATE OR REPLACE FUNCTION offer_all_services()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO mechanic_services (mechanic_id, service_id)
+  SELECT NEW.id, s.id FROM services s WHERE s.is_active
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mechanics_offer_all_services
+  AFTER INSERT ON mechanics
+  FOR EACH ROW
+  EXECUTE FUNCTION offer_all_services();
+
+INSERT INTO mechanic_services (mechanic_id, service_id)
+SELECT m.id, s.id FROM mechanics m CROSS JOIN services s
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION mechanic_service_terms(p_mechanic_id uuid, p_service_id uuid)
+RETURNS TABLE (price numeric, estimated_duration integer, has_custom_price boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    least(
+      greatest(coalesce(ms.price, s.base_price), coalesce(s.min_price, s.base_price)),
+      coalesce(s.max_price, s.base_price)
+    ),
+    least(
+      greatest(
+        coalesce(ms.estimated_duration, s.estimated_duration),
+        coalesce(s.min_duration, s.estimated_duration)
+      ),
+      coalesce(s.max_duration, s.estimated_duration)
+    ),
+    ms.price IS NOT NULL
+  FROM mechanic_services ms
+  JOIN services s ON s.id = ms.service_id
+  WHERE ms.mechanic_id = p_mechanic_id
+    AND ms.service_id = p_service_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION mechanic_service_terms(uuid, uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS match_mechanics(numeric, numeric, integer);
+
+CREATE OR REPLACE FUNCTION match_mechanics(
+  p_latitude numeric,
+  p_longitude numeric,
+  p_limit integer DEFAULT 20,
+  p_service_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  business_name text,
+  rating numeric,
+  total_jobs integer,
+  years_experience integer,
+  service_radius integer,
+  is_available boolean,
+  distance_km numeric,
+  match_score numeric,
+  price numeric,
+  estimated_duration integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      m.*,
+      distance_km(p_latitude, p_longitude, m.current_latitude, m.current_longitude) AS distance
+    FROM mechanics m
+    WHERE m.is_available = true
+      AND m.current_latitude IS NOT NULL
+      AND m.current_longitude IS NOT NULL
+      AND (
+        p_service_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM mechanic_services ms
+          WHERE ms.mechanic_id = m.id AND ms.service_id = p_service_id
+        )
+      )
+  )
+  SELECT
+    c.id,
+    c.business_name,
+    c.rating,
+    c.total_jobs,
+    c.years_experience,
+    c.service_radius,
+    c.is_available,
+    round(c.distance, 2) AS distance_km,
+    round(
+      0.5 * (1 - c.distance / greatest(c.service_radius, 1))
+      + 0.35 * (coalesce(c.rating, 0) / 5)
+      + 0.15 * (least(coalesce(c.total_jobs, 0), 100)::numeric / 100),
+      4
+    ) AS match_score,
+    t.price,
+    t.estimated_duration
+  FROM candidates c
+  LEFT JOIN LATERAL mechanic_service_terms(c.id, p_service_id) t ON true
+  WHERE c.distance <= c.service_radius
+  ORDER BY match_score DESC, c.distance ASC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_mechanics(numeric, numeric, integer, uuid) TO authenticated;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS estimated_duration integer;
+
+UPDATE bookings b
+SET estimated_duration = s.estimated_duration
+FROM services s
+WHERE s.id = b.service_id AND b.estimated_duration IS NULL;
+
+ALTER TABLE bookings ALTER COLUMN estimated_duration SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION apply_mechanic_service_terms()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_duration integer;
+BEGIN
+  IF NEW.mechanic_id IS NULL THEN
+    SELECT estimated_duration INTO NEW.estimated_duration
+    FROM services WHERE id = NEW.service_id;
+    RETURN NEW;
+  END IF;
+
+  SELECT t.estimated_duration INTO v_duration
+  FROM mechanic_service_terms(NEW.mechanic_id, NEW.service_id) t;
+
+  IF v_duration IS NULL THEN
+    RAISE EXCEPTION 'This mechanic does not offer this service';
+  END IF;
+
+  NEW.estimated_duration := v_duration;
+  RETURN NEW;
+END;
+$$;
+
+-- Triggers fire in name order, so this runs before the overlap check and
+-- pricing triggers that read NEW.estimated_duration.
+CREATE TRIGGER bookings_apply_mechanic_terms
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_mechanic_service_terms();
+
+CREATE OR REPLACE FUNCTION get_mechanic_busy_times(
+  p_mechanic_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (scheduled_time timestamptz, estimated_duration integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.scheduled_time, b.estimated_duration
+  FROM bookings b
+  WHERE b.mechanic_id = p_mechanic_id
+    AND b.status IN ('pending', 'accepted', 'in_progress')
+    AND b.scheduled_time < p_to
+    AND b.scheduled_time + make_interval(mins => b.estimated_duration) > p_from
+  ORDER BY b.scheduled_time;
+$$;
+
+CREATE OR REPLACE FUNCTION prevent_overlapping_bookings()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.mechanic_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM get_mechanic_busy_times(
+      NEW.mechanic_id,
+      NEW.scheduled_time,
+      NEW.scheduled_time + make_interval(mins => NEW.estimated_duration)
+    )
+  ) THEN
+    RAISE EXCEPTION 'This mechanic is already booked at the selected time';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION quote_booking(
+  p_service_id uuid,
+  p_mechanic_id uuid,
+  p_latitude numeric,
+  p_longitude numeric,
+  p_scheduled_time timestamptz,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS TABLE (
+  kind text,
+  description text,
+  quantity numeric,
+  unit_price numeric,
+  amount numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config pricing_config;
+  v_service services;
+  v_mechanic mechanics;
+  v_promo promo_codes;
+  v_duration integer;
+  v_price numeric;
+  v_has_custom_price boolean := false;
+  v_labor numeric;
+  v_local_time timestamp;
+  v_billable_km numeric;
+  v_subtotal numeric := 0;
+BEGIN
+  SELECT * INTO v_config FROM pricing_config LIMIT 1;
+  SELECT * INTO v_service FROM services WHERE id = p_service_id;
+
+  IF v_service.id IS NULL THEN
+    RAISE EXCEPTION 'Service not found';
+  END IF;
+
+  v_duration := v_service.estimated_duration;
+
+  IF p_mechanic_id IS NOT NULL THEN
+    SELECT t.price, t.estimated_duration, t.has_custom_price
+    INTO v_price, v_duration, v_has_custom_price
+    FROM mechanic_service_terms(p_mechanic_id, p_service_id) t;
+
+    IF v_duration IS NULL THEN
+      RAISE EXCEPTION 'This mechanic does not offer this service';
+    END IF;
+  END IF;
+
+  kind := 'labor';
+  description := 'Labor: ' || v_service.name;
+  IF v_has_custom_price THEN
+    -- The mechanic's own price is a flat charge for the job.
+    v_labor := v_price;
+    quantity := 1;
+    unit_price := v_labor;
+  ELSE
+    v_labor := round(v_config.labor_rate_per_hour * v_duration / 60.0, 2);
+    quantity := round(v_duration / 60.0, 2);
+    unit_price := v_config.labor_rate_per_hour;
+  END IF;
+  amount := v_labor;
+  v_subtotal := v_subtotal + amount;
+  RETURN NEXT;
+
+  IF v_service.parts_price > 0 THEN
+    kind := 'parts';
+    description := 'Parts';
+    quantity := 1;
+    unit_price := v_service.parts_price;
+    amount := v_service.parts_price;
+    v_subtotal := v_subtotal + amount;
+    RETURN NEXT;
+  END IF;
+
+  SELECT * INTO v_mechanic FROM mechanics WHERE id = p_mechanic_id;
+
+  IF v_mechanic.current_latitude IS NOT NULL
+    AND v_mechanic.current_longitude IS NOT NULL
+    AND p_latitude IS NOT NULL
+    AND p_longitude IS NOT NULL
+  THEN
+    v_billable_km := round(
+      greatest(
+        distance_km(
+          v_mechanic.current_latitude,
+          v_mechanic.current_longitude,
+          p_latitude,
+          p_longitude
+        ) - v_config.travel_free_km,
+        0
+      ),
+      1
+    );
+
+    IF v_billable_km > 0 AND v_config.travel_fee_per_km > 0 THEN
+      kind := 'travel';
+      description := 'Travel beyond ' || trim_scale(v_config.travel_free_km) || ' km';
+      quantity := v_billable_km;
+      unit_price := v_config.travel_fee_per_km;
+      amount := round(v_billable_km * v_config.travel_fee_per_km, 2);
+      v_subtotal := v_subtotal + amount;
+      RETURN NEXT;
+    END IF;
+  END IF;
+
+  v_local_time := p_scheduled_time AT TIME ZONE v_config.time_zone;
+
+  IF v_service.category = 'emergency' AND v_config.emergency_surcharge_percent > 0 THEN
+    kind := 'surcharge';
+    description := 'Emergency surcharge';
+    quantity := 1;
+    unit_price := round(v_labor * v_config.emergency_surcharge_percent / 100, 2);
+    amount := unit_price;
+    v_subtotal := v_subtotal + amount;
+    RETURN NEXT;
+  ELSIF v_config.after_hours_surcharge_percent > 0 AND (
+    EXTRACT(ISODOW FROM v_local_time) IN (6, 7)
+    OR EXTRACT(HOUR FROM v_local_time) < v_config.business_hours_start
+    OR EXTRACT(HOUR FROM v_local_time) >= v_config.business_hours_end
+  ) THEN
+    kind := 'surcharge';
+    description := 'After-hours surcharge';
+    quantity := 1;
+    unit_price := round(v_labor * v_config.after_hours_surcharge_percent / 100, 2);
+    amount := unit_price;
+    v_subtotal := v_subtotal + amount;
+    RETURN NEXT;
+  END IF;
+
+  IF p_promo_code IS NOT NULL AND p_promo_code <> '' THEN
+    SELECT * INTO v_promo
+    FROM promo_codes
+    WHERE code = upper(trim(p_promo_code))
+      AND is_active
+      AND (expires_at IS NULL OR expires_at > now());
+
+    IF v_promo.code IS NULL THEN
+      RAISE EXCEPTION 'Promo code % is not valid', upper(trim(p_promo_code));
+    END IF;
+
+    kind := 'discount';
+    description := 'Promo ' || v_promo.code || ' (' || trim_scale(v_promo.percent_off) || '% off)';
+    quantity := 1;
+    unit_price := -round(v_subtotal * v_promo.percent_off / 100, 2);
+    amount := unit_price;
+    v_subtotal := v_subtotal + amount;
+    RETURN NEXT;
+  END IF;
+
+  IF v_config.tax_percent > 0 THEN
+    kind := 'tax';
+    description := 'Tax (' || trim_scale(v_config.tax_percent) || '%)';
+    quantity := 1;
+    unit_price := round(v_subtotal * v_config.tax_percent / 100, 2);
+    amount := unit_price;
+    RETURN NEXT;
+  END IF;
+END;
+$$;
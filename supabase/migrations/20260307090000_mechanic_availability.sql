@@ -0,0 +1,306 @@
+/*
+  # Mechanic Working Hours, Time Off and Availability
+
+  ## Overview
+  Replaces the fixed 8am-6pm booking day with each mechanic's own weekly
+  schedule, time off and daily job limit. `mechanics.is_available` becomes
+  the mechanic's "online" switch: going offline hides them from matching and
+  stops new bookings until they come back online.
+
+  ## Tables Created
+
+  1. **mechanic_working_hours**
+     - `mechanic_id` (uuid, references mechanics)
+     - `weekday` (smallint, 0 = Sunday ... 6 = Saturday)
+     - `start_time` / `end_time` (time, in the mechanic's time zone)
+     - Primary key on (mechanic_id, weekday); a missing day is a day off
+
+  2. **mechanic_time_off**
+     - `id` (uuid, primary key)
+     - `mechanic_id` (uuid, references mechanics)
+     - `starts_at` / `ends_at` (timestamptz)
+     - `reason` (text, optional)
+     - `created_at` (timestamptz)
+
+  ## Changes
+
+  1. **mechanics**
+     - `max_jobs_per_day` (integer, optional) - no limit when null
+     - `time_zone` (text) - the zone working hours are written in
+
+  ## Functions
+
+  1. **get_mechanic_working_windows(p_mechanic_id, p_from, p_to)** - the
+     mechanic's working hours in a window as timestamps, leaving out days
+     that already hit the job limit; nothing while they are offline
+  2. **get_mechanic_busy_times(...)** - now also returns time off
+  3. **is_mechanic_available(p_mechanic_id, p_at)** - whether the mechanic
+     is online, working, not on time off and not booked at a moment
+  4. **check_mechanic_schedule()** - BEFORE INSERT trigger on bookings that
+     rejects bookings while offline, outside working hours or over the
+     daily limit (time off is caught by the overlap check)
+  5. **set_default_working_hours()** - new mechanics start with 8am-6pm
+     every day
+
+  ## Security
+  - Everyone signed in can read working hours, which the booking flow shows
+  - Time off is private to the mechanic; customers only see it as busy time
+  - Mechanics manage only their own schedule
+
+  ## Notes
+  - Existing mechanics get 8am-6pm every day, the hours the booking flow
+    used until now
+*/
+
+ALTER TABLE mechanics
+  ADD COLUMN IF NOT EXISTS max_jobs_per_day integer,
+  ADD COLUMN IF NOT EXISTS time_zone text NOT NULL DEFAULT 'America/Los_Angeles',
+  ADD CONSTRAINT valid_max_jobs_per_day CHECK (max_jobs_per_day IS NULL OR max_jobs_per_day > 0);
+
+CREATE TABLE IF NOT EXISTS mechanic_working_hours (
+  mechanic_id uuid REFERENCES mechanics(id) ON DELETE CASCADE NOT NULL,
+  weekday smallint NOT NULL,
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  PRIMARY KEY (mechanic_id, weekday),
+  CONSTRAINT valid_weekday CHECK (weekday BETWEEN 0 AND 6),
+  CONSTRAINT valid_working_hours CHECK (start_time < end_time)
+);
+
+CREATE TABLE IF NOT EXISTS mechanic_time_off (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  mechanic_id uuid REFERENCES mechanics(id) ON DELETE CASCADE NOT NULL,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  reason text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_time_off CHECK (starts_at < ends_at)
+);
+
+CREATE INDEX IF NOT EXISTS mechanic_time_off_mechanic_idx
+  ON mechanic_time_off (mechanic_id, starts_at);
+
+ALTER TABLE mechanic_working_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mechanic_time_off ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view working hours"
+  ON mechanic_working_hours FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Mechanics can manage own working hours"
+  ON mechanic_working_hours FOR ALL
+  TO authenticated
+  USING (
+    mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+  )
+  WITH CHECK (
+    mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Mechanics can manage own time off"
+  ON mechanic_time_off FOR ALL
+  TO authenticated
+  USING (
+    mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+  )
+  WITH CHECK (
+    mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION set_default_working_hours()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO mechanic_working_hours (mechanic_id, weekday, start_time, end_time)
+  SELECT NEW.id, d, '08:00', '18:00' FROM generate_series(0, 6) AS d
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mechanics_set_default_working_hours
+  AFTER INSERT ON mechanics
+  FOR EACH ROW
+  EXECUTE FUNCTION set_default_working_hours();
+
+INSERT INTO mechanic_working_hours (mechanic_id, weekday, start_time, end_time)
+SELECT m.id, d, '08:00', '18:00' FROM mechanics m CROSS JOIN generate_series(0, 6) AS d
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION get_mechanic_working_windows(
+  p_mechanic_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (starts_at timestamptz, ends_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT w.starts_at, w.ends_at
+  FROM mechanics m
+  CROSS JOIN LATERAL generate_series(
+    ((p_from AT TIME ZONE m.time_zone)::date - 1)::timestamp,
+    ((p_to AT TIME ZONE m.time_zone)::date)::timestamp,
+    interval '1 day'
+  ) AS d(day)
+  JOIN mechanic_working_hours h
+    ON h.mechanic_id = m.id AND h.weekday = EXTRACT(DOW FROM d.day)
+  CROSS JOIN LATERAL (
+    SELECT
+      (d.day + h.start_time) AT TIME ZONE m.time_zone AS starts_at,
+      (d.day + h.end_time) AT TIME ZONE m.time_zone AS ends_at
+  ) w
+  WHERE m.id = p_mechanic_id
+    AND m.is_available
+    AND w.ends_at > p_from
+    AND w.starts_at < p_to
+    AND (
+      m.max_jobs_per_day IS NULL
+      OR (
+        SELECT count(*)
+        FROM bookings b
+        WHERE b.mechanic_id = m.id
+          AND b.status IN ('pending', 'accepted', 'in_progress')
+          AND (b.scheduled_time AT TIME ZONE m.time_zone)::date = d.day::date
+      ) < m.max_jobs_per_day
+    )
+  ORDER BY w.starts_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_mechanic_working_windows(uuid, timestamptz, timestamptz) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_mechanic_busy_times(
+  p_mechanic_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (scheduled_time timestamptz, estimated_duration integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT busy.scheduled_time, busy.estimated_duration
+  FROM (
+    SELECT b.scheduled_time, b.estimated_duration
+    FROM bookings b
+    WHERE b.mechanic_id = p_mechanic_id
+      AND b.status IN ('pending', 'accepted', 'in_progress')
+      AND b.scheduled_time < p_to
+      AND b.scheduled_time + make_interval(mins => b.estimated_duration) > p_from
+    UNION ALL
+    SELECT t.starts_at, ceil(extract(epoch FROM t.ends_at - t.starts_at) / 60)::integer
+    FROM mechanic_time_off t
+    WHERE t.mechanic_id = p_mechanic_id
+      AND t.starts_at < p_to
+      AND t.ends_at > p_from
+  ) busy
+  ORDER BY busy.scheduled_time;
+$$;
+
+CREATE OR REPLACE FUNCTION is_mechanic_available(
+  p_mechanic_id uuid,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    EXISTS (
+      SELECT 1
+      FROM get_mechanic_working_windows(p_mechanic_id, p_at, p_at + interval '1 minute') w
+      WHERE w.starts_at <= p_at AND w.ends_at > p_at
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM get_mechanic_busy_times(p_mechanic_id, p_at, p_at + interval '1 minute')
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_mechanic_available(uuid, timestamptz) TO authenticated;
+
+CREATE OR REPLACE FUNCTION check_mechanic_schedule()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mechanic mechanics;
+  v_end timestamptz;
+BEGIN
+  IF NEW.mechanic_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_mechanic FROM mechanics WHERE id = NEW.mechanic_id;
+  v_end := NEW.scheduled_time + make_interval(mins => NEW.estimated_duration);
+
+  IF NOT v_mechanic.is_available THEN
+    RAISE EXCEPTION 'This mechanic is not taking bookings right now';
+  END IF;
+
+  IF v_mechanic.max_jobs_per_day IS NOT NULL AND (
+    SELECT count(*)
+    FROM bookings b
+    WHERE b.mechanic_id = NEW.mechanic_id
+      AND b.status IN ('pending', 'accepted', 'in_progress')
+      AND (b.scheduled_time AT TIME ZONE v_mechanic.time_zone)::date
+        = (NEW.scheduled_time AT TIME ZONE v_mechanic.time_zone)::date
+  ) >= v_mechanic.max_jobs_per_day THEN
+    RAISE EXCEPTION 'This mechanic is fully booked on that day';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM get_mechanic_working_windows(NEW.mechanic_id, NEW.scheduled_time, v_end) w
+    WHERE w.starts_at <= NEW.scheduled_time AND w.ends_at >= v_end
+  ) THEN
+    RAISE EXCEPTION 'The selected time is outside this mechanic''s working hours';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after bookings_apply_mechanic_terms, which sets NEW.estimated_duration.
+CREATE TRIGGER bookings_check_mechanic_schedule
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION check_mechanic_schedule();
+
+CREATE OR REPLACE FUNCTION prevent_overlapping_bookings()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.mechanic_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM get_mechanic_busy_times(
+      NEW.mechanic_id,
+      NEW.scheduled_time,
+      NEW.scheduled_time + make_interval(mins => NEW.estimated_duration)
+    )
+  ) THEN
+    RAISE EXCEPTION 'This mechanic is not available at the selected time';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
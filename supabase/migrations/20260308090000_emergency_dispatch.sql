@@ -0,0 +1,500 @@
+/*
+  # Emergency Auto-Dispatch
+
+  ## Overview
+  Emergency services no longer ask the customer to pick a mechanic. The
+  booking is created without one and offered to nearby mechanics in waves
+  of growing radius; the first mechanic to accept claims it. The customer
+  follows the search live through the booking row.
+
+  ## Tables Created
+
+  1. **dispatch_offers**
+     - `booking_id` (uuid, references bookings)
+     - `mechanic_id` (uuid, references mechanics)
+     - `wave` (integer) - the wave the offer went out in
+     - `distance_km` (numeric) - from the mechanic to the customer
+     - `offered_at` (timestamptz)
+     - `declined_at` (timestamptz, optional)
+     - `closed_at` (timestamptz, optional) - set once the job is taken or
+       cancelled
+     - Primary key on (booking_id, mechanic_id)
+
+  ## Changes
+
+  1. **bookings**
+     - `dispatch_status` (text: 'searching', 'assigned', 'exhausted'; null
+       for bookings made with a chosen mechanic)
+     - `dispatch_wave` (integer) - the latest wave sent
+     - `dispatch_wave_started_at` (timestamptz)
+     - `dispatch_offer_count` (integer) - mechanics notified so far
+
+  ## Functions
+
+  1. **dispatch_next_wave(p_booking_id)** - offers the booking to available
+     mechanics who perform the service within the next radius (5, 15, then
+     40 km, always within their own service radius), skipping empty waves;
+     marks the search exhausted after the last one
+  2. **advance_dispatch(p_booking_id)** - RPC for the customer's status
+     screen; sends the next wave once the current one has had a minute
+  3. **advance_dispatches()** - the same for every search, run each minute
+     by pg_cron where it is installed
+  4. **restart_dispatch(p_booking_id)** - RPC to search again after an
+     exhausted search
+  5. **claim_dispatch(p_booking_id)** - RPC for an offered mechanic; assigns
+     and accepts the booking. The conditional update is the lock: only one
+     concurrent claim can match `mechanic_id IS NULL`
+  6. **decline_dispatch(p_booking_id)** - RPC for an offered mechanic; the
+     next wave goes out at once when everyone offered has declined
+  7. **prepare_dispatch()** / **start_dispatch()** - INSERT triggers on
+     bookings that set up the search and send the first wave
+  8. **protect_dispatch_fields()** - stops clients from assigning mechanics
+     or editing dispatch state directly
+  9. **close_dispatch_offers()** - closes open offers once a booking is taken
+     or cancelled
+  10. **calculate_cancellation_fee(booking)** - free while no mechanic has
+      taken the job
+
+  ## Security
+  - Mechanics can see their own open offers and the bookings behind them
+  - All dispatch writes go through the functions above
+
+  ## Notes
+  - Dispatch bookings are priced without a mechanic, so there is no travel
+    line; the price is fixed when the customer confirms
+  - Only emergency services can be booked without a mechanic
+*/
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS dispatch_status text,
+  ADD COLUMN IF NOT EXISTS dispatch_wave integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dispatch_wave_started_at timestamptz,
+  ADD COLUMN IF NOT EXISTS dispatch_offer_count integer NOT NULL DEFAULT 0,
+  ADD CONSTRAINT valid_dispatch_status
+    CHECK (dispatch_status IS NULL OR dispatch_status IN ('searching', 'assigned', 'exhausted'));
+
+CREATE INDEX IF NOT EXISTS bookings_dispatch_searching_idx
+  ON bookings (dispatch_wave_started_at)
+  WHERE dispatch_status = 'searching';
+
+CREATE TABLE IF NOT EXISTS dispatch_offers (
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  mechanic_id uuid REFERENCES mechanics(id) ON DELETE CASCADE NOT NULL,
+  wave integer NOT NULL,
+  distance_km numeric NOT NULL,
+  offered_at timestamptz DEFAULT now(),
+  declined_at timestamptz,
+  closed_at timestamptz,
+  PRIMARY KEY (booking_id, mechanic_id)
+);
+
+CREATE INDEX IF NOT EXISTS dispatch_offers_mechanic_idx
+  ON dispatch_offers (mechanic_id, offered_at DESC);
+
+ALTER TABLE dispatch_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Mechanics can view own dispatch offers"
+  ON dispatch_offers FOR SELECT
+  TO authenticated
+  USING (
+    mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Mechanics can view offered bookings"
+  ON bookings FOR SELECT
+  TO authenticated
+  USING (
+    id IN (
+      SELECT booking_id FROM dispatch_offers
+      WHERE mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+        AND declined_at IS NULL
+        AND closed_at IS NULL
+    )
+  );
+
+CREATE OR REPLACE FUNCTION protect_dispatch_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_setting('app.dispatch_update', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.mechanic_id IS DISTINCT FROM OLD.mechanic_id
+    OR NEW.dispatch_status IS DISTINCT FROM OLD.dispatch_status
+    OR NEW.dispatch_wave IS DISTINCT FROM OLD.dispatch_wave
+    OR NEW.dispatch_wave_started_at IS DISTINCT FROM OLD.dispatch_wave_started_at
+    OR NEW.dispatch_offer_count IS DISTINCT FROM OLD.dispatch_offer_count
+  THEN
+    RAISE EXCEPTION 'Mechanic assignment can''t be changed directly';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_protect_dispatch_fields
+  BEFORE UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_dispatch_fields();
+
+CREATE OR REPLACE FUNCTION prepare_dispatch()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.dispatch_wave := 0;
+  NEW.dispatch_wave_started_at := NULL;
+  NEW.dispatch_offer_count := 0;
+
+  IF NEW.mechanic_id IS NOT NULL THEN
+    NEW.dispatch_status := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM services WHERE id = NEW.service_id AND category = 'emergency'
+  ) THEN
+    RAISE EXCEPTION 'Please choose a mechanic for this service';
+  END IF;
+
+  IF NEW.location_latitude IS NULL OR NEW.location_longitude IS NULL THEN
+    RAISE EXCEPTION 'Your location is needed to find a mechanic nearby';
+  END IF;
+
+  NEW.dispatch_status := 'searching';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_prepare_dispatch
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_dispatch();
+
+CREATE OR REPLACE FUNCTION dispatch_next_wave(p_booking_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_radii numeric[] := ARRAY[5, 15, 40];
+  v_booking bookings;
+  v_service_name text;
+  v_wave integer;
+  v_offered integer := 0;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF v_booking.dispatch_status IS DISTINCT FROM 'searching' OR v_booking.status <> 'pending' THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.dispatch_update', 'on', true);
+  v_wave := v_booking.dispatch_wave;
+
+  -- A wave with nobody new in range is skipped rather than waited out.
+  WHILE v_offered = 0 LOOP
+    v_wave := v_wave + 1;
+
+    IF v_wave > array_length(v_radii, 1) THEN
+      UPDATE bookings
+      SET dispatch_status = 'exhausted', dispatch_wave = v_wave - 1
+      WHERE id = p_booking_id;
+
+      PERFORM set_config('app.dispatch_update', '', true);
+      RETURN;
+    END IF;
+
+    INSERT INTO dispatch_offers (booking_id, mechanic_id, wave, distance_km)
+    SELECT p_booking_id, m.id, v_wave, round(d.km, 2)
+    FROM mechanics m
+    JOIN mechanic_services ms
+      ON ms.mechanic_id = m.id AND ms.service_id = v_booking.service_id
+    CROSS JOIN LATERAL (
+      SELECT distance_km(
+        v_booking.location_latitude,
+        v_booking.location_longitude,
+        m.current_latitude,
+        m.current_longitude
+      ) AS km
+    ) d
+    WHERE m.current_latitude IS NOT NULL
+      AND m.current_longitude IS NOT NULL
+      AND m.user_id <> v_booking.customer_id
+      AND d.km <= m.service_radius
+      AND d.km <= v_radii[v_wave]
+      AND is_mechanic_available(m.id, now())
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS v_offered = ROW_COUNT;
+  END LOOP;
+
+  UPDATE bookings
+  SET
+    dispatch_wave = v_wave,
+    dispatch_wave_started_at = now(),
+    dispatch_offer_count = dispatch_offer_count + v_offered
+  WHERE id = p_booking_id;
+
+  PERFORM set_config('app.dispatch_update', '', true);
+
+  SELECT name INTO v_service_name FROM services WHERE id = v_booking.service_id;
+
+  PERFORM enqueue_notification(
+    m.user_id,
+    p_booking_id,
+    'booking_created',
+    'Emergency job nearby',
+    format(
+      '%s, %s km away. The first mechanic to accept gets the job.',
+      v_service_name,
+      round(o.distance_km, 1)
+    )
+  )
+  FROM dispatch_offers o
+  JOIN mechanics m ON m.id = o.mechanic_id
+  WHERE o.booking_id = p_booking_id AND o.wave = v_wave;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION dispatch_next_wave(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION start_dispatch()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.dispatch_status = 'searching' THEN
+    PERFORM dispatch_next_wave(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_start_dispatch
+  AFTER INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION start_dispatch();
+
+CREATE OR REPLACE FUNCTION advance_dispatch(p_booking_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM bookings WHERE id = p_booking_id AND customer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE id = p_booking_id
+      AND dispatch_status = 'searching'
+      AND dispatch_wave_started_at < now() - interval '1 minute'
+  ) THEN
+    PERFORM dispatch_next_wave(p_booking_id);
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION advance_dispatch(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION advance_dispatches()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT dispatch_next_wave(id)
+  FROM bookings
+  WHERE dispatch_status = 'searching'
+    AND dispatch_wave_started_at < now() - interval '1 minute';
+$$;
+
+REVOKE EXECUTE ON FUNCTION advance_dispatches() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'emergency-dispatch',
+      '* * * * *',
+      'SELECT advance_dispatches()'
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restart_dispatch(p_booking_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.dispatch_update', 'on', true);
+
+  UPDATE bookings
+  SET dispatch_status = 'searching', dispatch_wave = 0, dispatch_wave_started_at = NULL
+  WHERE id = p_booking_id
+    AND customer_id = auth.uid()
+    AND status = 'pending'
+    AND dispatch_status = 'exhausted';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This search can''t be restarted';
+  END IF;
+
+  PERFORM set_config('app.dispatch_update', '', true);
+
+  -- Mechanics who let the offer lapse get another chance; those who
+  -- declined are not asked again.
+  DELETE FROM dispatch_offers
+  WHERE booking_id = p_booking_id AND declined_at IS NULL;
+
+  PERFORM dispatch_next_wave(p_booking_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restart_dispatch(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION claim_dispatch(p_booking_id uuid)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mechanic_id uuid;
+  v_booking bookings;
+BEGIN
+  SELECT id INTO v_mechanic_id FROM mechanics WHERE user_id = auth.uid();
+
+  IF v_mechanic_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM dispatch_offers
+    WHERE booking_id = p_booking_id
+      AND mechanic_id = v_mechanic_id
+      AND declined_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This job was not offered to you';
+  END IF;
+
+  IF NOT is_mechanic_available(v_mechanic_id, now()) THEN
+    RAISE EXCEPTION 'Go online and finish your current job before accepting another';
+  END IF;
+
+  PERFORM set_config('app.dispatch_update', 'on', true);
+
+  -- Concurrent claims queue on the row lock; once the first commits, the
+  -- rest no longer match `mechanic_id IS NULL` and update nothing.
+  UPDATE bookings
+  SET mechanic_id = v_mechanic_id, dispatch_status = 'assigned'
+  WHERE id = p_booking_id
+    AND mechanic_id IS NULL
+    AND status = 'pending'
+    AND dispatch_status IN ('searching', 'exhausted');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This job has already been taken';
+  END IF;
+
+  PERFORM set_config('app.dispatch_update', '', true);
+
+  -- A separate update so the status trigger sees the mechanic as the actor.
+  UPDATE bookings
+  SET status = 'accepted'
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_dispatch(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION decline_dispatch(p_booking_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE dispatch_offers
+  SET declined_at = now()
+  WHERE booking_id = p_booking_id
+    AND mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+    AND declined_at IS NULL
+    AND closed_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM dispatch_offers
+    WHERE booking_id = p_booking_id
+      AND declined_at IS NULL
+      AND closed_at IS NULL
+  ) THEN
+    PERFORM dispatch_next_wave(p_booking_id);
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION decline_dispatch(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION close_dispatch_offers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'pending' OR NEW.mechanic_id IS NOT NULL THEN
+    UPDATE dispatch_offers
+    SET closed_at = now()
+    WHERE booking_id = NEW.id AND closed_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_close_dispatch_offers
+  AFTER UPDATE OF status, mechanic_id ON bookings
+  FOR EACH ROW
+  WHEN (OLD.dispatch_status IS NOT NULL)
+  EXECUTE FUNCTION close_dispatch_offers();
+
+CREATE OR REPLACE FUNCTION calculate_cancellation_fee(p_booking bookings)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT round(
+    p_booking.total_price * CASE
+      WHEN p_booking.mechanic_id IS NULL THEN 0
+      WHEN p_booking.en_route_at IS NOT NULL THEN p.en_route_fee_percent
+      WHEN p_booking.scheduled_time - now() < make_interval(hours => p.free_window_hours)
+        THEN p.late_fee_percent
+      ELSE 0
+    END / 100,
+    2
+  )
+  FROM cancellation_policy p;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE dispatch_offers;
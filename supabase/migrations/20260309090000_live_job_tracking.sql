@@ -0,0 +1,136 @@
+/*
+  # Live Job Tracking
+
+  ## Overview
+  Mechanics share their live position while they are on a job, so the
+  customer can see how far away they are and when they will arrive. The
+  position is only shared once the mechanic is on the way (`en_route_at`)
+  and until the job is completed or cancelled.
+
+  ## Tables Created
+
+  1. **booking_tracking** (one row per booking, the latest position)
+     - `booking_id` (uuid, primary key, references bookings)
+     - `mechanic_id` (uuid, references mechanics)
+     - `customer_id` (uuid, references profiles) - copied from the booking
+       so customers can subscribe to their own rows
+     - `latitude` / `longitude` (numeric)
+     - `accuracy` (numeric, optional) - in meters, as the device reports it
+     - `recorded_at` (timestamptz)
+
+  ## Functions
+
+  1. **record_mechanic_location(p_latitude, p_longitude, p_accuracy)** - RPC
+     for mechanics; stores the position on every booking they are driving
+     to or working on and returns how many that was, so the app knows when
+     to stop sending
+  2. **stop_booking_tracking()** - AFTER UPDATE trigger on bookings that
+     removes the position once a job is completed or cancelled
+
+  ## Security
+  - Only the customer on the booking and its mechanic can read the position
+  - Positions are written only through `record_mechanic_location`
+
+  ## Notes
+  - Live positions are kept out of `mechanics`, which every signed-in user
+    can read; `current_latitude` / `current_longitude` stay the base
+    location mechanics set when onboarding, used for matching
+*/
+
+CREATE TABLE IF NOT EXISTS booking_tracking (
+  booking_id uuid PRIMARY KEY REFERENCES bookings(id) ON DELETE CASCADE,
+  mechanic_id uuid REFERENCES mechanics(id) ON DELETE CASCADE NOT NULL,
+  customer_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  latitude numeric NOT NULL,
+  longitude numeric NOT NULL,
+  accuracy numeric,
+  recorded_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT valid_tracking_coordinates CHECK (
+    latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180
+  )
+);
+
+CREATE INDEX IF NOT EXISTS booking_tracking_customer_idx
+  ON booking_tracking (customer_id);
+
+ALTER TABLE booking_tracking ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view tracking for own bookings"
+  ON booking_tracking FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "Mechanics can view own tracking"
+  ON booking_tracking FOR SELECT
+  TO authenticated
+  USING (
+    mechanic_id IN (SELECT id FROM mechanics WHERE user_id = auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION record_mechanic_location(
+  p_latitude numeric,
+  p_longitude numeric,
+  p_accuracy numeric DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mechanic_id uuid;
+  v_tracked integer;
+BEGIN
+  SELECT id INTO v_mechanic_id FROM mechanics WHERE user_id = auth.uid();
+
+  IF v_mechanic_id IS NULL THEN
+    RAISE EXCEPTION 'Only mechanics can share their location';
+  END IF;
+
+  IF p_latitude NOT BETWEEN -90 AND 90 OR p_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid coordinates';
+  END IF;
+
+  INSERT INTO booking_tracking (
+    booking_id, mechanic_id, customer_id, latitude, longitude, accuracy, recorded_at
+  )
+  SELECT b.id, v_mechanic_id, b.customer_id, p_latitude, p_longitude, p_accuracy, now()
+  FROM bookings b
+  WHERE b.mechanic_id = v_mechanic_id
+    AND (
+      b.status = 'in_progress'
+      OR (b.status = 'accepted' AND b.en_route_at IS NOT NULL)
+    )
+  ON CONFLICT (booking_id) DO UPDATE
+  SET
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    accuracy = EXCLUDED.accuracy,
+    recorded_at = EXCLUDED.recorded_at;
+
+  GET DIAGNOSTICS v_tracked = ROW_COUNT;
+  RETURN v_tracked;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_mechanic_location(numeric, numeric, numeric) TO authenticated;
+
+CREATE OR REPLACE FUNCTION stop_booking_tracking()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM booking_tracking WHERE booking_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_stop_tracking
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  WHEN (NEW.status IN ('completed', 'cancelled'))
+  EXECUTE FUNCTION stop_booking_tracking();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE booking_tracking;
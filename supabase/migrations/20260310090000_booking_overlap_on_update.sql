@@ -0,0 +1,60 @@
+/*
+  # Check Booking Overlaps on Reschedule
+
+  ## Overview
+  `prevent_overlapping_bookings` only ran on INSERT, so moving a booking to
+  another time or mechanic with an UPDATE could double-book the mechanic.
+  The check now also runs when the time, mechanic or duration changes.
+
+  ## Functions
+
+  1. **prevent_overlapping_bookings()** - ignores the booking being checked,
+     which an UPDATE would otherwise find overlapping itself, and skips
+     bookings that are no longer active
+
+  ## Notes
+  - Time off still counts as busy, as in `get_mechanic_busy_times`
+*/
+
+CREATE OR REPLACE FUNCTION prevent_overlapping_bookings()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_end timestamptz;
+BEGIN
+  IF NEW.mechanic_id IS NULL OR NEW.status NOT IN ('pending', 'accepted', 'in_progress') THEN
+    RETURN NEW;
+  END IF;
+
+  v_end := NEW.scheduled_time + make_interval(mins => NEW.estimated_duration);
+
+  IF EXISTS (
+    SELECT 1
+    FROM bookings b
+    WHERE b.mechanic_id = NEW.mechanic_id
+      AND b.id <> NEW.id
+      AND b.status IN ('pending', 'accepted', 'in_progress')
+      AND b.scheduled_time < v_end
+      AND b.scheduled_time + make_interval(mins => b.estimated_duration) > NEW.scheduled_time
+  ) OR EXISTS (
+    SELECT 1
+    FROM mechanic_time_off t
+    WHERE t.mechanic_id = NEW.mechanic_id
+      AND t.starts_at < v_end
+      AND t.ends_at > NEW.scheduled_time
+  ) THEN
+    RAISE EXCEPTION 'This mechanic is not available at the selected time';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_prevent_overlap ON bookings;
+CREATE TRIGGER bookings_prevent_overlap
+  BEFORE INSERT OR UPDATE OF scheduled_time, mechanic_id, estimated_duration ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_overlapping_bookings();
@@ -0,0 +1,132 @@
+/*
+  # Cancellation Details in Notifications
+
+  ## Overview
+  Mechanics only learned about a late-cancellation fee from an alert in the
+  Bookings screen, so nothing reached them when the app was closed. The
+  `booking_cancelled` notification now carries the reason and any fee, and
+  is pushed like every other booking event.
+
+  ## Functions
+
+  1. **notify_booking_change()** - the cancelled notifications add the
+     cancellation reason, and the mechanic's also adds the fee the customer
+     is charged; other events are unchanged
+
+  ## Notes
+  - `cancellation_fee` and `cancellation_reason` are set by the BEFORE
+    UPDATE trigger `bookings_apply_cancellation`, so they are already on the
+    row when this AFTER trigger runs
+*/
+
+CREATE OR REPLACE FUNCTION notify_booking_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mechanic mechanics;
+  v_customer_name text;
+  v_service_name text;
+  v_when text;
+  v_reason text;
+  v_fee text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_mechanic FROM mechanics WHERE id = NEW.mechanic_id;
+  SELECT full_name INTO v_customer_name FROM profiles WHERE id = NEW.customer_id;
+  SELECT name INTO v_service_name FROM services WHERE id = NEW.service_id;
+
+  v_when := to_char(
+    NEW.scheduled_time AT TIME ZONE COALESCE(
+      (SELECT time_zone FROM pricing_config LIMIT 1),
+      'UTC'
+    ),
+    'Mon FMDD "at" FMHH12:MI AM'
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM enqueue_notification(
+      v_mechanic.user_id,
+      NEW.id,
+      'booking_created',
+      'New booking request',
+      format('%s booked %s for %s.', v_customer_name, v_service_name, v_when)
+    );
+    RETURN NEW;
+  END IF;
+
+  CASE NEW.status
+    WHEN 'accepted' THEN
+      PERFORM enqueue_notification(
+        NEW.customer_id,
+        NEW.id,
+        'booking_accepted',
+        'Booking confirmed',
+        format('%s accepted your %s booking for %s.', v_mechanic.business_name, v_service_name, v_when)
+      );
+    WHEN 'in_progress' THEN
+      PERFORM enqueue_notification(
+        NEW.customer_id,
+        NEW.id,
+        'booking_started',
+        'Service started',
+        format('%s has started working on your %s.', v_mechanic.business_name, v_service_name)
+      );
+    WHEN 'completed' THEN
+      PERFORM enqueue_notification(
+        NEW.customer_id,
+        NEW.id,
+        'booking_completed',
+        'Service completed',
+        format('Your %s is done. Your receipt is ready in Bookings.', v_service_name)
+      );
+    WHEN 'cancelled' THEN
+      IF NULLIF(NEW.cancellation_reason, '') IS NOT NULL THEN
+        v_reason := format('Reason: %s', NEW.cancellation_reason);
+      END IF;
+      IF NEW.cancellation_fee > 0 THEN
+        v_fee := format(
+          'A $%s late-cancellation fee applies.',
+          to_char(NEW.cancellation_fee, 'FM999990.00')
+        );
+      END IF;
+
+      IF NEW.cancelled_by IS DISTINCT FROM NEW.customer_id THEN
+        PERFORM enqueue_notification(
+          NEW.customer_id,
+          NEW.id,
+          'booking_cancelled',
+          'Booking cancelled',
+          concat_ws(
+            ' ',
+            format('Your %s booking for %s was cancelled.', v_service_name, v_when),
+            v_reason
+          )
+        );
+      END IF;
+      IF NEW.cancelled_by IS DISTINCT FROM v_mechanic.user_id THEN
+        PERFORM enqueue_notification(
+          v_mechanic.user_id,
+          NEW.id,
+          'booking_cancelled',
+          'Booking cancelled',
+          concat_ws(
+            ' ',
+            format('%s cancelled %s for %s.', v_customer_name, v_service_name, v_when),
+            v_fee,
+            v_reason
+          )
+        );
+      END IF;
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
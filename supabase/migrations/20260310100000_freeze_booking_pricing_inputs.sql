@@ -0,0 +1,58 @@
+/*
+  # Freeze Booking Pricing Inputs
+
+  ## Overview
+  A booking's total and line items are worked out once, when it is created.
+  `protect_booking_total` only guarded `total_price` and `promo_code`, so a
+  customer could keep the price and then switch the booking to a pricier
+  service, another time (dodging the after-hours surcharge) or a farther
+  location (dodging the travel fee). Everything the quote depends on is now
+  fixed once the booking exists.
+
+  ## Functions
+
+  1. **protect_booking_pricing_inputs()** - BEFORE UPDATE trigger on bookings
+     that rejects changes to the service, mechanic, time, duration or
+     location from the app
+
+  ## Notes
+  - The mechanic on a dispatch booking is still set by `claim_dispatch`;
+    dispatch bookings are priced without one, so the total doesn't change
+  - Calls without a signed-in user (the service role, cron jobs) are not
+    checked, as in `protect_dispatch_fields`
+  - To move a booking, customers cancel it and book again
+*/
+
+CREATE OR REPLACE FUNCTION protect_booking_pricing_inputs()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.service_id IS DISTINCT FROM OLD.service_id
+    OR NEW.scheduled_time IS DISTINCT FROM OLD.scheduled_time
+    OR NEW.estimated_duration IS DISTINCT FROM OLD.estimated_duration
+    OR NEW.location_latitude IS DISTINCT FROM OLD.location_latitude
+    OR NEW.location_longitude IS DISTINCT FROM OLD.location_longitude
+    OR NEW.location_address IS DISTINCT FROM OLD.location_address
+    OR (
+      NEW.mechanic_id IS DISTINCT FROM OLD.mechanic_id
+      AND current_setting('app.dispatch_update', true) IS DISTINCT FROM 'on'
+    )
+  THEN
+    RAISE EXCEPTION 'Booking details can''t be changed once it is priced';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_protect_pricing_inputs
+  BEFORE UPDATE OF service_id, mechanic_id, scheduled_time, estimated_duration,
+    location_latitude, location_longitude, location_address ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_booking_pricing_inputs();
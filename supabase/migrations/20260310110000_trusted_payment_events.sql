@@ -0,0 +1,213 @@
+/*
+  # Trusted Payment Events
+
+  ## Overview
+  `record_payment_event` could be called by any booking party with any
+  amount, so a customer could authorize or capture $0, and a late
+  `payment.failed` event could overwrite a payment that had already been
+  captured, refunded or voided. Provider events are now only accepted from
+  trusted callers, the amounts are worked out from the booking, and a failure
+  can no longer undo a settled payment.
+
+  ## Functions
+
+  1. **record_payment_event(...)** - now for the service role only, which is
+     what a provider webhook runs as:
+     - authorizations take the booking's `total_price`, and only once the
+       booking has been accepted
+     - captures take the total of a completed booking, or the
+       `cancellation_fee` of a cancelled one, up to the authorized amount
+     - refunds on a cancelled booking always leave the fee captured
+     - `payment.failed` only changes a payment that has not been authorized
+       yet or that failed before; otherwise it is ignored
+  2. **record_mock_payment_event(...)** - RPC for the in-app mock provider:
+     only the booking's customer or mechanic may call it, only for the mock
+     reference of that booking, and refunds only on cancelled bookings.
+     Amounts are still worked out by `record_payment_event`
+
+  ## Security
+  - `record_payment_event` is no longer executable by `authenticated`
+  - Deployments using a real provider should revoke
+    `record_mock_payment_event` as well, so only the webhook records events
+*/
+
+CREATE OR REPLACE FUNCTION record_payment_event(
+  p_event_id text,
+  p_booking_id uuid,
+  p_provider text,
+  p_reference text,
+  p_type text,
+  p_amount numeric,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+  v_payment payments;
+  v_amount numeric := 0;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF v_booking.id IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  SELECT * INTO v_payment FROM payments WHERE booking_id = p_booking_id FOR UPDATE;
+
+  IF v_payment.id IS NOT NULL AND EXISTS (SELECT 1 FROM payment_events WHERE id = p_event_id) THEN
+    RETURN v_payment;
+  END IF;
+
+  IF p_type = 'payment.authorized' THEN
+    IF v_booking.status NOT IN ('accepted', 'in_progress', 'completed') THEN
+      RAISE EXCEPTION 'Cannot authorize payment for a % booking', v_booking.status;
+    END IF;
+    v_amount := v_booking.total_price;
+  END IF;
+
+  IF v_payment.id IS NULL THEN
+    IF p_type NOT IN ('payment.authorized', 'payment.failed') THEN
+      RAISE EXCEPTION 'Payment for this booking has not been authorized';
+    END IF;
+
+    INSERT INTO payments (
+      booking_id, customer_id, mechanic_id, provider, provider_reference, status,
+      amount, failure_reason
+    )
+    VALUES (
+      v_booking.id,
+      v_booking.customer_id,
+      v_booking.mechanic_id,
+      p_provider,
+      p_reference,
+      CASE WHEN p_type = 'payment.authorized' THEN 'authorized' ELSE 'failed' END,
+      v_amount,
+      p_failure_reason
+    )
+    RETURNING * INTO v_payment;
+  ELSE
+    CASE p_type
+      WHEN 'payment.authorized' THEN
+        IF v_payment.status <> 'failed' THEN
+          RAISE EXCEPTION 'Payment is already %', v_payment.status;
+        END IF;
+        UPDATE payments
+        SET status = 'authorized', provider = p_provider, provider_reference = p_reference,
+            amount = v_amount, failure_reason = NULL, updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      WHEN 'payment.captured' THEN
+        v_amount := LEAST(
+          v_payment.amount,
+          CASE v_booking.status
+            WHEN 'completed' THEN v_booking.total_price
+            WHEN 'cancelled' THEN v_booking.cancellation_fee
+            ELSE 0
+          END
+        );
+        IF v_payment.status <> 'authorized' OR v_amount <= 0 THEN
+          RAISE EXCEPTION 'Cannot capture payment for a % booking', v_booking.status;
+        END IF;
+        UPDATE payments
+        SET status = 'captured', captured_amount = v_amount, updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      WHEN 'payment.refunded' THEN
+        v_amount := p_amount;
+        IF v_payment.status NOT IN ('captured', 'partially_refunded')
+          OR v_amount <= 0
+          OR v_payment.refunded_amount + v_amount > v_payment.captured_amount
+          OR (
+            v_booking.status = 'cancelled'
+            AND v_payment.refunded_amount + v_amount
+              > v_payment.captured_amount - v_booking.cancellation_fee
+          )
+        THEN
+          RAISE EXCEPTION 'Cannot refund % on a % payment', v_amount, v_payment.status;
+        END IF;
+        UPDATE payments
+        SET refunded_amount = refunded_amount + v_amount,
+            status = CASE
+              WHEN refunded_amount + v_amount >= captured_amount THEN 'refunded'
+              ELSE 'partially_refunded'
+            END,
+            updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      WHEN 'payment.voided' THEN
+        IF v_payment.status <> 'authorized' THEN
+          RAISE EXCEPTION 'Cannot void a % payment', v_payment.status;
+        END IF;
+        UPDATE payments
+        SET status = 'voided', updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      WHEN 'payment.failed' THEN
+        IF v_payment.status <> 'failed' THEN
+          RETURN v_payment;
+        END IF;
+        UPDATE payments
+        SET failure_reason = p_failure_reason, updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      ELSE
+        RAISE EXCEPTION 'Unknown payment event %', p_type;
+    END CASE;
+  END IF;
+
+  INSERT INTO payment_events (id, payment_id, type, amount, failure_reason)
+  VALUES (p_event_id, v_payment.id, p_type, v_amount, p_failure_reason);
+
+  RETURN v_payment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_payment_event(text, uuid, text, text, text, numeric, text)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_payment_event(text, uuid, text, text, text, numeric, text)
+  TO service_role;
+
+CREATE OR REPLACE FUNCTION record_mock_payment_event(
+  p_event_id text,
+  p_booking_id uuid,
+  p_reference text,
+  p_type text,
+  p_amount numeric,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF v_booking.id IS NULL
+    OR coalesce(booking_actor_role(v_booking), '') NOT IN ('customer', 'mechanic')
+  THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF p_reference IS DISTINCT FROM 'mock_pay_' || p_booking_id THEN
+    RAISE EXCEPTION 'Unknown payment reference';
+  END IF;
+
+  IF p_type = 'payment.refunded' AND v_booking.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Only cancelled bookings can be refunded';
+  END IF;
+
+  RETURN record_payment_event(
+    p_event_id, p_booking_id, 'mock', p_reference, p_type, p_amount, p_failure_reason
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_mock_payment_event(text, uuid, text, text, numeric, text)
+  TO authenticated;
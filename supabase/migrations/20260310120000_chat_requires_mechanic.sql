@@ -0,0 +1,50 @@
+/*
+  # Chat Requires an Assigned Mechanic
+
+  ## Overview
+  Emergency dispatch bookings start without a mechanic, so a message sent
+  while the request was still searching had no one to go to, and the
+  mechanic who took the job never saw it as unread. Messages can now only
+  be sent once a mechanic is on the booking.
+
+  ## Functions
+
+  1. **prepare_booking_message()** - also rejects messages on bookings
+     without a mechanic
+
+  ## Notes
+  - The app hides the chat button until the booking has a mechanic
+*/
+
+CREATE OR REPLACE FUNCTION prepare_booking_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+  v_mechanic_user_id uuid;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = NEW.booking_id;
+
+  IF v_booking.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'This conversation is closed because the booking is %', v_booking.status;
+  END IF;
+
+  IF v_booking.mechanic_id IS NULL THEN
+    RAISE EXCEPTION 'You can message your mechanic once one has taken the job';
+  END IF;
+
+  SELECT user_id INTO v_mechanic_user_id FROM mechanics WHERE id = v_booking.mechanic_id;
+
+  NEW.recipient_id := CASE
+    WHEN NEW.sender_id = v_booking.customer_id THEN v_mechanic_user_id
+    ELSE v_booking.customer_id
+  END;
+  NEW.read_at := NULL;
+  NEW.created_at := now();
+
+  RETURN NEW;
+END;
+$$;
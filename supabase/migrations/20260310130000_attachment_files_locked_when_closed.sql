@@ -0,0 +1,27 @@
+/*
+  # Lock Attachment Files on Closed Bookings
+
+  ## Overview
+  The `booking_attachments` rows could only be removed while the booking was
+  open, but the files behind them could still be deleted from storage
+  afterwards, so before and after photos kept as proof of work could go
+  missing once a job was completed or cancelled. The storage policy now
+  matches the table.
+
+  ## Security
+  - Uploaders can only delete their files from `booking-attachments` while
+    the booking is not completed or cancelled
+*/
+
+DROP POLICY IF EXISTS "Uploaders can remove own booking attachment files" ON storage.objects;
+
+CREATE POLICY "Uploaders can remove own booking attachment files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'booking-attachments'
+    AND owner = auth.uid()
+    AND ((storage.foldername(name))[1])::uuid IN (
+      SELECT id FROM bookings WHERE status NOT IN ('completed', 'cancelled')
+    )
+  );
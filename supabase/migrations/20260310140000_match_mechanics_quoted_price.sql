@@ -0,0 +1,85 @@
+/*
+  # Quoted Prices in Mechanic Matching
+
+  ## Overview
+  The mechanic cards showed the service's catalog price from
+  `mechanic_service_terms`, but bookings are charged by `quote_booking`:
+  hourly labor unless the mechanic set their own price, plus parts and
+  travel. The price `match_mechanics` returns now comes from the quote.
+
+  ## Functions
+
+  1. **match_mechanics(...)** - `price` is the labor, parts and travel lines
+     of `quote_booking` for the mechanic; same signature and results
+     otherwise
+
+  ## Notes
+  - Tax, discounts and the after-hours surcharge are left out because they
+    depend on the time and promo code, which the customer picks later
+*/
+
+CREATE OR REPLACE FUNCTION match_mechanics(
+  p_latitude numeric,
+  p_longitude numeric,
+  p_limit integer DEFAULT 20,
+  p_service_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  business_name text,
+  rating numeric,
+  total_jobs integer,
+  years_experience integer,
+  service_radius integer,
+  is_available boolean,
+  distance_km numeric,
+  match_score numeric,
+  price numeric,
+  estimated_duration integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      m.*,
+      distance_km(p_latitude, p_longitude, m.current_latitude, m.current_longitude) AS distance
+    FROM mechanics m
+    WHERE m.is_available = true
+      AND m.current_latitude IS NOT NULL
+      AND m.current_longitude IS NOT NULL
+      AND (
+        p_service_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM mechanic_services ms
+          WHERE ms.mechanic_id = m.id AND ms.service_id = p_service_id
+        )
+      )
+  )
+  SELECT
+    c.id,
+    c.business_name,
+    c.rating,
+    c.total_jobs,
+    c.years_experience,
+    c.service_radius,
+    c.is_available,
+    round(c.distance, 2) AS distance_km,
+    round(
+      0.5 * (1 - c.distance / greatest(c.service_radius, 1))
+      + 0.35 * (coalesce(c.rating, 0) / 5)
+      + 0.15 * (least(coalesce(c.total_jobs, 0), 100)::numeric / 100),
+      4
+    ) AS match_score,
+    CASE WHEN p_service_id IS NOT NULL THEN (
+      SELECT sum(q.amount)
+      FROM quote_booking(p_service_id, c.id, p_latitude, p_longitude, now()) q
+      WHERE q.kind IN ('labor', 'parts', 'travel')
+    ) END AS price,
+    t.estimated_duration
+  FROM candidates c
+  LEFT JOIN LATERAL mechanic_service_terms(c.id, p_service_id) t ON true
+  WHERE c.distance <= c.service_radius
+  ORDER BY match_score DESC, c.distance ASC
+  LIMIT p_limit;
+$$;
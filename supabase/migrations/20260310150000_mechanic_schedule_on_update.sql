@@ -0,0 +1,174 @@
+/*
+  # Mechanic Schedule Checks on Update and in Matching
+
+  ## Overview
+  `check_mechanic_schedule` only ran on INSERT, so moving a booking to
+  another time or mechanic could put it outside working hours or over the
+  daily job limit. And `match_mechanics` listed every online mechanic, even
+  ones who were off or fully booked on the day the customer wanted, who then
+  had no times to offer. Both now respect the mechanic's schedule.
+
+  ## Functions
+
+  1. **check_mechanic_schedule()** - also runs when the time, mechanic or
+     duration of a booking changes; the booking being checked no longer
+     counts towards its own daily limit, and working hours are read from
+     `mechanic_working_hours` directly, because
+     `get_mechanic_working_windows` leaves out a full day that the booking
+     itself may be filling
+  2. **match_mechanics(..., p_from, p_to)** - with a time range, only lists
+     mechanics with working hours in it, leaving out days at their job
+     limit and hours taken up entirely by one booking or time off
+
+  ## Notes
+  - `claim_dispatch` already checks the mechanic is available right now, so
+    the mechanic it assigns is not checked again against the request time
+  - Without `p_from` / `p_to`, `match_mechanics` matches as before
+*/
+
+CREATE OR REPLACE FUNCTION check_mechanic_schedule()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mechanic mechanics;
+  v_start timestamp;
+  v_end timestamp;
+BEGIN
+  IF NEW.mechanic_id IS NULL OR NEW.status NOT IN ('pending', 'accepted', 'in_progress') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND current_setting('app.dispatch_update', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_mechanic FROM mechanics WHERE id = NEW.mechanic_id;
+  v_start := NEW.scheduled_time AT TIME ZONE v_mechanic.time_zone;
+  v_end := v_start + make_interval(mins => NEW.estimated_duration);
+
+  IF NOT v_mechanic.is_available THEN
+    RAISE EXCEPTION 'This mechanic is not taking bookings right now';
+  END IF;
+
+  IF v_mechanic.max_jobs_per_day IS NOT NULL AND (
+    SELECT count(*)
+    FROM bookings b
+    WHERE b.mechanic_id = NEW.mechanic_id
+      AND b.id <> NEW.id
+      AND b.status IN ('pending', 'accepted', 'in_progress')
+      AND (b.scheduled_time AT TIME ZONE v_mechanic.time_zone)::date = v_start::date
+  ) >= v_mechanic.max_jobs_per_day THEN
+    RAISE EXCEPTION 'This mechanic is fully booked on that day';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM mechanic_working_hours h
+    WHERE h.mechanic_id = NEW.mechanic_id
+      AND h.weekday = EXTRACT(DOW FROM v_start)
+      AND v_start >= v_start::date + h.start_time
+      AND v_end <= v_start::date + h.end_time
+  ) THEN
+    RAISE EXCEPTION 'The selected time is outside this mechanic''s working hours';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_check_mechanic_schedule ON bookings;
+CREATE TRIGGER bookings_check_mechanic_schedule
+  BEFORE INSERT OR UPDATE OF scheduled_time, mechanic_id, estimated_duration ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION check_mechanic_schedule();
+
+DROP FUNCTION IF EXISTS match_mechanics(numeric, numeric, integer, uuid);
+
+CREATE OR REPLACE FUNCTION match_mechanics(
+  p_latitude numeric,
+  p_longitude numeric,
+  p_limit integer DEFAULT 20,
+  p_service_id uuid DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  business_name text,
+  rating numeric,
+  total_jobs integer,
+  years_experience integer,
+  service_radius integer,
+  is_available boolean,
+  distance_km numeric,
+  match_score numeric,
+  price numeric,
+  estimated_duration integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      m.*,
+      distance_km(p_latitude, p_longitude, m.current_latitude, m.current_longitude) AS distance
+    FROM mechanics m
+    WHERE m.is_available = true
+      AND m.current_latitude IS NOT NULL
+      AND m.current_longitude IS NOT NULL
+      AND (
+        p_service_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM mechanic_services ms
+          WHERE ms.mechanic_id = m.id AND ms.service_id = p_service_id
+        )
+      )
+      AND (
+        p_from IS NULL
+        OR p_to IS NULL
+        OR EXISTS (
+          SELECT 1
+          FROM get_mechanic_working_windows(m.id, p_from, p_to) w
+          WHERE NOT EXISTS (
+            SELECT 1
+            FROM get_mechanic_busy_times(m.id, p_from, p_to) busy
+            WHERE busy.scheduled_time <= greatest(w.starts_at, p_from)
+              AND busy.scheduled_time + make_interval(mins => busy.estimated_duration)
+                >= least(w.ends_at, p_to)
+          )
+        )
+      )
+  )
+  SELECT
+    c.id,
+    c.business_name,
+    c.rating,
+    c.total_jobs,
+    c.years_experience,
+    c.service_radius,
+    c.is_available,
+    round(c.distance, 2) AS distance_km,
+    round(
+      0.5 * (1 - c.distance / greatest(c.service_radius, 1))
+      + 0.35 * (coalesce(c.rating, 0) / 5)
+      + 0.15 * (least(coalesce(c.total_jobs, 0), 100)::numeric / 100),
+      4
+    ) AS match_score,
+    CASE WHEN p_service_id IS NOT NULL THEN (
+      SELECT sum(q.amount)
+      FROM quote_booking(p_service_id, c.id, p_latitude, p_longitude, now()) q
+      WHERE q.kind IN ('labor', 'parts', 'travel')
+    ) END AS price,
+    t.estimated_duration
+  FROM candidates c
+  LEFT JOIN LATERAL mechanic_service_terms(c.id, p_service_id) t ON true
+  WHERE c.distance <= c.service_radius
+  ORDER BY match_score DESC, c.distance ASC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_mechanics(numeric, numeric, integer, uuid, timestamptz, timestamptz)
+  TO authenticated;
@@ -0,0 +1,223 @@
+/*
+  # Payment Events Must Match the Booking
+
+  ## Overview
+  A booking party could still send `payment.voided` through
+  `record_mock_payment_event` while the booking was accepted or in progress.
+  The app then never authorized the payment again, nor captured it, so the
+  job completed unpaid. And a customer who cancelled inside the free window
+  of a booking that had no payment yet owed a `cancellation_fee` that was
+  never collected.
+
+  ## Functions
+
+  1. **record_payment_event(...)** - a voided payment can be authorized
+     again, and a cancelled booking with a fee and no payment can authorize
+     just the fee
+  2. **record_mock_payment_event(...)** - only accepts events that fit the
+     booking's status:
+     - authorized / failed: accepted, in progress or completed, or cancelled
+       with a fee
+     - captured: completed or cancelled
+     - refunded / voided: cancelled
+
+  ## Notes
+  - Provider webhooks calling `record_payment_event` directly are trusted
+    and are not limited this way
+*/
+
+CREATE OR REPLACE FUNCTION record_payment_event(
+  p_event_id text,
+  p_booking_id uuid,
+  p_provider text,
+  p_reference text,
+  p_type text,
+  p_amount numeric,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+  v_payment payments;
+  v_amount numeric := 0;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF v_booking.id IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  SELECT * INTO v_payment FROM payments WHERE booking_id = p_booking_id FOR UPDATE;
+
+  IF v_payment.id IS NOT NULL AND EXISTS (SELECT 1 FROM payment_events WHERE id = p_event_id) THEN
+    RETURN v_payment;
+  END IF;
+
+  IF p_type = 'payment.authorized' THEN
+    IF v_booking.status IN ('accepted', 'in_progress', 'completed') THEN
+      v_amount := v_booking.total_price;
+    ELSIF v_booking.status = 'cancelled' AND v_booking.cancellation_fee > 0 THEN
+      -- Cancelled before anything was authorized; only the fee is charged.
+      v_amount := v_booking.cancellation_fee;
+    ELSE
+      RAISE EXCEPTION 'Cannot authorize payment for a % booking', v_booking.status;
+    END IF;
+  END IF;
+
+  IF v_payment.id IS NULL THEN
+    IF p_type NOT IN ('payment.authorized', 'payment.failed') THEN
+      RAISE EXCEPTION 'Payment for this booking has not been authorized';
+    END IF;
+
+    INSERT INTO payments (
+      booking_id, customer_id, mechanic_id, provider, provider_reference, status,
+      amount, failure_reason
+    )
+    VALUES (
+      v_booking.id,
+      v_booking.customer_id,
+      v_booking.mechanic_id,
+      p_provider,
+      p_reference,
+      CASE WHEN p_type = 'payment.authorized' THEN 'authorized' ELSE 'failed' END,
+      v_amount,
+      p_failure_reason
+    )
+    RETURNING * INTO v_payment;
+  ELSE
+    CASE p_type
+      WHEN 'payment.authorized' THEN
+        IF v_payment.status NOT IN ('failed', 'voided') THEN
+          RAISE EXCEPTION 'Payment is already %', v_payment.status;
+        END IF;
+        UPDATE payments
+        SET status = 'authorized', provider = p_provider, provider_reference = p_reference,
+            amount = v_amount, failure_reason = NULL, updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      WHEN 'payment.captured' THEN
+        v_amount := LEAST(
+          v_payment.amount,
+          CASE v_booking.status
+            WHEN 'completed' THEN v_booking.total_price
+            WHEN 'cancelled' THEN v_booking.cancellation_fee
+            ELSE 0
+          END
+        );
+        IF v_payment.status <> 'authorized' OR v_amount <= 0 THEN
+          RAISE EXCEPTION 'Cannot capture payment for a % booking', v_booking.status;
+        END IF;
+        UPDATE payments
+        SET status = 'captured', captured_amount = v_amount, updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      WHEN 'payment.refunded' THEN
+        v_amount := p_amount;
+        IF v_payment.status NOT IN ('captured', 'partially_refunded')
+          OR v_amount <= 0
+          OR v_payment.refunded_amount + v_amount > v_payment.captured_amount
+          OR (
+            v_booking.status = 'cancelled'
+            AND v_payment.refunded_amount + v_amount
+              > v_payment.captured_amount - v_booking.cancellation_fee
+          )
+        THEN
+          RAISE EXCEPTION 'Cannot refund % on a % payment', v_amount, v_payment.status;
+        END IF;
+        UPDATE payments
+        SET refunded_amount = refunded_amount + v_amount,
+            status = CASE
+              WHEN refunded_amount + v_amount >= captured_amount THEN 'refunded'
+              ELSE 'partially_refunded'
+            END,
+            updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      WHEN 'payment.voided' THEN
+        IF v_payment.status <> 'authorized' THEN
+          RAISE EXCEPTION 'Cannot void a % payment', v_payment.status;
+        END IF;
+        UPDATE payments
+        SET status = 'voided', updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      WHEN 'payment.failed' THEN
+        IF v_payment.status <> 'failed' THEN
+          RETURN v_payment;
+        END IF;
+        UPDATE payments
+        SET failure_reason = p_failure_reason, updated_at = now()
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+      ELSE
+        RAISE EXCEPTION 'Unknown payment event %', p_type;
+    END CASE;
+  END IF;
+
+  INSERT INTO payment_events (id, payment_id, type, amount, failure_reason)
+  VALUES (p_event_id, v_payment.id, p_type, v_amount, p_failure_reason);
+
+  RETURN v_payment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_payment_event(text, uuid, text, text, text, numeric, text)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_payment_event(text, uuid, text, text, text, numeric, text)
+  TO service_role;
+
+CREATE OR REPLACE FUNCTION record_mock_payment_event(
+  p_event_id text,
+  p_booking_id uuid,
+  p_reference text,
+  p_type text,
+  p_amount numeric,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+  v_chargeable boolean;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF v_booking.id IS NULL
+    OR coalesce(booking_actor_role(v_booking), '') NOT IN ('customer', 'mechanic')
+  THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF p_reference IS DISTINCT FROM 'mock_pay_' || p_booking_id THEN
+    RAISE EXCEPTION 'Unknown payment reference';
+  END IF;
+
+  v_chargeable := v_booking.status IN ('accepted', 'in_progress', 'completed')
+    OR (v_booking.status = 'cancelled' AND v_booking.cancellation_fee > 0);
+
+  IF NOT CASE p_type
+    WHEN 'payment.authorized' THEN v_chargeable
+    WHEN 'payment.failed' THEN v_chargeable
+    WHEN 'payment.captured' THEN v_booking.status IN ('completed', 'cancelled')
+    WHEN 'payment.refunded' THEN v_booking.status = 'cancelled'
+    WHEN 'payment.voided' THEN v_booking.status = 'cancelled'
+    ELSE false
+  END THEN
+    RAISE EXCEPTION 'Cannot record % on a % booking', p_type, v_booking.status;
+  END IF;
+
+  RETURN record_payment_event(
+    p_event_id, p_booking_id, 'mock', p_reference, p_type, p_amount, p_failure_reason
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_mock_payment_event(text, uuid, text, text, numeric, text)
+  TO authenticated;
@@ -0,0 +1,46 @@
+/*
+  # Freeze Review Links
+
+  ## Overview
+  "Customers can update own reviews" only checked `customer_id`, so a
+  customer could point their review at another booking or mechanic and skew
+  that mechanic's rating, or move a bad review off the job it was about. A
+  review now stays tied to the booking, mechanic and customer it was written
+  for; only the rating and comment can be edited.
+
+  ## Functions
+
+  1. **protect_review_links()** - BEFORE UPDATE trigger on reviews that
+     rejects changes to `booking_id`, `mechanic_id` or `customer_id` from the
+     app
+
+  ## Notes
+  - Calls without a signed-in user (the service role, cron jobs) are not
+    checked, as in `protect_booking_pricing_inputs`
+*/
+
+CREATE OR REPLACE FUNCTION protect_review_links()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.booking_id IS DISTINCT FROM OLD.booking_id
+    OR NEW.mechanic_id IS DISTINCT FROM OLD.mechanic_id
+    OR NEW.customer_id IS DISTINCT FROM OLD.customer_id
+  THEN
+    RAISE EXCEPTION 'A review can''t be moved to another booking';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reviews_protect_links
+  BEFORE UPDATE OF booking_id, mechanic_id, customer_id ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_review_links();
@@ -0,0 +1,191 @@
+/*
+  # Labor Priced From the Service's Base Price
+
+  ## Overview
+  Admins price a service through its `base_price`, but `quote_booking`
+  charged the standard labor as `pricing_config.labor_rate_per_hour` times
+  the duration and never read it, so repricing a service changed nothing a
+  customer paid. The base price is now the labor charge for the service's
+  standard duration.
+
+  ## Functions
+
+  1. **quote_booking(...)** - standard labor is `base_price`, scaled by the
+     mechanic's duration when they set their own; the line shows the hours
+     and the hourly rate that works out to. A mechanic's own price is still
+     a flat charge for the job
+
+  ## Notes
+  - `pricing_config.labor_rate_per_hour` is no longer used for quotes
+  - Bookings keep the total they were created with
+*/
+
+CREATE OR REPLACE FUNCTION quote_booking(
+  p_service_id uuid,
+  p_mechanic_id uuid,
+  p_latitude numeric,
+  p_longitude numeric,
+  p_scheduled_time timestamptz,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS TABLE (
+  kind text,
+  description text,
+  quantity numeric,
+  unit_price numeric,
+  amount numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config pricing_config;
+  v_service services;
+  v_mechanic mechanics;
+  v_promo promo_codes;
+  v_duration integer;
+  v_price numeric;
+  v_has_custom_price boolean := false;
+  v_labor numeric;
+  v_local_time timestamp;
+  v_billable_km numeric;
+  v_subtotal numeric := 0;
+BEGIN
+  SELECT * INTO v_config FROM pricing_config LIMIT 1;
+  SELECT * INTO v_service FROM services WHERE id = p_service_id;
+
+  IF v_service.id IS NULL THEN
+    RAISE EXCEPTION 'Service not found';
+  END IF;
+
+  v_duration := v_service.estimated_duration;
+
+  IF p_mechanic_id IS NOT NULL THEN
+    SELECT t.price, t.estimated_duration, t.has_custom_price
+    INTO v_price, v_duration, v_has_custom_price
+    FROM mechanic_service_terms(p_mechanic_id, p_service_id) t;
+
+    IF v_duration IS NULL THEN
+      RAISE EXCEPTION 'This mechanic does not offer this service';
+    END IF;
+  END IF;
+
+  kind := 'labor';
+  description := 'Labor: ' || v_service.name;
+  IF v_has_custom_price THEN
+    -- The mechanic's own price is a flat charge for the job.
+    v_labor := v_price;
+    quantity := 1;
+    unit_price := v_labor;
+  ELSE
+    -- The service's base price covers its standard duration; a mechanic's
+    -- own duration is charged at the same hourly rate.
+    unit_price := round(
+      v_service.base_price * 60.0 / greatest(v_service.estimated_duration, 1), 2
+    );
+    v_labor := round(
+      v_service.base_price * v_duration / greatest(v_service.estimated_duration, 1), 2
+    );
+    quantity := round(v_duration / 60.0, 2);
+  END IF;
+  amount := v_labor;
+  v_subtotal := v_subtotal + amount;
+  RETURN NEXT;
+
+  IF v_service.parts_price > 0 THEN
+    kind := 'parts';
+    description := 'Parts';
+    quantity := 1;
+    unit_price := v_service.parts_price;
+    amount := v_service.parts_price;
+    v_subtotal := v_subtotal + amount;
+    RETURN NEXT;
+  END IF;
+
+  SELECT * INTO v_mechanic FROM mechanics WHERE id = p_mechanic_id;
+
+  IF v_mechanic.current_latitude IS NOT NULL
+    AND v_mechanic.current_longitude IS NOT NULL
+    AND p_latitude IS NOT NULL
+    AND p_longitude IS NOT NULL
+  THEN
+    v_billable_km := round(
+      greatest(
+        distance_km(
+          v_mechanic.current_latitude,
+          v_mechanic.current_longitude,
+          p_latitude,
+          p_longitude
+        ) - v_config.travel_free_km,
+        0
+      ),
+      1
+    );
+
+    IF v_billable_km > 0 AND v_config.travel_fee_per_km > 0 THEN
+      kind := 'travel';
+      description := 'Travel beyond ' || trim_scale(v_config.travel_free_km) || ' km';
+      quantity := v_billable_km;
+      unit_price := v_config.travel_fee_per_km;
+      amount := round(v_billable_km * v_config.travel_fee_per_km, 2);
+      v_subtotal := v_subtotal + amount;
+      RETURN NEXT;
+    END IF;
+  END IF;
+
+  v_local_time := p_scheduled_time AT TIME ZONE v_config.time_zone;
+
+  IF v_service.category = 'emergency' AND v_config.emergency_surcharge_percent > 0 THEN
+    kind := 'surcharge';
+    description := 'Emergency surcharge';
+    quantity := 1;
+    unit_price := round(v_labor * v_config.emergency_surcharge_percent / 100, 2);
+    amount := unit_price;
+    v_subtotal := v_subtotal + amount;
+    RETURN NEXT;
+  ELSIF v_config.after_hours_surcharge_percent > 0 AND (
+    EXTRACT(ISODOW FROM v_local_time) IN (6, 7)
+    OR EXTRACT(HOUR FROM v_local_time) < v_config.business_hours_start
+    OR EXTRACT(HOUR FROM v_local_time) >= v_config.business_hours_end
+  ) THEN
+    kind := 'surcharge';
+    description := 'After-hours surcharge';
+    quantity := 1;
+    unit_price := round(v_labor * v_config.after_hours_surcharge_percent / 100, 2);
+    amount := unit_price;
+    v_subtotal := v_subtotal + amount;
+    RETURN NEXT;
+  END IF;
+
+  IF p_promo_code IS NOT NULL AND p_promo_code <> '' THEN
+    SELECT * INTO v_promo
+    FROM promo_codes
+    WHERE code = upper(trim(p_promo_code))
+      AND is_active
+      AND (expires_at IS NULL OR expires_at > now());
+
+    IF v_promo.code IS NULL THEN
+      RAISE EXCEPTION 'Promo code % is not valid', upper(trim(p_promo_code));
+    END IF;
+
+    kind := 'discount';
+    description := 'Promo ' || v_promo.code || ' (' || trim_scale(v_promo.percent_off) || '% off)';
+    quantity := 1;
+    unit_price := -round(v_subtotal * v_promo.percent_off / 100, 2);
+    amount := unit_price;
+    v_subtotal := v_subtotal + amount;
+    RETURN NEXT;
+  END IF;
+
+  IF v_config.tax_percent > 0 THEN
+    kind := 'tax';
+    description := 'Tax (' || trim_scale(v_config.tax_percent) || '%)';
+    quantity := 1;
+    unit_price := round(v_subtotal * v_config.tax_percent / 100, 2);
+    amount := unit_price;
+    RETURN NEXT;
+  END IF;
+END;
+$$;
@@ -0,0 +1,63 @@
+/*
+  # En-Route Time Set by the Server
+
+  ## Overview
+  `apply_booking_cancellation` let the assigned mechanic write any
+  `en_route_at`, and the app sent the device clock. A mechanic could backdate
+  it, mark themselves on the way days before the job, or clear it again, and
+  the en-route time decides both the cancellation fee and when the customer
+  can see the mechanic's position. The database now records the time itself.
+
+  ## Functions
+
+  1. **apply_booking_cancellation()** - when the mechanic marks an accepted
+     booking en route, `en_route_at` is set to `now()` whatever the app sent:
+     - only from 2 hours before `scheduled_time`
+     - once set it can't be changed or cleared
+     The cancellation columns are handled as before
+
+  ## Notes
+  - Other users' changes to `en_route_at` are still ignored, as before
+*/
+
+CREATE OR REPLACE FUNCTION apply_booking_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role text := booking_actor_role(OLD);
+  v_en_route_window interval := interval '2 hours';
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.cancellation_reason := coalesce(current_setting('app.booking_transition_reason', true), '');
+    NEW.cancellation_fee := CASE
+      WHEN v_role = 'customer' THEN coalesce(calculate_cancellation_fee(OLD), 0)
+      ELSE 0
+    END;
+  ELSE
+    NEW.cancelled_at := OLD.cancelled_at;
+    NEW.cancelled_by := OLD.cancelled_by;
+    NEW.cancellation_reason := OLD.cancellation_reason;
+    NEW.cancellation_fee := OLD.cancellation_fee;
+  END IF;
+
+  IF NEW.en_route_at IS DISTINCT FROM OLD.en_route_at THEN
+    IF v_role IS DISTINCT FROM 'mechanic' OR OLD.status <> 'accepted' THEN
+      NEW.en_route_at := OLD.en_route_at;
+    ELSIF OLD.en_route_at IS NOT NULL THEN
+      RAISE EXCEPTION 'You are already on your way to this job';
+    ELSIF now() < OLD.scheduled_time - v_en_route_window THEN
+      RAISE EXCEPTION 'You can head out from % hours before the appointment',
+        extract(hour FROM v_en_route_window);
+    ELSE
+      NEW.en_route_at := now();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
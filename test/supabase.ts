@@ -0,0 +1,63 @@
+/**
+ * In-memory stand-in for `@/lib/supabase` in tests. Tables hold plain rows
+ * and RPCs are answered by handlers the test registers; every RPC call is
+ * recorded so tests can check what was sent.
+ */
+type Row = Record<string, any>;
+type Result = { data: any; error: { message: string } | null };
+
+export const fakeDatabase = {
+  tables: {} as Record<string, Row[]>,
+  rpcs: {} as Record<string, (args: Row) => Result>,
+  rpcCalls: [] as { fn: string; args: Row }[],
+
+  reset() {
+    this.tables = {};
+    this.rpcs = {};
+    this.rpcCalls = [];
+  },
+};
+
+class Query {
+  private filters: [string, unknown][] = [];
+
+  constructor(private table: string) {}
+
+  select(_columns?: string) {
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push([column, value]);
+    return this;
+  }
+
+  private rows() {
+    return (fakeDatabase.tables[this.table] ?? []).filter((row) =>
+      this.filters.every(([column, value]) => row[column] === value)
+    );
+  }
+
+  async maybeSingle(): Promise<Result> {
+    return { data: this.rows()[0] ?? null, error: null };
+  }
+
+  then<T>(resolve: (result: Result) => T) {
+    return Promise.resolve({ data: this.rows(), error: null }).then(resolve);
+  }
+}
+
+export const supabase = {
+  from(table: string) {
+    return new Query(table);
+  },
+
+  async rpc(fn: string, args: Row = {}): Promise<Result> {
+    fakeDatabase.rpcCalls.push({ fn, args });
+    const handler = fakeDatabase.rpcs[fn];
+    if (!handler) {
+      return { data: null, error: { message: `Unknown function ${fn}` } };
+    }
+    return handler(args);
+  },
+};